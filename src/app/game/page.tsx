@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import {
   GameState,
@@ -9,14 +9,43 @@ import {
   Move,
   ValidMove,
   PieceColor,
+  PieceType,
   INITIAL_BOARD_STATE,
-  Difficulty
+  Difficulty,
+  AIMove,
+  AISearchProgress,
+  EndgameProbe
 } from '@/types/chess';
 import { ChessEngine } from '@/lib/chess-engine';
-import { ChessAI } from '@/lib/chess-ai';
-import { ChessBoard } from '@/components/chess/ChessBoard';
+import { getSearchTimeBudget } from '@/lib/chess-ai';
+import { AISearchCancelledError, ChessAIClient } from '@/lib/chess-ai-client';
+import { MAX_ENDGAME_PIECES } from '@/lib/chess-endgame';
+import { createGameStateFromFen, getFenStart } from '@/lib/chess-fen';
+import { HINT_DIFFICULTY, HINT_TIME_LIMIT_MS, findThreats } from '@/lib/chess-hints';
+import { identifyOpening } from '@/lib/chess-openings';
+import {
+  CLOCK_TICK_MS,
+  applyFlagFall,
+  createClock,
+  getRemainingTime,
+  isFlagged,
+  recordMoveOnClock,
+  resumeClock,
+  settleClockForTakeback,
+  stopClock
+} from '@/lib/chess-clock';
+import { exportPgn, formatPgnDate, getGameWinner, ImportedPgn } from '@/lib/chess-pgn';
+import { applyLaunchSearchParams, getPlayerNames, loadStoredLaunchSettings } from '@/lib/game-settings';
+import { createGameHistory, gameHistoryRepository, withPreviousAnalysis } from '@/lib/game-history';
+import { SavedGame, autosaveGame, clearSavedGame, loadSavedGame, saveGame } from '@/lib/game-autosave';
+import { STRENGTH_PROFILES } from '@/lib/chess-strength';
+import { toast } from '@/hooks/use-toast';
+import { BoardArrow, ChessBoard } from '@/components/chess/ChessBoard';
 import { MoveHistory } from '@/components/chess/MoveHistory';
 import { GameStatus } from '@/components/chess/GameStatus';
+import { PgnImportDialog } from '@/components/chess/PgnImportDialog';
+import { ResumeGameDialog } from '@/components/chess/ResumeGameDialog';
+import { ReplayControls } from '@/components/chess/ReplayControls';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { PieceIcon } from '@/components/chess/ChessPiece';
@@ -27,9 +56,28 @@ import {
   RotateCcw,
   Lightbulb,
   Volume2,
-  VolumeX
+  VolumeX,
+  Upload,
+  BookOpen,
+  Undo2,
+  Redo2,
+  Crown,
+  CircleDot,
+  ShieldAlert,
+  Eye
 } from 'lucide-react';
 
+const withFreshClock = (state: GameState): GameState => ({
+  ...state,
+  clock: createClock(state.gameSettings.timeControl)
+});
+
+// Evaluation from the AI's side, in pawns
+const formatEvaluation = (evaluation: number): string => {
+  if (Math.abs(evaluation) >= 5000) return evaluation > 0 ? 'Mating' : 'Being mated';
+  return `${evaluation >= 0 ? '+' : ''}${evaluation.toFixed(2)}`;
+};
+
 export default function GamePage() {
   const router = useRouter();
   const [gameState, setGameState] = useState<GameState>(() => ({
@@ -56,12 +104,103 @@ export default function GamePage() {
   const [gameTime, setGameTime] = useState(0);
   const [soundEnabled, setSoundEnabled] = useState(true);
   const [showHints, setShowHints] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [reviewInfo, setReviewInfo] = useState<ImportedPgn | null>(null);
+  const [redoStack, setRedoStack] = useState<Move[]>([]);
+  const [pendingPromotion, setPendingPromotion] = useState<{ piece: Piece; to: Position } | null>(null);
+  const [clockNow, setClockNow] = useState(() => Date.now());
+  const [aiProgress, setAiProgress] = useState<AISearchProgress | null>(null);
+  const [endgameProbe, setEndgameProbe] = useState<EndgameProbe | null>(null);
+  const [hint, setHint] = useState<AIMove | null>(null);
+  const [isHinting, setIsHinting] = useState(false);
+  const [showThreats, setShowThreats] = useState(false);
+  // An earlier position shown on the board while the game itself carries on; null follows the live game
+  const [viewedPly, setViewedPly] = useState<number | null>(null);
+  // An unfinished game found on load, waiting for the player to resume it or start over
+  const [savedGame, setSavedGame] = useState<SavedGame | null>(null);
+  const aiClientRef = useRef<ChessAIClient | null>(null);
+  // Hints search on their own worker so they never disturb the AI opponent's
+  const hintClientRef = useRef<ChessAIClient | null>(null);
+  // The game and whether it was in play when the history effect last ran
+  const lastPlayRef = useRef<{ id: string; isActive: boolean } | null>(null);
 
   const engine = useMemo(() => new ChessEngine(gameState), [gameState]);
-  const ai = useMemo(() => new ChessAI(gameState.gameSettings.difficulty), [gameState.gameSettings.difficulty]);
+  // The engine plays moves on the state in place, so the move count marks a new position
+  const opening = useMemo(() => identifyOpening(gameState), [gameState, gameState.moves.length]);
+
+  const isReviewing = reviewInfo !== null;
+  // In local games both sides are human, so whoever is to move controls the board
+  const activeColor = gameState.isAIGame ? gameState.gameSettings.playerColor : gameState.currentPlayer;
+  const isPlayerTurn = gameState.currentPlayer === activeColor && !isReviewing;
+  const playerNames = getPlayerNames(gameState.gameSettings, gameState.isAIGame);
+  const isFlipped = gameState.isAIGame
+    ? gameState.gameSettings.playerColor === 'black'
+    : !!gameState.gameSettings.autoFlipBoard && gameState.currentPlayer === 'black';
+  // The new game is held while a saved one is offered, so neither the AI nor the timers run
+  // and nothing is saved over the offered game before the player answers
+  const isAwaitingResume = savedGame !== null;
+  const isGameActive = (gameState.status === 'active' || gameState.status === 'check') && !isReviewing &&
+    !isAwaitingResume;
+  const isGameOver = gameState.status !== 'active' && gameState.status !== 'check';
+  // A flag fall is final; taking moves back cannot give the time back
+  const isFlagFall = gameState.status === 'timeout' || gameState.drawReason === 'timeout-vs-insufficient-material';
+  // Undoing while the AI thinks cancels its search
+  const canUndo = gameState.gameSettings.allowUndo && !isReviewing && !isFlagFall && gameState.moves.length > 0;
+  const canRedo = gameState.gameSettings.allowUndo && !isThinking && !isReviewing && redoStack.length > 0;
+  const canHint = isPlayerTurn && isGameActive && !isThinking && !isHinting;
+  const isViewingPast = viewedPly !== null && viewedPly < gameState.moves.length;
+  const viewedState = useMemo(
+    () => (isViewingPast ? engine.getGameStateAtPly(viewedPly) : null),
+    [engine, isViewingPast, viewedPly, gameState.moves.length]
+  );
+
+  // What the opponent would play if the player passed, shown only while it is the player's move
+  const threats = useMemo(
+    () => (showThreats && isPlayerTurn && isGameActive ? findThreats(gameState) : []),
+    [showThreats, isPlayerTurn, isGameActive, gameState, gameState.moves.length]
+  );
+  const boardArrows: BoardArrow[] = [
+    ...(hint ? [{ from: hint.move.from, to: hint.move.to, kind: 'hint' as const }] : []),
+    ...threats.map(threat => ({ from: threat.from, to: threat.to, kind: 'threat' as const }))
+  ];
+
+  // A new game, or a takeback past the viewed position, returns the board to the live game
+  useEffect(() => {
+    setViewedPly(null);
+  }, [gameState.id]);
+
+  useEffect(() => {
+    setViewedPly(prev => (prev !== null && prev >= gameState.moves.length ? null : prev));
+  }, [gameState.moves.length]);
+
+  // Load the setup page's choices, letting deep-link query parameters override them
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const { gameMode, soundEnabled: launchSound, ...gameSettings } =
+      applyLaunchSearchParams(params, loadStoredLaunchSettings());
+    const isAIGame = gameMode === 'ai';
 
-  const isPlayerTurn = gameState.currentPlayer === gameState.gameSettings.playerColor;
-  const isGameActive = gameState.status === 'active' || gameState.status === 'check';
+    setSoundEnabled(launchSound);
+    setShowHints(gameSettings.showHints);
+    setSavedGame(loadSavedGame());
+
+    // Start from a custom position when one is passed as ?fen=
+    const fen = params.get('fen');
+    if (fen) {
+      try {
+        setGameState(withFreshClock(createGameStateFromFen(fen, gameSettings, isAIGame)));
+        return;
+      } catch (error) {
+        toast({
+          title: 'Could not load position',
+          description: error instanceof Error ? error.message : String(error),
+          variant: 'destructive'
+        });
+      }
+    }
+
+    setGameState(prev => withFreshClock({ ...prev, gameSettings, isAIGame }));
+  }, []);
 
   // Game timer
   useEffect(() => {
@@ -74,23 +213,149 @@ export default function GamePage() {
     return () => clearInterval(timer);
   }, [isGameActive]);
 
+  // Chess clock display refresh
+  useEffect(() => {
+    if (!isGameActive || !gameState.clock) return;
+
+    const timer = setInterval(() => {
+      setClockNow(Date.now());
+    }, CLOCK_TICK_MS);
+
+    return () => clearInterval(timer);
+  }, [isGameActive, gameState.clock]);
+
+  // A finished game keeps the opening it was played in
+  useEffect(() => {
+    if (isGameOver && opening && gameState.opening !== opening) {
+      setGameState(prev => ({ ...prev, opening }));
+    }
+  }, [isGameOver, opening]);
+
+  // Autosave after every move. Nothing is saved while the resume prompt is open, so the old
+  // game is not overwritten.
+  useEffect(() => {
+    if (isReviewing || savedGame) return;
+
+    autosaveGame(gameState, gameTime);
+  }, [gameState, gameState.moves.length, isReviewing, savedGame]);
+
+  // The save after a move catches the next turn just as it starts, so save again as the page is
+  // hidden or closed; otherwise resuming would refund the thinking time since the last move
+  useEffect(() => {
+    if (isReviewing || savedGame || !isGameActive || gameState.moves.length === 0) return;
+
+    const saveNow = () => saveGame(gameState, gameTime);
+    const saveWhenHidden = () => {
+      if (document.visibilityState === 'hidden') saveNow();
+    };
+
+    window.addEventListener('pagehide', saveNow);
+    document.addEventListener('visibilitychange', saveWhenHidden);
+    return () => {
+      window.removeEventListener('pagehide', saveNow);
+      document.removeEventListener('visibilitychange', saveWhenHidden);
+    };
+  }, [gameState, gameTime, isGameActive, isReviewing, savedGame]);
+
+  // Keep every game that ends in play on this page; one that ends again after a takeback replaces
+  // its record. Games that arrive finished, such as an imported PGN, were never played here.
+  useEffect(() => {
+    const last = lastPlayRef.current;
+    lastPlayRef.current = { id: gameState.id, isActive: isGameActive };
+    if (!isGameOver || isReviewing || !last?.isActive || last.id !== gameState.id) return;
+
+    const record = createGameHistory(gameState);
+    gameHistoryRepository.get(record.id)
+      .then(previous => gameHistoryRepository.save(withPreviousAnalysis(record, previous)))
+      .catch(error => {
+        toast({
+          title: 'Could not save game',
+          description: error instanceof Error ? error.message : String(error),
+          variant: 'destructive'
+        });
+      });
+  }, [gameState, isGameActive, isGameOver, isReviewing]);
+
+  // Exact endgame result once few enough pieces are left; the worker builds missing tables
+  useEffect(() => {
+    setEndgameProbe(null);
+    const pieceCount = gameState.board.flat().filter(Boolean).length;
+    if (!isGameActive || pieceCount > MAX_ENDGAME_PIECES) return;
+
+    let current = true;
+    const client = aiClientRef.current ?? (aiClientRef.current = new ChessAIClient());
+    client.probeEndgame(gameState).then(probe => {
+      if (current) setEndgameProbe(probe);
+    });
+    return () => {
+      current = false;
+    };
+  }, [gameState, gameState.moves.length, isGameActive]);
+
+  // A hint only applies to the position it was asked for
+  useEffect(() => {
+    hintClientRef.current?.cancel();
+    setHint(null);
+    setIsHinting(false);
+  }, [gameState.id, gameState.moves.length]);
+
+  // Stop the AI workers when leaving the page
+  useEffect(() => () => {
+    aiClientRef.current?.dispose();
+    hintClientRef.current?.dispose();
+  }, []);
+
+  const cancelAISearch = useCallback(() => {
+    aiClientRef.current?.cancel();
+    setIsThinking(false);
+    setAiProgress(null);
+  }, []);
+
+  // Flag fall
+  useEffect(() => {
+    if (isGameActive && isFlagged(gameState, clockNow)) {
+      cancelAISearch();
+      setGameState(applyFlagFall(gameState, clockNow));
+      setSelectedPiece(null);
+      setValidMoves([]);
+      setPendingPromotion(null);
+    }
+  }, [clockNow]);
+
   // AI move handling
   useEffect(() => {
-    if (!isPlayerTurn && isGameActive && !isThinking) {
+    if (gameState.isAIGame && !isPlayerTurn && isGameActive && !isThinking) {
       handleAIMove();
     }
-  }, [gameState.currentPlayer, isPlayerTurn, isGameActive, isThinking]);
+  }, [gameState.currentPlayer, gameState.isAIGame, isPlayerTurn, isGameActive, isThinking]);
 
   const handleAIMove = useCallback(async () => {
     if (isThinking) return;
 
+    const client = aiClientRef.current ?? (aiClientRef.current = new ChessAIClient());
+    const { aiColor, difficulty, timeControl } = gameState.gameSettings;
+    const clockRemaining = gameState.clock &&
+      getRemainingTime(gameState.clock, aiColor, gameState.currentPlayer, timeControl);
+
     setIsThinking(true);
+    setAiProgress(null);
     try {
-      const aiMove = await ai.getBestMove(gameState, gameState.gameSettings.aiColor);
-      if (aiMove.move) {
+      const aiMove = await client.search({
+        gameState,
+        aiColor,
+        difficulty,
+        timeLimitMs: getSearchTimeBudget(difficulty, clockRemaining, (timeControl?.increment ?? 0) * 1000),
+        onProgress: setAiProgress
+      });
+      // The worker returns copies, so play the piece that is actually on the board
+      const piece = aiMove.move && gameState.board[aiMove.move.from.row][aiMove.move.from.col];
+
+      // A move found after the flag fell is void; the flag-fall effect ends the game
+      if (piece && !isFlagged(gameState)) {
         const newEngine = new ChessEngine(gameState);
-        const move = newEngine.makeMove(aiMove.move.piece, aiMove.move.to);
-        setGameState(newEngine.getGameState());
+        const move = newEngine.makeMove(piece, aiMove.move.to, aiMove.move.promotionPiece);
+        setGameState(recordMoveOnClock(newEngine.getGameState(), move));
+        setRedoStack([]);
 
         if (soundEnabled) {
           // Play move sound
@@ -99,15 +364,62 @@ export default function GamePage() {
           audio.play().catch(() => {}); // Ignore errors
         }
       }
+      setIsThinking(false);
     } catch (error) {
+      // Whoever cancelled the search has already reset the thinking state
+      if (error instanceof AISearchCancelledError) return;
+
       console.error('AI move error:', error);
-    } finally {
       setIsThinking(false);
     }
-  }, [gameState, ai, isThinking, soundEnabled]);
+  }, [gameState, isThinking, soundEnabled]);
+
+  // Searches for the side to move and counts the hint against the game once it arrives
+  const handleHint = useCallback(async () => {
+    if (!canHint) return;
+
+    const client = hintClientRef.current ?? (hintClientRef.current = new ChessAIClient());
+    setIsHinting(true);
+    try {
+      const result = await client.search({
+        gameState,
+        aiColor: gameState.currentPlayer,
+        difficulty: HINT_DIFFICULTY,
+        timeLimitMs: HINT_TIME_LIMIT_MS
+      });
+      setHint(result);
+      setGameState(prev => ({ ...prev, hintsUsed: (prev.hintsUsed ?? 0) + 1 }));
+      setIsHinting(false);
+    } catch (error) {
+      // Moving on cancels the hint and has already reset the hinting state
+      if (error instanceof AISearchCancelledError) return;
+
+      console.error('Hint error:', error);
+      setIsHinting(false);
+    }
+  }, [gameState, canHint]);
+
+  const commitPlayerMove = useCallback((piece: Piece, to: Position, promotionPiece?: PieceType) => {
+    if (isFlagged(gameState)) {
+      setGameState(applyFlagFall(gameState));
+      return;
+    }
+
+    const move = engine.makeMove(piece, to, promotionPiece);
+    setGameState(recordMoveOnClock(engine.getGameState(), move));
+    setSelectedPiece(null);
+    setValidMoves([]);
+    setRedoStack([]);
+
+    if (soundEnabled) {
+      const audio = new Audio(move.capturedPiece ? '/sounds/capture.mp3' : '/sounds/move.mp3');
+      audio.volume = 0.5;
+      audio.play().catch(() => {});
+    }
+  }, [gameState, engine, soundEnabled]);
 
   const handleSquareClick = useCallback((position: Position) => {
-    if (!isPlayerTurn || !isGameActive) return;
+    if (!isPlayerTurn || !isGameActive || isViewingPast) return;
 
     const piece = gameState.board[position.row][position.col];
 
@@ -121,22 +433,15 @@ export default function GamePage() {
       }
 
       // Check if this is a valid move
-      const isValidMove = validMoves.some(
+      const validMove = validMoves.find(
         move => move.to.row === position.row && move.to.col === position.col
       );
 
-      if (isValidMove) {
-        const move = engine.makeMove(selectedPiece, position);
-        setGameState(engine.getGameState());
-        setSelectedPiece(null);
-        setValidMoves([]);
-
-        if (soundEnabled) {
-          const audio = new Audio(move.capturedPiece ? '/sounds/capture.mp3' : '/sounds/move.mp3');
-          audio.volume = 0.5;
-          audio.play().catch(() => {});
-        }
-      } else if (piece && piece.color === gameState.gameSettings.playerColor) {
+      if (validMove?.promotionOptions) {
+        setPendingPromotion({ piece: selectedPiece, to: position });
+      } else if (validMove) {
+        commitPlayerMove(selectedPiece, position);
+      } else if (piece && piece.color === activeColor) {
         // Select a different piece
         setSelectedPiece(piece);
         setValidMoves(engine.getValidMoves(piece));
@@ -145,33 +450,33 @@ export default function GamePage() {
         setSelectedPiece(null);
         setValidMoves([]);
       }
-    } else if (piece && piece.color === gameState.gameSettings.playerColor) {
+    } else if (piece && piece.color === activeColor) {
       // Select a piece
       setSelectedPiece(piece);
       setValidMoves(engine.getValidMoves(piece));
     }
-  }, [gameState, selectedPiece, validMoves, engine, isPlayerTurn, isGameActive, soundEnabled]);
+  }, [gameState, selectedPiece, validMoves, engine, activeColor, isPlayerTurn, isGameActive, isViewingPast, commitPlayerMove]);
 
   const handlePieceMove = useCallback((piece: Piece, to: Position) => {
-    if (!isPlayerTurn || !isGameActive) return;
+    if (!isPlayerTurn || !isGameActive || isViewingPast || piece.color !== activeColor) return;
 
     const validation = engine.validateMove(piece, to);
-    if (validation.isValid) {
-      const move = engine.makeMove(piece, to);
-      setGameState(engine.getGameState());
-      setSelectedPiece(null);
-      setValidMoves([]);
-
-      if (soundEnabled) {
-        const audio = new Audio(move.capturedPiece ? '/sounds/capture.mp3' : '/sounds/move.mp3');
-        audio.volume = 0.5;
-        audio.play().catch(() => {});
-      }
+    if (validation.specialMove === 'promotion') {
+      setPendingPromotion({ piece, to });
+    } else if (validation.isValid) {
+      commitPlayerMove(piece, to);
     }
-  }, [engine, isPlayerTurn, isGameActive, soundEnabled]);
+  }, [engine, activeColor, isPlayerTurn, isGameActive, isViewingPast, commitPlayerMove]);
+
+  const handlePromotionSelect = useCallback((pieceType: PieceType) => {
+    if (!pendingPromotion) return;
+
+    commitPlayerMove(pendingPromotion.piece, pendingPromotion.to, pieceType);
+    setPendingPromotion(null);
+  }, [pendingPromotion, commitPlayerMove]);
 
   const handlePieceSelect = useCallback((piece: Piece | null) => {
-    if (!isPlayerTurn || !isGameActive) return;
+    if (!isPlayerTurn || !isGameActive || isViewingPast) return;
 
     setSelectedPiece(piece);
     if (piece) {
@@ -179,54 +484,182 @@ export default function GamePage() {
     } else {
       setValidMoves([]);
     }
-  }, [engine, isPlayerTurn, isGameActive]);
+  }, [engine, isPlayerTurn, isGameActive, isViewingPast]);
+
+  // Looks back at the position after the given number of moves; the current ply returns to the live game
+  const handleViewPly = useCallback((ply: number) => {
+    setViewedPly(ply >= gameState.moves.length ? null : Math.max(0, ply));
+    setSelectedPiece(null);
+    setValidMoves([]);
+  }, [gameState.moves.length]);
+
+  // In AI games a takeback rewinds to the player's previous turn, covering the AI's reply too
+  const handleUndo = useCallback(() => {
+    if (!canUndo) return;
+
+    cancelAISearch();
+    settleClockForTakeback(gameState);
+    const undoEngine = new ChessEngine(gameState);
+    const undone: Move[] = [];
+
+    do {
+      const move = undoEngine.unmakeMove();
+      if (!move) break;
+      undone.push(move);
+    } while (
+      gameState.isAIGame &&
+      gameState.currentPlayer !== gameState.gameSettings.playerColor &&
+      gameState.moves.length > 0
+    );
+
+    setGameState({ ...undoEngine.getGameState() });
+    setRedoStack(prev => [...prev, ...undone]);
+    setSelectedPiece(null);
+    setValidMoves([]);
+  }, [gameState, canUndo, cancelAISearch]);
+
+  const handleRedo = useCallback(() => {
+    if (!canRedo) return;
+
+    settleClockForTakeback(gameState);
+    const redoEngine = new ChessEngine(gameState);
+    const remaining = [...redoStack];
+
+    do {
+      const move = remaining.pop();
+      if (!move) break;
+
+      const piece = gameState.board[move.from.row][move.from.col];
+      if (!piece) {
+        remaining.length = 0;
+        break;
+      }
+      const redone = redoEngine.makeMove(piece, move.to, move.promotionPiece);
+      gameState.clock = recordMoveOnClock(gameState, redone).clock;
+    } while (
+      gameState.isAIGame &&
+      gameState.currentPlayer !== gameState.gameSettings.playerColor &&
+      remaining.length > 0
+    );
+
+    setGameState({ ...redoEngine.getGameState() });
+    setRedoStack(remaining);
+    setSelectedPiece(null);
+    setValidMoves([]);
+  }, [gameState, redoStack, canRedo]);
 
   const handleNewGame = useCallback(() => {
-    const newGameState: GameState = {
-      id: 'game-' + Date.now(),
-      board: INITIAL_BOARD_STATE(),
-      currentPlayer: 'white',
-      status: 'active',
-      moves: [],
-      capturedPieces: { white: [], black: [] },
-      gameSettings: gameState.gameSettings,
-      isAIGame: true,
-      startTime: new Date()
-    };
+    // Restart from the same custom position the current game began with
+    const newGameState: GameState = gameState.initialFen
+      ? createGameStateFromFen(gameState.initialFen, gameState.gameSettings, gameState.isAIGame)
+      : {
+          id: 'game-' + Date.now(),
+          board: INITIAL_BOARD_STATE(),
+          currentPlayer: 'white',
+          status: 'active',
+          moves: [],
+          capturedPieces: { white: [], black: [] },
+          gameSettings: gameState.gameSettings,
+          isAIGame: gameState.isAIGame,
+          startTime: new Date()
+        };
 
-    setGameState(newGameState);
+    cancelAISearch();
+    clearSavedGame();
+    setGameState(withFreshClock(newGameState));
     setSelectedPiece(null);
     setValidMoves([]);
     setGameTime(0);
-    setIsThinking(false);
-  }, [gameState.gameSettings]);
+    setReviewInfo(null);
+    setRedoStack([]);
+    setPendingPromotion(null);
+  }, [gameState.gameSettings, gameState.initialFen, gameState.isAIGame, cancelAISearch]);
+
+  // The saved clock was stopped, so it restarts for the side to move from now
+  const handleResumeGame = useCallback(() => {
+    if (!savedGame) return;
+
+    const { gameState: saved, elapsedSeconds } = savedGame;
+    cancelAISearch();
+    setGameState({ ...saved, clock: saved.clock && resumeClock(saved.clock) });
+    setGameTime(elapsedSeconds);
+    setSelectedPiece(null);
+    setValidMoves([]);
+    setReviewInfo(null);
+    setRedoStack([]);
+    setPendingPromotion(null);
+    setSavedGame(null);
+  }, [savedGame, cancelAISearch]);
+
+  // The held game's clock was started on load, so it starts again from now
+  const handleStartHeldGame = useCallback(() => {
+    setSavedGame(null);
+    setGameState(prev => (prev.moves.length === 0 ? withFreshClock(prev) : prev));
+  }, []);
+
+  const handleDiscardSavedGame = useCallback(() => {
+    clearSavedGame();
+    handleStartHeldGame();
+  }, [handleStartHeldGame]);
+
+  const handleImportPGN = useCallback((imported: ImportedPgn) => {
+    cancelAISearch();
+    setGameState(imported.gameState);
+    setReviewInfo(imported);
+    setRedoStack([]);
+    setSelectedPiece(null);
+    setValidMoves([]);
+    setGameTime(0);
+  }, [cancelAISearch]);
 
+  const handleContinueFromReview = useCallback(() => {
+    // Hand the reviewed position over to normal play with the configured sides and a fresh clock;
+    // the game goes on, so the result the PGN recorded no longer stands
+    setGameState(prev => withFreshClock({ ...prev, recordedResult: undefined }));
+    setReviewInfo(null);
+    setGameTime(0);
+  }, []);
+
+  // The human side resigns, even if it is the AI's move
   const handleResign = useCallback(() => {
+    cancelAISearch();
     setGameState(prev => ({
       ...prev,
       status: 'checkmate',
+      resignedBy: prev.isAIGame ? prev.gameSettings.playerColor : prev.currentPlayer,
+      clock: prev.clock && stopClock(prev.clock, prev.currentPlayer, prev.gameSettings.timeControl),
       endTime: new Date()
     }));
-  }, []);
+  }, [cancelAISearch]);
 
   const handleOfferDraw = useCallback(() => {
     // In a real game, this would send a draw offer
     // For now, just accept the draw
+    cancelAISearch();
     setGameState(prev => ({
       ...prev,
       status: 'draw',
+      drawReason: 'agreement',
+      clock: prev.clock && stopClock(prev.clock, prev.currentPlayer, prev.gameSettings.timeControl),
       endTime: new Date()
     }));
-  }, []);
+  }, [cancelAISearch]);
 
-  const getWinner = (): PieceColor | undefined => {
-    if (gameState.status === 'checkmate') {
-      return gameState.currentPlayer === 'white' ? 'black' : 'white';
-    }
-    return undefined;
+  const getWinner = (): PieceColor | undefined => getGameWinner(gameState);
+
+  const clocks = gameState.clock && {
+    white: getRemainingTime(gameState.clock, 'white', gameState.currentPlayer, gameState.gameSettings.timeControl, clockNow),
+    black: getRemainingTime(gameState.clock, 'black', gameState.currentPlayer, gameState.gameSettings.timeControl, clockNow)
   };
 
-  const lastMove = gameState.moves.length > 0 ? gameState.moves[gameState.moves.length - 1] : undefined;
+  const shownState = viewedState ?? gameState;
+  const lastMove = shownState.moves.length > 0 ? shownState.moves[shownState.moves.length - 1] : undefined;
+  // Read from the position's own counter, which black's move has already advanced, so games
+  // set up from a FEN keep their numbering
+  const lastMoveNumber = lastMove
+    ? (shownState.fullmoveNumber ?? Math.floor(shownState.moves.length / 2) + 1) - (lastMove.piece.color === 'black' ? 1 : 0)
+    : 0;
+  const fenStart = getFenStart(gameState.initialFen);
 
   return (
     <div className="min-h-screen bg-chess-background">
@@ -249,6 +682,66 @@ export default function GamePage() {
           </div>
 
           <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setImportOpen(true)}
+              className="text-chess-text-muted hover:text-chess-text-light"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Import
+            </Button>
+
+            {gameState.gameSettings.allowUndo && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleUndo}
+                  disabled={!canUndo}
+                  className="text-chess-text-muted hover:text-chess-text-light"
+                >
+                  <Undo2 className="w-4 h-4" />
+                </Button>
+
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleRedo}
+                  disabled={!canRedo}
+                  className="text-chess-text-muted hover:text-chess-text-light"
+                >
+                  <Redo2 className="w-4 h-4" />
+                </Button>
+              </>
+            )}
+
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleHint}
+              disabled={!canHint}
+              className={cn(
+                'text-chess-text-muted hover:text-chess-text-light',
+                isHinting && 'text-chess-highlight animate-pulse'
+              )}
+            >
+              <Lightbulb className="w-4 h-4 mr-2" />
+              Hint
+            </Button>
+
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowThreats(!showThreats)}
+              className={cn(
+                'text-chess-text-muted hover:text-chess-text-light',
+                showThreats && 'text-chess-danger'
+              )}
+            >
+              <ShieldAlert className="w-4 h-4" />
+            </Button>
+
             <Button
               variant="ghost"
               size="sm"
@@ -258,7 +751,7 @@ export default function GamePage() {
                 showHints && 'text-chess-highlight'
               )}
             >
-              <Lightbulb className="w-4 h-4" />
+              <CircleDot className="w-4 h-4" />
             </Button>
 
             <Button
@@ -292,15 +785,49 @@ export default function GamePage() {
               status={gameState.status}
               currentPlayer={gameState.currentPlayer}
               winner={getWinner()}
+              resignedBy={gameState.resignedBy}
+              drawReason={gameState.drawReason}
               playerColor={gameState.gameSettings.playerColor}
+              playerNames={gameState.isAIGame ? undefined : playerNames}
               isPlayerTurn={isPlayerTurn && !isThinking}
               moveCount={gameState.moves.length}
               timeElapsed={gameTime}
+              clocks={clocks}
               onNewGame={handleNewGame}
               onResign={handleResign}
               onOfferDraw={handleOfferDraw}
+              onAnalyze={!isReviewing && gameState.moves.length > 0
+                ? () => router.push(`/history/${encodeURIComponent(gameState.id)}?analyze=1`)
+                : undefined}
             />
 
+            {/* Imported Game Review */}
+            {reviewInfo && (
+              <Card className="bg-chess-surface border-chess-border">
+                <CardContent className="pt-6 space-y-3">
+                  <div className="flex items-center gap-3">
+                    <BookOpen className="w-5 h-5 text-chess-highlight" />
+                    <div>
+                      <div className="text-chess-text-light font-medium">
+                        {reviewInfo.headers.White ?? '?'} vs {reviewInfo.headers.Black ?? '?'}
+                      </div>
+                      <div className="text-sm text-chess-text-muted">
+                        {[reviewInfo.headers.Event, reviewInfo.result].filter(Boolean).join(' • ')}
+                      </div>
+                    </div>
+                  </div>
+                  <Button
+                    onClick={handleContinueFromReview}
+                    variant="outline"
+                    size="sm"
+                    className="w-full border-chess-border text-chess-text-muted hover:text-chess-text-light"
+                  >
+                    Play from this position
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+
             {/* AI Status */}
             {isThinking && (
               <Card className="bg-chess-surface border-chess-border">
@@ -310,7 +837,73 @@ export default function GamePage() {
                     <div>
                       <div className="text-chess-text-light font-medium">AI Thinking...</div>
                       <div className="text-sm text-chess-text-muted">
-                        Analyzing position ({gameState.gameSettings.difficulty})
+                        {aiProgress
+                          ? `Depth ${aiProgress.depth} · ${formatEvaluation(aiProgress.evaluation)}`
+                          : `Analyzing position (${STRENGTH_PROFILES[gameState.gameSettings.difficulty].label})`}
+                      </div>
+                    </div>
+                  </div>
+                  {aiProgress && aiProgress.principalVariation.length > 0 && (
+                    <div className="mt-3 text-xs font-mono text-chess-text-muted truncate">
+                      {aiProgress.principalVariation.join(' ')}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Hint and threats */}
+            {(hint || threats.length > 0) && (
+              <Card className="bg-chess-surface border-chess-border">
+                <CardContent className="pt-6 space-y-3">
+                  {hint && (
+                    <div className="flex items-center gap-3">
+                      <Lightbulb className="w-5 h-5 text-chess-highlight" />
+                      <div>
+                        <div className="text-chess-text-light font-medium">
+                          Try {hint.move.notation}
+                        </div>
+                        <div className="text-sm text-chess-text-muted">
+                          {gameState.hintsUsed ?? 0} {gameState.hintsUsed === 1 ? 'hint' : 'hints'} used this game
+                        </div>
+                      </div>
+                    </div>
+                  )}
+                  {threats.length > 0 && (
+                    <div className="flex items-center gap-3">
+                      <ShieldAlert className="w-5 h-5 text-chess-danger" />
+                      <div>
+                        <div className="text-chess-text-light font-medium">Opponent threatens</div>
+                        <div className="text-sm text-chess-text-muted font-mono">
+                          {threats.map(threat => threat.san).join(', ')}
+                        </div>
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Endgame Tablebase */}
+            {endgameProbe && (
+              <Card className="bg-chess-surface border-chess-border">
+                <CardContent className="pt-6">
+                  <div className="flex items-center gap-3">
+                    <Crown className="w-5 h-5 text-chess-highlight" />
+                    <div>
+                      <div className="text-chess-text-light font-medium">
+                        {endgameProbe.outcome === 'draw'
+                          ? 'Draw with best play'
+                          : `Mate in ${Math.ceil((endgameProbe.distanceToMate ?? 0) / 2)}`}
+                      </div>
+                      <div className="text-sm text-chess-text-muted">
+                        {endgameProbe.outcome === 'draw'
+                          ? 'Endgame tablebase'
+                          : `Forced win for ${playerNames[
+                              endgameProbe.outcome === 'win'
+                                ? gameState.currentPlayer
+                                : gameState.currentPlayer === 'white' ? 'black' : 'white'
+                            ]}`}
                       </div>
                     </div>
                   </div>
@@ -325,7 +918,7 @@ export default function GamePage() {
                   <div>
                     <div className="text-sm text-chess-text-muted mb-2 flex items-center gap-2">
                       <PieceIcon type="king" color="white" className="w-4 h-4" />
-                      White Captured
+                      {gameState.isAIGame ? 'White Captured' : `Taken from ${playerNames.white}`}
                     </div>
                     <div className="flex flex-wrap gap-1">
                       {gameState.capturedPieces.white.map((piece, index) => (
@@ -342,7 +935,7 @@ export default function GamePage() {
                   <div>
                     <div className="text-sm text-chess-text-muted mb-2 flex items-center gap-2">
                       <PieceIcon type="king" color="black" className="w-4 h-4" />
-                      Black Captured
+                      {gameState.isAIGame ? 'Black Captured' : `Taken from ${playerNames.black}`}
                     </div>
                     <div className="flex flex-wrap gap-1">
                       {gameState.capturedPieces.black.map((piece, index) => (
@@ -361,37 +954,81 @@ export default function GamePage() {
           </div>
 
           {/* Center - Chess Board */}
-          <div className="lg:col-span-6 order-1 lg:order-2">
+          <div className="lg:col-span-6 order-1 lg:order-2 space-y-4">
+            {isViewingPast && (
+              <div className="flex items-center justify-between gap-3 rounded-lg border border-chess-highlight/40 bg-chess-highlight/10 px-4 py-2">
+                <div className="flex items-center gap-2 text-sm text-chess-text-light">
+                  <Eye className="w-4 h-4 text-chess-highlight" />
+                  {lastMove
+                    ? `Viewing move ${lastMoveNumber}${lastMove.piece.color === 'white' ? '.' : '...'} ${lastMove.notation}`
+                    : 'Viewing the starting position'}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setViewedPly(null)}
+                  className="text-chess-highlight hover:text-chess-text-light"
+                >
+                  Return to live
+                </Button>
+              </div>
+            )}
             <ChessBoard
-              board={gameState.board}
-              validMoves={showHints ? validMoves : []}
-              selectedPiece={selectedPiece}
-              currentPlayer={gameState.currentPlayer}
+              board={shownState.board}
+              validMoves={showHints && !isViewingPast ? validMoves : []}
+              selectedPiece={isViewingPast ? null : selectedPiece}
+              currentPlayer={shownState.currentPlayer}
               onSquareClick={handleSquareClick}
               onPieceMove={handlePieceMove}
               onPieceSelect={handlePieceSelect}
-              isFlipped={gameState.gameSettings.playerColor === 'black'}
+              isFlipped={isFlipped}
+              arrows={isViewingPast ? [] : boardArrows}
+              threatenedSquares={isViewingPast ? [] : threats.filter(threat => threat.kind === 'material').map(threat => threat.to)}
               lastMove={lastMove ? { from: lastMove.from, to: lastMove.to } : undefined}
-              isPlayerTurn={isPlayerTurn && !isThinking}
+              isPlayerTurn={isPlayerTurn && !isThinking && !isViewingPast}
+              promotion={pendingPromotion ? { to: pendingPromotion.to, color: pendingPromotion.piece.color } : undefined}
+              onPromotionSelect={handlePromotionSelect}
+              onPromotionCancel={() => setPendingPromotion(null)}
             />
+            {gameState.moves.length > 0 && (
+              <ReplayControls
+                frameIndex={isViewingPast ? viewedPly : gameState.moves.length}
+                frameCount={gameState.moves.length + 1}
+                onFrameSelect={handleViewPly}
+              />
+            )}
           </div>
 
           {/* Right Sidebar - Move History */}
           <div className="lg:col-span-3 order-3">
             <MoveHistory
               moves={gameState.moves}
+              currentMoveIndex={(isViewingPast ? viewedPly : gameState.moves.length) - 1}
+              onMoveSelect={moveIndex => handleViewPly(moveIndex + 1)}
               gameResult={
-                gameState.status === 'checkmate'
+                getWinner()
                   ? getWinner() === 'white' ? 'white-wins' : 'black-wins'
                   : gameState.status === 'draw' || gameState.status === 'stalemate'
                   ? 'draw'
                   : 'ongoing'
               }
+              playerNames={gameState.isAIGame ? undefined : playerNames}
+              opening={opening}
+              startingColor={fenStart.color}
+              startingMoveNumber={fenStart.moveNumber}
               onExportPGN={() => {
-                // Export to PGN format
-                const pgn = gameState.moves.map(move => move.notation).join(' ');
-                navigator.clipboard?.writeText(pgn);
+                if (!gameState.isAIGame) {
+                  return exportPgn(gameState, { event: 'Local Game', ...playerNames });
+                }
+
+                const { playerColor, difficulty } = gameState.gameSettings;
+                const aiName = `Chess Prime AI (${STRENGTH_PROFILES[difficulty].label})`;
+                return exportPgn(gameState, {
+                  white: playerColor === 'white' ? 'Player' : aiName,
+                  black: playerColor === 'black' ? 'Player' : aiName
+                });
               }}
+              pgnFileName={`chess-prime-${formatPgnDate(gameState.startTime).replace(/\./g, '-')}.pgn`}
               onCopyMoves={() => {
                 const moves = gameState.moves.map(move => move.notation).join(' ');
                 navigator.clipboard?.writeText(moves);
@@ -400,6 +1037,20 @@ export default function GamePage() {
           </div>
         </div>
       </main>
+
+      <PgnImportDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        gameSettings={gameState.gameSettings}
+        onImport={handleImportPGN}
+      />
+
+      <ResumeGameDialog
+        savedGame={savedGame}
+        onResume={handleResumeGame}
+        onStartNew={handleDiscardSavedGame}
+        onDismiss={handleStartHeldGame}
+      />
     </div>
   );
 }
\ No newline at end of file
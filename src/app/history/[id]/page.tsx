@@ -0,0 +1,395 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ChessBoard } from '@/components/chess/ChessBoard';
+import { MoveHistory } from '@/components/chess/MoveHistory';
+import { PieceIcon } from '@/components/chess/ChessPiece';
+import { REPLAY_SPEEDS, ReplayControls } from '@/components/chess/ReplayControls';
+import { GameHistory, MoveClassification, PieceColor } from '@/types/chess';
+import { gameHistoryRepository } from '@/lib/game-history';
+import { ReplayFrame, buildReplayFrames } from '@/lib/chess-replay';
+import { getFenStart } from '@/lib/chess-fen';
+import { AISearchCancelledError, ChessAIClient } from '@/lib/chess-ai-client';
+import {
+  ANALYSIS_DIFFICULTY,
+  ANALYSIS_TIME_LIMIT_MS,
+  CLASSIFICATION_LABELS,
+  CLASSIFICATION_SYMBOLS,
+  analyzeGame,
+  formatAnalysisEvaluation
+} from '@/lib/chess-analysis';
+import { toast } from '@/hooks/use-toast';
+import { Activity, ArrowLeft, BarChart3, Crown, FlipVertical } from 'lucide-react';
+
+const DEFAULT_INTERVAL_MS = REPLAY_SPEEDS[1].intervalMs;
+
+const noop = () => {};
+
+// Counted per side in the analysis summary
+const SUMMARY_CLASSIFICATIONS: MoveClassification[] = ['inaccuracy', 'mistake', 'blunder', 'missed-mate'];
+
+export default function GameReplayPage() {
+  const router = useRouter();
+  const { id } = useParams<{ id: string }>();
+  const [record, setRecord] = useState<GameHistory | null>(null);
+  const [frames, setFrames] = useState<ReplayFrame[]>([]);
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [intervalMs, setIntervalMs] = useState(DEFAULT_INTERVAL_MS);
+  const [isFlipped, setIsFlipped] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  // Percent of positions searched while an analysis runs, null otherwise
+  const [analysisProgress, setAnalysisProgress] = useState<number | null>(null);
+  // Set by the game page's analyze button, which opens the replay with ?analyze=1
+  const [analyzeOnLoad, setAnalyzeOnLoad] = useState(false);
+  const analysisClientRef = useRef<ChessAIClient | null>(null);
+
+  const lastFrame = frames.length - 1;
+  const frame = frames[frameIndex];
+
+  useEffect(() => {
+    let current = true;
+
+    gameHistoryRepository.get(id).then(stored => {
+      if (!current) return;
+      if (!stored) {
+        setLoadError('This game is no longer in your history');
+        return;
+      }
+
+      const replay = buildReplayFrames(stored.moves, stored.settings, stored.initialFen);
+      setRecord(stored);
+      setFrames(replay);
+      setIsFlipped(stored.playerColor === 'black');
+      const params = new URLSearchParams(window.location.search);
+      // The history list's play button opens the replay already running
+      setIsPlaying(params.get('autoplay') === '1' && replay.length > 1);
+      setAnalyzeOnLoad(params.get('analyze') === '1');
+    }).catch(error => {
+      if (current) setLoadError(error instanceof Error ? error.message : String(error));
+    });
+
+    return () => {
+      current = false;
+    };
+  }, [id]);
+
+  useEffect(() => () => analysisClientRef.current?.dispose(), []);
+
+  // Searches every position on its own worker, then stores the result with the game
+  const startAnalysis = useCallback(async (target: GameHistory) => {
+    const client = analysisClientRef.current ?? (analysisClientRef.current = new ChessAIClient());
+    setAnalysisProgress(0);
+
+    try {
+      const analysis = await analyzeGame(
+        target.moves,
+        target.settings,
+        target.initialFen,
+        gameState => client.search({
+          gameState,
+          aiColor: gameState.currentPlayer,
+          difficulty: ANALYSIS_DIFFICULTY,
+          timeLimitMs: ANALYSIS_TIME_LIMIT_MS,
+          useBook: false
+        }),
+        (analyzed, total) => setAnalysisProgress(Math.round((analyzed / total) * 100))
+      );
+
+      const analyzedRecord = { ...target, analysis };
+      setRecord(analyzedRecord);
+      gameHistoryRepository.save(analyzedRecord).catch(error => {
+        toast({
+          title: 'Could not save analysis',
+          description: error instanceof Error ? error.message : String(error),
+          variant: 'destructive'
+        });
+      });
+    } catch (error) {
+      if (error instanceof AISearchCancelledError) return;
+      toast({
+        title: 'Analysis failed',
+        description: error instanceof Error ? error.message : String(error),
+        variant: 'destructive'
+      });
+    } finally {
+      setAnalysisProgress(null);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!analyzeOnLoad || !record) return;
+
+    setAnalyzeOnLoad(false);
+    if (!record.analysis) startAnalysis(record);
+  }, [analyzeOnLoad, record, startAnalysis]);
+
+  const goToFrame = useCallback((index: number) => {
+    setIsPlaying(false);
+    setFrameIndex(Math.max(0, Math.min(lastFrame, index)));
+  }, [lastFrame]);
+
+  // Playing from the final position starts over
+  const handleTogglePlay = useCallback(() => {
+    if (!isPlaying && frameIndex >= lastFrame) setFrameIndex(0);
+    setIsPlaying(!isPlaying);
+  }, [isPlaying, frameIndex, lastFrame]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (frameIndex >= lastFrame) {
+      setIsPlaying(false);
+      return;
+    }
+
+    const timer = setTimeout(() => setFrameIndex(frameIndex + 1), intervalMs);
+    return () => clearTimeout(timer);
+  }, [isPlaying, frameIndex, lastFrame, intervalMs]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+
+      switch (event.key) {
+        case 'ArrowLeft': goToFrame(frameIndex - 1); break;
+        case 'ArrowRight': goToFrame(frameIndex + 1); break;
+        case 'Home': goToFrame(0); break;
+        case 'End': goToFrame(lastFrame); break;
+        default: return;
+      }
+      event.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [goToFrame, frameIndex, lastFrame]);
+
+  const getGameResult = (): 'white-wins' | 'black-wins' | 'draw' => {
+    if (!record || record.result === 'draw') return 'draw';
+
+    const winner: PieceColor = record.result === 'win'
+      ? record.playerColor
+      : record.playerColor === 'white' ? 'black' : 'white';
+    return winner === 'white' ? 'white-wins' : 'black-wins';
+  };
+
+  const analysis = record?.analysis;
+  const currentMove = frameIndex > 0 ? record?.moves[frameIndex - 1] : undefined;
+  const currentVerdict = analysis?.moves[frameIndex - 1];
+  // As in the live view, the frame's counter has already been advanced by a black move
+  const currentMoveNumber = currentMove && frame
+    ? frame.fullmoveNumber - (currentMove.piece.color === 'black' ? 1 : 0)
+    : 0;
+  const fenStart = getFenStart(record?.initialFen);
+
+  const playerNames: Record<PieceColor, string> | undefined = record
+    ? record.playerColor === 'white'
+      ? { white: record.playerName, black: record.opponent }
+      : { white: record.opponent, black: record.playerName }
+    : undefined;
+
+  return (
+    <div className="min-h-screen bg-chess-background">
+      {/* Header */}
+      <header className="bg-chess-surface border-b border-chess-border px-4 py-3">
+        <div className="max-w-7xl mx-auto flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => router.push('/history')}
+              className="text-chess-text-muted hover:text-chess-text-light"
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              History
+            </Button>
+            <div className="text-chess-text-light font-semibold">
+              Game Replay
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsFlipped(!isFlipped)}
+              className="text-chess-text-muted hover:text-chess-text-light"
+            >
+              <FlipVertical className="w-4 h-4" />
+            </Button>
+            <Crown className="w-6 h-6 text-chess-highlight" />
+            <span className="text-chess-text-light font-semibold">Chess Prime</span>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-6">
+        {!record || !frame ? (
+          <div className="text-center py-12">
+            <BarChart3 className="w-12 h-12 mx-auto mb-4 text-chess-text-muted opacity-50" />
+            <div className="text-chess-text-muted">
+              {loadError ? `Could not load this game: ${loadError}` : 'Loading game...'}
+            </div>
+          </div>
+        ) : (
+          <div className="grid lg:grid-cols-12 gap-4 lg:gap-6">
+            {/* Left Sidebar - Game Details */}
+            <div className="lg:col-span-3 space-y-4 order-2 lg:order-1">
+              <Card className="bg-chess-surface border-chess-border">
+                <CardContent className="pt-6 space-y-3">
+                  <div className="flex items-center gap-3">
+                    <PieceIcon type="king" color={record.playerColor} className="w-6 h-6" />
+                    <div>
+                      <div className="text-chess-text-light font-medium">vs {record.opponent}</div>
+                      <div className="text-sm text-chess-text-muted">{record.date.toLocaleString()}</div>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 text-sm text-chess-text-muted">
+                    <Badge
+                      variant={record.result === 'win' ? 'default' : record.result === 'loss' ? 'destructive' : 'secondary'}
+                      className="capitalize"
+                    >
+                      {record.result}
+                    </Badge>
+                    <span className="capitalize">{record.termination.replace(/-/g, ' ')}</span>
+                  </div>
+                  <div className="text-sm text-chess-text-muted">
+                    {frame.currentPlayer === 'white' ? 'White' : 'Black'} to move
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Engine Analysis */}
+              <Card className="bg-chess-surface border-chess-border">
+                <CardContent className="pt-6 space-y-4">
+                  {analysis ? (
+                    <>
+                      <div className="grid grid-cols-2 gap-2">
+                        {(['white', 'black'] as const).map(color => (
+                          <div key={color} className="rounded-lg border border-chess-border px-3 py-2">
+                            <div className="flex items-center gap-2 text-sm text-chess-text-muted">
+                              <PieceIcon type="king" color={color} className="w-4 h-4" />
+                              Accuracy
+                            </div>
+                            <div className="text-lg font-semibold text-chess-text-light">
+                              {analysis.accuracy[color].toFixed(1)}%
+                            </div>
+                            {SUMMARY_CLASSIFICATIONS.map(classification => {
+                              const count = analysis.moves.filter((verdict, index) =>
+                                verdict.classification === classification && record.moves[index].piece.color === color
+                              ).length;
+                              return count > 0 && (
+                                <div key={classification} className="text-xs text-chess-text-muted">
+                                  {count} {CLASSIFICATION_LABELS[classification].toLowerCase()}
+                                  {count === 1 ? '' : 's'}
+                                </div>
+                              );
+                            })}
+                          </div>
+                        ))}
+                      </div>
+
+                      {currentMove && currentVerdict && (
+                        <div className="space-y-1 text-sm">
+                          <div className="text-chess-text-light font-medium">
+                            <span className="font-mono">
+                              {currentMoveNumber}{currentMove.piece.color === 'white' ? '.' : '...'} {currentMove.notation}
+                              {CLASSIFICATION_SYMBOLS[currentVerdict.classification]}
+                            </span>
+                            {' · '}
+                            {CLASSIFICATION_LABELS[currentVerdict.classification]}
+                          </div>
+                          {currentVerdict.classification !== 'best' && (
+                            <div className="text-chess-text-muted">
+                              Best was <span className="font-mono text-chess-text-light">{currentVerdict.bestMove}</span>
+                            </div>
+                          )}
+                          <div className="text-chess-text-muted font-mono">
+                            {formatAnalysisEvaluation(currentVerdict.evaluationBefore)}
+                            {' → '}
+                            {formatAnalysisEvaluation(currentVerdict.evaluationAfter)}
+                          </div>
+                        </div>
+                      )}
+                    </>
+                  ) : analysisProgress !== null ? (
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="text-chess-text-light font-medium">Analyzing game...</span>
+                        <span className="text-chess-text-muted">{analysisProgress}%</span>
+                      </div>
+                      <Progress value={analysisProgress} className="h-2" />
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => analysisClientRef.current?.cancel()}
+                        className="w-full border-chess-border text-chess-text-muted hover:text-chess-text-light"
+                      >
+                        Cancel
+                      </Button>
+                    </div>
+                  ) : (
+                    <Button
+                      onClick={() => startAnalysis(record)}
+                      disabled={record.moves.length === 0}
+                      className="w-full bg-chess-highlight hover:bg-chess-highlight/80 text-chess-background"
+                      size="sm"
+                    >
+                      <Activity className="w-4 h-4 mr-2" />
+                      Analyze Game
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Center - Chess Board */}
+            <div className="lg:col-span-6 order-1 lg:order-2 space-y-4">
+              <ChessBoard
+                board={frame.board}
+                validMoves={[]}
+                selectedPiece={null}
+                currentPlayer={frame.currentPlayer}
+                onSquareClick={noop}
+                onPieceMove={noop}
+                onPieceSelect={noop}
+                isFlipped={isFlipped}
+                lastMove={frame.lastMove}
+                isPlayerTurn={false}
+              />
+              <ReplayControls
+                frameIndex={frameIndex}
+                frameCount={frames.length}
+                onFrameSelect={goToFrame}
+                isPlaying={isPlaying}
+                onTogglePlay={handleTogglePlay}
+                intervalMs={intervalMs}
+                onIntervalChange={setIntervalMs}
+              />
+            </div>
+
+            {/* Right Sidebar - Move History */}
+            <div className="lg:col-span-3 order-3">
+              <MoveHistory
+                moves={record.moves}
+                currentMoveIndex={frameIndex - 1}
+                onMoveSelect={moveIndex => goToFrame(moveIndex + 1)}
+                gameResult={getGameResult()}
+                playerNames={playerNames}
+                opening={record.opening ? { eco: record.eco ?? '', name: record.opening } : null}
+                analysis={analysis?.moves}
+                startingColor={fenStart.color}
+                startingMoveNumber={fenStart.moveNumber}
+              />
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
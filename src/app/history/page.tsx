@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -10,7 +10,8 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Input } from '@/components/ui/input';
 import { GameStats } from '@/components/chess/GameStatus';
 import { PieceIcon } from '@/components/chess/ChessPiece';
-import { GameHistory, PlayerStats, Move } from '@/types/chess';
+import { GameHistory, Move } from '@/types/chess';
+import { computeOpeningStats, computePlayerStats, gameHistoryRepository } from '@/lib/game-history';
 import { cn } from '@/lib/utils';
 import {
   Crown,
@@ -24,96 +25,60 @@ import {
   Filter,
   Download,
   Eye,
-  Play
+  Play,
+  Lightbulb
 } from 'lucide-react';
 
-// Mock data for demonstration
-const MOCK_GAME_HISTORY: GameHistory[] = [
-  {
-    id: 'game-1',
-    playerName: 'You',
-    opponent: 'AI (Medium)',
-    result: 'win',
-    moves: [],
-    duration: 1245,
-    rating: 1250,
-    date: new Date(Date.now() - 86400000), // 1 day ago
-    opening: 'Italian Game'
-  },
-  {
-    id: 'game-2',
-    playerName: 'You',
-    opponent: 'AI (Hard)',
-    result: 'loss',
-    moves: [],
-    duration: 2156,
-    rating: 1235,
-    date: new Date(Date.now() - 172800000), // 2 days ago
-    opening: 'Sicilian Defense'
-  },
-  {
-    id: 'game-3',
-    playerName: 'You',
-    opponent: 'AI (Medium)',
-    result: 'draw',
-    moves: [],
-    duration: 1834,
-    rating: 1240,
-    date: new Date(Date.now() - 259200000), // 3 days ago
-    opening: 'Queen\'s Gambit'
-  },
-  {
-    id: 'game-4',
-    playerName: 'You',
-    opponent: 'AI (Easy)',
-    result: 'win',
-    moves: [],
-    duration: 892,
-    rating: 1245,
-    date: new Date(Date.now() - 345600000), // 4 days ago
-    opening: 'King\'s Pawn Game'
-  },
-  {
-    id: 'game-5',
-    playerName: 'You',
-    opponent: 'AI (Hard)',
-    result: 'loss',
-    moves: [],
-    duration: 2567,
-    rating: 1220,
-    date: new Date(Date.now() - 432000000), // 5 days ago
-    opening: 'French Defense'
-  }
-];
-
-const MOCK_PLAYER_STATS: PlayerStats = {
-  gamesPlayed: 47,
-  wins: 28,
-  losses: 15,
-  draws: 4,
-  winRate: 0.596,
-  averageGameLength: 1456,
-  favoriteOpening: 'Italian Game',
-  currentStreak: 2,
-  bestStreak: 7,
-  rating: 1250
-};
+const PAGE_SIZE = 10;
+
+const FILTER_RESULTS = { wins: 'win', losses: 'loss', draws: 'draw' } as const;
 
 export default function HistoryPage() {
   const router = useRouter();
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedFilter, setSelectedFilter] = useState<'all' | 'wins' | 'losses' | 'draws'>('all');
-  const [gameHistory] = useState<GameHistory[]>(MOCK_GAME_HISTORY);
-  const [playerStats] = useState<PlayerStats>(MOCK_PLAYER_STATS);
+  const [page, setPage] = useState(0);
+  const [gameHistory, setGameHistory] = useState<GameHistory[]>([]);
+  const [totalGames, setTotalGames] = useState(0);
+  // Every stored game, for the statistics tab
+  const [allGames, setAllGames] = useState<GameHistory[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const playerStats = useMemo(() => computePlayerStats(allGames), [allGames]);
+  const openingStats = useMemo(() => computeOpeningStats(allGames).slice(0, 5), [allGames]);
+  const pageCount = Math.max(1, Math.ceil(totalGames / PAGE_SIZE));
+
+  useEffect(() => {
+    gameHistoryRepository.getAll()
+      .then(setAllGames)
+      .catch(error => setLoadError(error instanceof Error ? error.message : String(error)));
+  }, []);
+
+  // A new search or filter starts again from the first page
+  useEffect(() => {
+    setPage(0);
+  }, [searchQuery, selectedFilter]);
 
-  const filteredHistory = gameHistory.filter(game => {
-    const matchesSearch = game.opponent.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         game.opening?.toLowerCase().includes(searchQuery.toLowerCase());
+  useEffect(() => {
+    let current = true;
 
-    const matchesFilter = selectedFilter === 'all' || game.result === selectedFilter;
+    gameHistoryRepository.query({
+      search: searchQuery,
+      result: selectedFilter === 'all' ? undefined : FILTER_RESULTS[selectedFilter],
+      offset: page * PAGE_SIZE,
+      limit: PAGE_SIZE
+    }).then(({ records, total }) => {
+      if (!current) return;
+      setGameHistory(records);
+      setTotalGames(total);
+    }).catch(error => {
+      if (current) setLoadError(error instanceof Error ? error.message : String(error));
+    });
 
-    return matchesSearch && matchesFilter;
-  });
+    return () => {
+      current = false;
+    };
+  }, [searchQuery, selectedFilter, page]);
 
   const formatDuration = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
@@ -231,7 +196,7 @@ export default function HistoryPage() {
               <CardHeader>
                 <div className="flex items-center justify-between">
                   <CardTitle className="text-chess-text-light">
-                    Recent Games ({filteredHistory.length})
+                    Recent Games ({totalGames})
                   </CardTitle>
                   <Button
                     variant="ghost"
@@ -246,7 +211,7 @@ export default function HistoryPage() {
               <CardContent>
                 <ScrollArea className="h-[500px]">
                   <div className="space-y-3">
-                    {filteredHistory.map((game) => (
+                    {gameHistory.map((game) => (
                       <div
                         key={game.id}
                         className="p-4 rounded-lg bg-chess-background/50 border border-chess-border hover:border-chess-highlight/50 transition-all"
@@ -277,8 +242,15 @@ export default function HistoryPage() {
                                   <Clock className="w-3 h-3" />
                                   {formatDuration(game.duration)}
                                 </span>
+                                <span className="capitalize">{game.termination.replace(/-/g, ' ')}</span>
                                 {game.opening && (
-                                  <span>{game.opening}</span>
+                                  <span>{game.eco ? `${game.eco} ${game.opening}` : game.opening}</span>
+                                )}
+                                {!!game.hintsUsed && (
+                                  <span className="flex items-center gap-1">
+                                    <Lightbulb className="w-3 h-3" />
+                                    {game.hintsUsed} {game.hintsUsed === 1 ? 'hint' : 'hints'}
+                                  </span>
                                 )}
                               </div>
                             </div>
@@ -297,6 +269,8 @@ export default function HistoryPage() {
                             <Button
                               variant="ghost"
                               size="sm"
+                              title="View game"
+                              onClick={() => router.push(`/history/${encodeURIComponent(game.id)}`)}
                               className="text-chess-text-muted hover:text-chess-text-light"
                             >
                               <Eye className="w-4 h-4" />
@@ -305,6 +279,8 @@ export default function HistoryPage() {
                             <Button
                               variant="ghost"
                               size="sm"
+                              title="Replay game"
+                              onClick={() => router.push(`/history/${encodeURIComponent(game.id)}?autoplay=1`)}
                               className="text-chess-text-muted hover:text-chess-text-light"
                             >
                               <Play className="w-4 h-4" />
@@ -314,16 +290,46 @@ export default function HistoryPage() {
                       </div>
                     ))}
 
-                    {filteredHistory.length === 0 && (
+                    {gameHistory.length === 0 && (
                       <div className="text-center py-12">
                         <BarChart3 className="w-12 h-12 mx-auto mb-4 text-chess-text-muted opacity-50" />
                         <div className="text-chess-text-muted">
-                          No games found matching your criteria
+                          {loadError
+                            ? `Could not load game history: ${loadError}`
+                            : allGames.length === 0
+                            ? 'Finished games will appear here'
+                            : 'No games found matching your criteria'}
                         </div>
                       </div>
                     )}
                   </div>
                 </ScrollArea>
+
+                {totalGames > PAGE_SIZE && (
+                  <div className="flex items-center justify-between pt-4">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPage(page - 1)}
+                      disabled={page === 0}
+                      className="border-chess-border text-chess-text-muted hover:text-chess-text-light"
+                    >
+                      Previous
+                    </Button>
+                    <span className="text-sm text-chess-text-muted">
+                      Page {page + 1} of {pageCount}
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPage(page + 1)}
+                      disabled={page + 1 >= pageCount}
+                      className="border-chess-border text-chess-text-muted hover:text-chess-text-light"
+                    >
+                      Next
+                    </Button>
+                  </div>
+                )}
               </CardContent>
             </Card>
           </TabsContent>
@@ -399,33 +405,29 @@ export default function HistoryPage() {
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
-                  {['Italian Game', 'Sicilian Defense', 'Queen\'s Gambit', 'French Defense'].map((opening, index) => {
-                    const stats = {
-                      'Italian Game': { played: 8, wins: 6, winRate: 0.75 },
-                      'Sicilian Defense': { played: 6, wins: 3, winRate: 0.5 },
-                      'Queen\'s Gambit': { played: 5, wins: 3, winRate: 0.6 },
-                      'French Defense': { played: 4, wins: 2, winRate: 0.5 }
-                    }[opening] || { played: 0, wins: 0, winRate: 0 };
-
-                    return (
-                      <div key={opening} className="flex items-center justify-between p-3 bg-chess-background/50 rounded-lg">
-                        <div>
-                          <div className="font-semibold text-chess-text-light">{opening}</div>
-                          <div className="text-sm text-chess-text-muted">
-                            {stats.played} games played
-                          </div>
+                  {openingStats.length === 0 && (
+                    <div className="text-sm text-chess-text-muted">
+                      No openings recorded yet
+                    </div>
+                  )}
+                  {openingStats.map(stats => (
+                    <div key={stats.opening} className="flex items-center justify-between p-3 bg-chess-background/50 rounded-lg">
+                      <div>
+                        <div className="font-semibold text-chess-text-light">{stats.opening}</div>
+                        <div className="text-sm text-chess-text-muted">
+                          {stats.played} games played
                         </div>
-                        <div className="text-right">
-                          <div className="text-chess-text-light font-semibold">
-                            {stats.wins}/{stats.played}
-                          </div>
-                          <div className="text-sm text-chess-text-muted">
-                            {(stats.winRate * 100).toFixed(0)}% win rate
-                          </div>
+                      </div>
+                      <div className="text-right">
+                        <div className="text-chess-text-light font-semibold">
+                          {stats.wins}/{stats.played}
+                        </div>
+                        <div className="text-sm text-chess-text-muted">
+                          {(stats.winRate * 100).toFixed(0)}% win rate
                         </div>
                       </div>
-                    );
-                  })}
+                    </div>
+                  ))}
                 </div>
               </CardContent>
             </Card>
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -8,8 +8,23 @@ import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
 import { PieceIcon } from '@/components/chess/ChessPiece';
-import { Difficulty, GameSettings } from '@/types/chess';
+import { ClockDelayMode, Difficulty, GameSettings } from '@/types/chess';
+import { validateFen } from '@/lib/chess-fen';
+import { STRENGTH_PROFILES } from '@/lib/chess-strength';
+import {
+  DEFAULT_LAUNCH_SETTINGS,
+  DEFAULT_PLAYER_NAMES,
+  GameLaunchSettings,
+  GameMode,
+  launchSettingsToSearchParams,
+  loadStoredLaunchSettings,
+  MAX_PLAYER_NAME_LENGTH,
+  sanitizeLaunchSettings,
+  storeLaunchSettings
+} from '@/lib/game-settings';
+import { toast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
 import {
   Crown,
@@ -25,81 +40,136 @@ import {
   Zap,
   Target,
   Trophy,
-  Cpu
+  Cpu,
+  LayoutGrid,
+  Link2,
+  Users,
+  FlipVertical
 } from 'lucide-react';
 
 const DIFFICULTY_OPTIONS: {
   value: Difficulty;
-  label: string;
   description: string;
   icon: React.ReactNode;
   color: string;
 }[] = [
   {
     value: 'easy',
-    label: 'Beginner',
     description: 'Perfect for learning the basics',
     icon: <Target className="w-5 h-5" />,
     color: 'text-green-500'
   },
   {
     value: 'medium',
-    label: 'Intermediate',
     description: 'Balanced challenge for casual play',
     icon: <Zap className="w-5 h-5" />,
     color: 'text-yellow-500'
   },
   {
     value: 'hard',
-    label: 'Advanced',
     description: 'Serious challenge for experienced players',
     icon: <Trophy className="w-5 h-5" />,
     color: 'text-orange-500'
   },
   {
     value: 'expert',
-    label: 'Master',
     description: 'Ultimate test of chess mastery',
     icon: <Cpu className="w-5 h-5" />,
     color: 'text-red-500'
   }
 ];
 
+const DELAY_OPTIONS: { value: ClockDelayMode | 'none'; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'simple', label: 'Simple' },
+  { value: 'bronstein', label: 'Bronstein' }
+];
+
 export default function SetupPage() {
   const router = useRouter();
 
   const [gameSettings, setGameSettings] = useState<GameSettings>({
-    difficulty: 'medium',
-    playerColor: 'white',
-    aiColor: 'black',
-    allowUndo: true,
-    showHints: false,
-    timeControl: undefined
+    difficulty: DEFAULT_LAUNCH_SETTINGS.difficulty,
+    playerColor: DEFAULT_LAUNCH_SETTINGS.playerColor,
+    aiColor: DEFAULT_LAUNCH_SETTINGS.aiColor,
+    allowUndo: DEFAULT_LAUNCH_SETTINGS.allowUndo,
+    showHints: DEFAULT_LAUNCH_SETTINGS.showHints,
+    timeControl: undefined,
+    playerNames: DEFAULT_LAUNCH_SETTINGS.playerNames,
+    autoFlipBoard: DEFAULT_LAUNCH_SETTINGS.autoFlipBoard
   });
 
-  const [gameMode, setGameMode] = useState<'ai' | 'local'>('ai');
-  const [soundEnabled, setSoundEnabled] = useState(true);
+  const [gameMode, setGameMode] = useState<GameMode>(DEFAULT_LAUNCH_SETTINGS.gameMode);
+  const [soundEnabled, setSoundEnabled] = useState(DEFAULT_LAUNCH_SETTINGS.soundEnabled);
   const [timeControlEnabled, setTimeControlEnabled] = useState(false);
   const [timeMinutes, setTimeMinutes] = useState(15);
   const [timeIncrement, setTimeIncrement] = useState(10);
+  const [timeDelayMode, setTimeDelayMode] = useState<ClockDelayMode | 'none'>('none');
+  const [timeDelay, setTimeDelay] = useState(2);
+  const [startFen, setStartFen] = useState('');
+
+  const fenValidation = startFen.trim() ? validateFen(startFen) : { isValid: true };
+
+  // Pre-fill with the last configuration used in this session
+  useEffect(() => {
+    const { gameMode: storedMode, soundEnabled: storedSound, timeControl, ...stored } = loadStoredLaunchSettings();
+
+    setGameSettings({ ...stored, timeControl: undefined });
+    setGameMode(storedMode);
+    setSoundEnabled(storedSound);
+    if (timeControl) {
+      setTimeControlEnabled(true);
+      setTimeMinutes(timeControl.minutes);
+      setTimeIncrement(timeControl.increment);
+      if (timeControl.delayMode && timeControl.delay) {
+        setTimeDelayMode(timeControl.delayMode);
+        setTimeDelay(timeControl.delay);
+      }
+    }
+  }, []);
+
+  // Sanitized so blank player names fall back to the defaults
+  const getLaunchSettings = (): GameLaunchSettings => sanitizeLaunchSettings({
+    ...gameSettings,
+    timeControl: timeControlEnabled ? {
+      minutes: timeMinutes,
+      increment: timeIncrement,
+      ...(timeDelayMode !== 'none' && { delay: timeDelay, delayMode: timeDelayMode })
+    } : undefined,
+    gameMode,
+    soundEnabled
+  });
+
+  const handlePlayerNameChange = (color: 'white' | 'black', name: string) => {
+    setGameSettings(prev => ({
+      ...prev,
+      playerNames: { ...DEFAULT_PLAYER_NAMES, ...prev.playerNames, [color]: name }
+    }));
+  };
+
+  const getGameUrl = (params: URLSearchParams = new URLSearchParams()) => {
+    if (startFen.trim()) {
+      params.set('fen', startFen.trim());
+    }
+    const query = params.toString();
+    return query ? `/game?${query}` : '/game';
+  };
 
   const handleStartGame = () => {
     // Store game settings in sessionStorage for the game page to use
-    const finalSettings = {
-      ...gameSettings,
-      timeControl: timeControlEnabled ? {
-        minutes: timeMinutes,
-        increment: timeIncrement
-      } : undefined
-    };
-
-    sessionStorage.setItem('chessGameSettings', JSON.stringify({
-      ...finalSettings,
-      gameMode,
-      soundEnabled
-    }));
+    storeLaunchSettings(getLaunchSettings());
+    router.push(getGameUrl());
+  };
 
-    router.push('/game');
+  const handleCopyLink = async () => {
+    const url = window.location.origin + getGameUrl(launchSettingsToSearchParams(getLaunchSettings()));
+
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: 'Game link copied', description: 'Anyone opening it starts with these settings.' });
+    } catch {
+      toast({ title: 'Could not copy link', description: url, variant: 'destructive' });
+    }
   };
 
   const handleColorSwap = () => {
@@ -226,7 +296,7 @@ export default function SetupPage() {
                           {option.icon}
                         </div>
                         <span className="font-semibold text-chess-text-light">
-                          {option.label}
+                          {STRENGTH_PROFILES[option.value].label}
                         </span>
                         {gameSettings.difficulty === option.value && (
                           <Badge className="bg-chess-highlight text-chess-background text-xs">
@@ -237,6 +307,9 @@ export default function SetupPage() {
                       <p className="text-sm text-chess-text-muted">
                         {option.description}
                       </p>
+                      <p className="mt-1 text-xs text-chess-text-muted">
+                        ≈ {STRENGTH_PROFILES[option.value].elo} Elo
+                      </p>
                     </button>
                   ))}
                 </div>
@@ -249,7 +322,7 @@ export default function SetupPage() {
                     </div>
                     <div>
                       <div className="font-semibold text-chess-text-light">
-                        {selectedDifficulty.label} Level Selected
+                        {STRENGTH_PROFILES[selectedDifficulty.value].label} Level Selected
                       </div>
                       <div className="text-sm text-chess-text-muted">
                         {selectedDifficulty.description}
@@ -261,76 +334,139 @@ export default function SetupPage() {
             </Card>
           )}
 
-          {/* Player Color Selection */}
-          <Card className="bg-chess-surface border-chess-border">
-            <CardHeader>
-              <CardTitle className="text-chess-text-light flex items-center gap-2">
-                <Crown className="w-5 h-5" />
-                Player Color
-              </CardTitle>
-              <p className="text-sm text-chess-text-muted">
-                Choose which color you want to play as
-              </p>
-            </CardHeader>
-            <CardContent>
-              <div className="flex items-center justify-center gap-6">
-                <button
-                  onClick={() => setGameSettings(prev => ({
-                    ...prev,
-                    playerColor: 'white',
-                    aiColor: 'black'
-                  }))}
-                  className={cn(
-                    'flex flex-col items-center gap-3 p-6 rounded-lg border-2 transition-all',
-                    gameSettings.playerColor === 'white'
-                      ? 'border-chess-highlight bg-chess-highlight/10'
-                      : 'border-chess-border hover:border-chess-highlight/50'
-                  )}
-                >
-                  <PieceIcon type="king" color="white" className="w-12 h-12" />
-                  <div className="text-center">
-                    <div className="font-semibold text-chess-text-light">White</div>
-                    <div className="text-sm text-chess-text-muted">Moves first</div>
-                  </div>
-                  {gameSettings.playerColor === 'white' && (
-                    <Badge className="bg-chess-highlight text-chess-background">You</Badge>
-                  )}
-                </button>
+          {/* Player Names (only shown for local mode) */}
+          {gameMode === 'local' && (
+            <Card className="bg-chess-surface border-chess-border">
+              <CardHeader>
+                <CardTitle className="text-chess-text-light flex items-center gap-2">
+                  <Users className="w-5 h-5" />
+                  Players
+                </CardTitle>
+                <p className="text-sm text-chess-text-muted">
+                  Name both sides for the status panel and move history
+                </p>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="grid sm:grid-cols-2 gap-4">
+                  {(['white', 'black'] as const).map(color => (
+                    <div key={color} className="space-y-2">
+                      <Label
+                        htmlFor={`${color}-player-name`}
+                        className="text-chess-text-light text-sm flex items-center gap-2"
+                      >
+                        <PieceIcon type="king" color={color} className="w-5 h-5" />
+                        {color === 'white' ? 'White' : 'Black'}
+                      </Label>
+                      <Input
+                        id={`${color}-player-name`}
+                        value={gameSettings.playerNames?.[color] ?? ''}
+                        onChange={(e) => handlePlayerNameChange(color, e.target.value)}
+                        placeholder={DEFAULT_PLAYER_NAMES[color]}
+                        maxLength={MAX_PLAYER_NAME_LENGTH}
+                        className="bg-chess-background border-chess-border text-chess-text-light"
+                      />
+                    </div>
+                  ))}
+                </div>
 
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={handleColorSwap}
-                  className="text-chess-text-muted hover:text-chess-text-light"
-                >
-                  <RotateCcw className="w-4 h-4" />
-                </Button>
+                <Separator className="bg-chess-border" />
 
-                <button
-                  onClick={() => setGameSettings(prev => ({
-                    ...prev,
-                    playerColor: 'black',
-                    aiColor: 'white'
-                  }))}
-                  className={cn(
-                    'flex flex-col items-center gap-3 p-6 rounded-lg border-2 transition-all',
-                    gameSettings.playerColor === 'black'
-                      ? 'border-chess-highlight bg-chess-highlight/10'
-                      : 'border-chess-border hover:border-chess-highlight/50'
-                  )}
-                >
-                  <PieceIcon type="king" color="black" className="w-12 h-12" />
-                  <div className="text-center">
-                    <div className="font-semibold text-chess-text-light">Black</div>
-                    <div className="text-sm text-chess-text-muted">Moves second</div>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <FlipVertical className="w-5 h-5 text-chess-text-muted" />
+                    <div>
+                      <Label htmlFor="auto-flip" className="text-chess-text-light">
+                        Flip Board Each Turn
+                      </Label>
+                      <p className="text-sm text-chess-text-muted">
+                        Turn the board towards whoever is to move
+                      </p>
+                    </div>
                   </div>
-                  {gameSettings.playerColor === 'black' && (
-                    <Badge className="bg-chess-highlight text-chess-background">You</Badge>
-                  )}
-                </button>
-              </div>
-            </CardContent>
-          </Card>
+                  <Switch
+                    id="auto-flip"
+                    checked={!!gameSettings.autoFlipBoard}
+                    onCheckedChange={(checked) =>
+                      setGameSettings(prev => ({ ...prev, autoFlipBoard: checked }))
+                    }
+                  />
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Player Color Selection (only shown for AI mode) */}
+          {gameMode === 'ai' && (
+            <Card className="bg-chess-surface border-chess-border">
+              <CardHeader>
+                <CardTitle className="text-chess-text-light flex items-center gap-2">
+                  <Crown className="w-5 h-5" />
+                  Player Color
+                </CardTitle>
+                <p className="text-sm text-chess-text-muted">
+                  Choose which color you want to play as
+                </p>
+              </CardHeader>
+              <CardContent>
+                <div className="flex items-center justify-center gap-6">
+                  <button
+                    onClick={() => setGameSettings(prev => ({
+                      ...prev,
+                      playerColor: 'white',
+                      aiColor: 'black'
+                    }))}
+                    className={cn(
+                      'flex flex-col items-center gap-3 p-6 rounded-lg border-2 transition-all',
+                      gameSettings.playerColor === 'white'
+                        ? 'border-chess-highlight bg-chess-highlight/10'
+                        : 'border-chess-border hover:border-chess-highlight/50'
+                    )}
+                  >
+                    <PieceIcon type="king" color="white" className="w-12 h-12" />
+                    <div className="text-center">
+                      <div className="font-semibold text-chess-text-light">White</div>
+                      <div className="text-sm text-chess-text-muted">Moves first</div>
+                    </div>
+                    {gameSettings.playerColor === 'white' && (
+                      <Badge className="bg-chess-highlight text-chess-background">You</Badge>
+                    )}
+                  </button>
+
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleColorSwap}
+                    className="text-chess-text-muted hover:text-chess-text-light"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                  </Button>
+
+                  <button
+                    onClick={() => setGameSettings(prev => ({
+                      ...prev,
+                      playerColor: 'black',
+                      aiColor: 'white'
+                    }))}
+                    className={cn(
+                      'flex flex-col items-center gap-3 p-6 rounded-lg border-2 transition-all',
+                      gameSettings.playerColor === 'black'
+                        ? 'border-chess-highlight bg-chess-highlight/10'
+                        : 'border-chess-border hover:border-chess-highlight/50'
+                    )}
+                  >
+                    <PieceIcon type="king" color="black" className="w-12 h-12" />
+                    <div className="text-center">
+                      <div className="font-semibold text-chess-text-light">Black</div>
+                      <div className="text-sm text-chess-text-muted">Moves second</div>
+                    </div>
+                    {gameSettings.playerColor === 'black' && (
+                      <Badge className="bg-chess-highlight text-chess-background">You</Badge>
+                    )}
+                  </button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
 
           {/* Game Options */}
           <Card className="bg-chess-surface border-chess-border">
@@ -490,22 +626,118 @@ export default function SetupPage() {
                         </Button>
                       </div>
                     </div>
+
+                    <div className="col-span-2">
+                      <Label className="text-chess-text-light text-sm">
+                        Delay
+                      </Label>
+                      <p className="text-xs text-chess-text-muted">
+                        Simple delay waits before the clock starts; Bronstein refunds time used up to the delay
+                      </p>
+                      <div className="flex flex-wrap items-center gap-2 mt-2">
+                        {DELAY_OPTIONS.map(option => (
+                          <Button
+                            key={option.value}
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setTimeDelayMode(option.value)}
+                            className={cn(
+                              'border-chess-border',
+                              timeDelayMode === option.value
+                                ? 'border-chess-highlight bg-chess-highlight/10 text-chess-text-light'
+                                : 'text-chess-text-muted hover:text-chess-text-light'
+                            )}
+                          >
+                            {option.label}
+                          </Button>
+                        ))}
+
+                        {timeDelayMode !== 'none' && (
+                          <div className="flex items-center gap-2 ml-auto">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setTimeDelay(Math.max(1, timeDelay - 1))}
+                              className="border-chess-border text-chess-text-muted hover:text-chess-text-light"
+                            >
+                              -1
+                            </Button>
+                            <div className="text-chess-text-light font-semibold min-w-[3rem] text-center">
+                              {timeDelay}s
+                            </div>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setTimeDelay(Math.min(60, timeDelay + 1))}
+                              className="border-chess-border text-chess-text-muted hover:text-chess-text-light"
+                            >
+                              +1
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    </div>
                   </div>
                 )}
               </div>
             </CardContent>
           </Card>
 
+          {/* Starting Position */}
+          <Card className="bg-chess-surface border-chess-border">
+            <CardHeader>
+              <CardTitle className="text-chess-text-light flex items-center gap-2">
+                <LayoutGrid className="w-5 h-5" />
+                Starting Position
+              </CardTitle>
+              <p className="text-sm text-chess-text-muted">
+                Paste a FEN string to start from a specific position, or leave empty for the standard setup
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <Label htmlFor="start-fen" className="text-chess-text-light text-sm">
+                FEN
+              </Label>
+              <Input
+                id="start-fen"
+                placeholder="rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1"
+                value={startFen}
+                onChange={(e) => setStartFen(e.target.value)}
+                className={cn(
+                  'font-mono bg-chess-background border-chess-border text-chess-text-light',
+                  !fenValidation.isValid && 'border-chess-danger'
+                )}
+              />
+              {!fenValidation.isValid && (
+                <p className="text-sm text-chess-danger">
+                  {fenValidation.reason}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Start Game Button */}
-          <div className="flex justify-center">
+          <div className="flex justify-center gap-4">
             <Button
               size="lg"
               onClick={handleStartGame}
+              disabled={!fenValidation.isValid}
               className="bg-chess-highlight hover:bg-chess-highlight/80 text-chess-background font-semibold px-12 py-4 text-lg"
             >
               <Play className="w-5 h-5 mr-2" />
               Start Game
             </Button>
+
+            <Button
+              size="lg"
+              variant="outline"
+              onClick={handleCopyLink}
+              disabled={!fenValidation.isValid}
+              className="border-chess-border text-chess-text-muted hover:text-chess-text-light py-4"
+            >
+              <Link2 className="w-5 h-5 mr-2" />
+              Copy Link
+            </Button>
           </div>
         </div>
       </main>
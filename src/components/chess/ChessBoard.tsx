@@ -1,10 +1,17 @@
 'use client';
 
 import { useState, useCallback, useRef, useEffect } from 'react';
-import { Piece, Position, ValidMove } from '@/types/chess';
-import { ChessPiece } from './ChessPiece';
+import { Piece, PieceColor, PieceType, Position, ValidMove } from '@/types/chess';
+import { ChessPiece, PiecePreview } from './ChessPiece';
 import { cn } from '@/lib/utils';
 
+// An arrow drawn over the board: a suggested move, or an opponent threat
+export interface BoardArrow {
+  from: Position;
+  to: Position;
+  kind: 'hint' | 'threat';
+}
+
 interface ChessBoardProps {
   board: (Piece | null)[][];
   validMoves: ValidMove[];
@@ -15,8 +22,14 @@ interface ChessBoardProps {
   onPieceSelect: (piece: Piece | null) => void;
   isFlipped?: boolean;
   highlightedSquares?: Position[];
+  // Own pieces the opponent is threatening
+  threatenedSquares?: Position[];
+  arrows?: BoardArrow[];
   lastMove?: { from: Position; to: Position };
   isPlayerTurn?: boolean;
+  promotion?: { to: Position; color: PieceColor };
+  onPromotionSelect?: (pieceType: PieceType) => void;
+  onPromotionCancel?: () => void;
 }
 
 interface DragState {
@@ -28,6 +41,10 @@ interface DragState {
 
 const FILES = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
 const RANKS = ['8', '7', '6', '5', '4', '3', '2', '1'];
+const PROMOTION_PIECES: PieceType[] = ['queen', 'rook', 'bishop', 'knight'];
+// In square widths
+const ARROW_HEAD_LENGTH = 0.4;
+const ARROW_HEAD_WIDTH = 0.22;
 
 export function ChessBoard({
   board,
@@ -39,8 +56,13 @@ export function ChessBoard({
   onPieceSelect,
   isFlipped = false,
   highlightedSquares = [],
+  threatenedSquares = [],
+  arrows = [],
   lastMove,
-  isPlayerTurn = true
+  isPlayerTurn = true,
+  promotion,
+  onPromotionSelect,
+  onPromotionCancel
 }: ChessBoardProps) {
   const [dragState, setDragState] = useState<DragState>({
     isDragging: false,
@@ -68,6 +90,11 @@ export function ChessBoard({
     return highlightedSquares.some(pos => pos.row === position.row && pos.col === position.col);
   }, [highlightedSquares, getSquarePosition]);
 
+  const isSquareThreatened = useCallback((row: number, col: number): boolean => {
+    const position = getSquarePosition(row, col);
+    return threatenedSquares.some(pos => pos.row === position.row && pos.col === position.col);
+  }, [threatenedSquares, getSquarePosition]);
+
   const isValidMoveSquare = useCallback((row: number, col: number): boolean => {
     if (!selectedPiece) return false;
     const position = getSquarePosition(row, col);
@@ -180,6 +207,7 @@ export function ChessBoard({
             'bg-chess-highlight/20': isValidMoveSquare(row, col),
             'bg-chess-accent/30': isSquareHighlighted(row, col),
             'bg-chess-accent/40': isLastMoveSquare(row, col),
+            'bg-chess-danger/30': isSquareThreatened(row, col),
           }
         )}
         onClick={() => handleSquareClick(row, col)}
@@ -225,11 +253,48 @@ export function ChessBoard({
     );
   };
 
+  // Arrows run between square centres in an 8x8 view box, stopping short of the target's centre
+  const renderArrow = (arrow: BoardArrow, index: number) => {
+    const from = getDisplayPosition(arrow.from.row, arrow.from.col);
+    const to = getDisplayPosition(arrow.to.row, arrow.to.col);
+    const [x1, y1, x2, y2] = [from.col + 0.5, from.row + 0.5, to.col + 0.5, to.row + 0.5];
+    const length = Math.hypot(x2 - x1, y2 - y1);
+    const [ux, uy] = [(x2 - x1) / length, (y2 - y1) / length];
+    const [tipX, tipY] = [x2 - ux * 0.15, y2 - uy * 0.15];
+    const [baseX, baseY] = [tipX - ux * ARROW_HEAD_LENGTH, tipY - uy * ARROW_HEAD_LENGTH];
+
+    return (
+      <g
+        key={`${arrow.kind}-${index}`}
+        className={arrow.kind === 'hint' ? 'text-chess-highlight' : 'text-chess-danger'}
+        opacity={0.8}
+      >
+        <line
+          x1={x1}
+          y1={y1}
+          x2={baseX}
+          y2={baseY}
+          stroke="currentColor"
+          strokeWidth={0.16}
+          strokeLinecap="round"
+        />
+        <polygon
+          points={[
+            `${tipX},${tipY}`,
+            `${baseX - uy * ARROW_HEAD_WIDTH},${baseY + ux * ARROW_HEAD_WIDTH}`,
+            `${baseX + uy * ARROW_HEAD_WIDTH},${baseY - ux * ARROW_HEAD_WIDTH}`
+          ].join(' ')}
+          fill="currentColor"
+        />
+      </g>
+    );
+  };
+
   return (
     <div className="relative">
       <div
         ref={boardRef}
-        className="chess-board grid grid-cols-8 grid-rows-8 aspect-square max-w-2xl mx-auto bg-chess-border/50 p-2 rounded-lg shadow-2xl border-4 border-chess-surface w-full"
+        className="chess-board relative grid grid-cols-8 grid-rows-8 aspect-square max-w-2xl mx-auto bg-chess-border/50 p-2 rounded-lg shadow-2xl border-4 border-chess-surface w-full"
         style={{
           backgroundImage: `
             linear-gradient(45deg, rgba(139, 69, 19, 0.1) 25%, transparent 25%),
@@ -244,8 +309,43 @@ export function ChessBoard({
         {Array.from({ length: 8 }, (_, row) =>
           Array.from({ length: 8 }, (_, col) => renderSquare(row, col))
         )}
+
+        {/* Hint and threat arrows, inset to the squares inside the board's padding */}
+        {arrows.length > 0 && (
+          <svg className="absolute inset-2 z-20 pointer-events-none" viewBox="0 0 8 8">
+            {arrows.map(renderArrow)}
+          </svg>
+        )}
       </div>
 
+      {/* Promotion picker */}
+      {promotion && (
+        <div
+          className="absolute inset-0 z-40 flex items-center justify-center bg-chess-background/60 rounded-lg"
+          onClick={onPromotionCancel}
+        >
+          <div
+            className="bg-chess-surface border border-chess-border rounded-lg shadow-2xl p-4"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="text-sm text-chess-text-muted text-center mb-3">
+              Promote on {FILES[promotion.to.col]}{RANKS[promotion.to.row]}
+            </div>
+            <div className="flex gap-2">
+              {PROMOTION_PIECES.map(type => (
+                <button
+                  key={type}
+                  onClick={() => onPromotionSelect?.(type)}
+                  className="w-16 h-16 flex items-center justify-center rounded-lg border-2 border-chess-border hover:border-chess-highlight hover:bg-chess-highlight/10 transition-all"
+                >
+                  <PiecePreview type={type} color={promotion.color} size="lg" />
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Dragged piece */}
       {dragState.isDragging && dragState.piece && (
         <div
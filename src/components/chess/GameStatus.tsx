@@ -1,10 +1,11 @@
 'use client';
 
-import { GameStatus as GameStatusType, PieceColor } from '@/types/chess';
+import { GameStatus as GameStatusType, PieceColor, DrawReason } from '@/types/chess';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { PieceIcon } from './ChessPiece';
+import { formatClock, LOW_TIME_MS } from '@/lib/chess-clock';
 import { cn } from '@/lib/utils';
 import {
   Crown,
@@ -13,34 +14,57 @@ import {
   Trophy,
   Play,
   RotateCcw,
-  Flag
+  Flag,
+  Timer,
+  Activity
 } from 'lucide-react';
 
 interface GameStatusProps {
   status: GameStatusType;
   currentPlayer: PieceColor;
   winner?: PieceColor;
+  resignedBy?: PieceColor;
+  drawReason?: DrawReason;
   playerColor?: PieceColor;
+  // Set for local games, where both sides are human and named
+  playerNames?: Record<PieceColor, string>;
   isPlayerTurn?: boolean;
   moveCount?: number;
   timeElapsed?: number;
+  // Milliseconds left per side when the game has a time control
+  clocks?: Record<PieceColor, number>;
   onNewGame?: () => void;
   onResign?: () => void;
   onOfferDraw?: () => void;
+  // Offered once the game is over
+  onAnalyze?: () => void;
   className?: string;
 }
 
+const DRAW_REASON_MESSAGES: Record<DrawReason, string> = {
+  'fifty-move-rule': 'Draw by the fifty-move rule',
+  'threefold-repetition': 'Draw by threefold repetition',
+  'insufficient-material': 'Draw by insufficient material',
+  'agreement': 'Draw by agreement',
+  'timeout-vs-insufficient-material': 'Time ran out, but the opponent could not have mated'
+};
+
 export function GameStatus({
   status,
   currentPlayer,
   winner,
+  resignedBy,
+  drawReason,
   playerColor = 'white',
+  playerNames,
   isPlayerTurn = true,
   moveCount = 0,
   timeElapsed = 0,
+  clocks,
   onNewGame,
   onResign,
   onOfferDraw,
+  onAnalyze,
   className
 }: GameStatusProps) {
   const formatTime = (seconds: number): string => {
@@ -49,6 +73,16 @@ export function GameStatus({
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
+  const nameOf = (color?: PieceColor): string =>
+    playerNames && color ? playerNames[color] : color === 'white' ? 'White' : 'Black';
+
+  const getSideLabel = (color: PieceColor): string => {
+    if (playerNames) {
+      return `${playerNames[color]} (${color === 'white' ? 'White' : 'Black'})`;
+    }
+    return `${color === 'white' ? 'White' : 'Black'}${color === playerColor ? ' (You)' : ' (Opponent)'}`;
+  };
+
   const getStatusMessage = () => {
     switch (status) {
       case 'check':
@@ -60,15 +94,23 @@ export function GameStatus({
         };
 
       case 'checkmate':
-        const winnerName = winner === 'white' ? 'White' : 'Black';
+        const winnerName = nameOf(winner);
         const isPlayerWin = winner === playerColor;
         return {
-          title: 'Checkmate!',
-          message: `${winnerName} wins by checkmate`,
+          title: resignedBy ? 'Resignation' : 'Checkmate!',
+          message: `${winnerName} wins by ${resignedBy ? 'resignation' : 'checkmate'}`,
           icon: <Crown className="w-5 h-5 text-chess-highlight" />,
           variant: isPlayerWin ? 'default' : 'secondary' as const
         };
 
+      case 'timeout':
+        return {
+          title: 'Time Out!',
+          message: `${nameOf(winner)} wins on time`,
+          icon: <Timer className="w-5 h-5 text-chess-danger" />,
+          variant: winner === playerColor ? 'default' : 'secondary' as const
+        };
+
       case 'stalemate':
         return {
           title: 'Stalemate!',
@@ -80,14 +122,16 @@ export function GameStatus({
       case 'draw':
         return {
           title: 'Draw!',
-          message: 'Game ends in a draw',
+          message: drawReason ? DRAW_REASON_MESSAGES[drawReason] : 'Game ends in a draw',
           icon: <Users className="w-5 h-5 text-chess-text-muted" />,
           variant: 'outline' as const
         };
 
       default:
         return {
-          title: isPlayerTurn ? 'Your turn' : 'Opponent\'s turn',
+          title: playerNames
+            ? `${playerNames[currentPlayer]}'s turn`
+            : isPlayerTurn ? 'Your turn' : 'Opponent\'s turn',
           message: `${currentPlayer === 'white' ? 'White' : 'Black'} to move`,
           icon: <Play className="w-5 h-5 text-chess-highlight" />,
           variant: 'default' as const
@@ -96,7 +140,8 @@ export function GameStatus({
   };
 
   const statusInfo = getStatusMessage();
-  const isGameOver = ['checkmate', 'stalemate', 'draw'].includes(status);
+  const isGameOver = ['checkmate', 'stalemate', 'draw', 'timeout'].includes(status);
+  const hasWinner = (status === 'checkmate' || status === 'timeout') && winner;
 
   return (
     <Card className={cn('w-full max-w-md bg-chess-surface border-chess-border', className)}>
@@ -127,8 +172,7 @@ export function GameStatus({
                 className="w-6 h-6"
               />
               <span className="text-chess-text-light font-medium">
-                {currentPlayer === 'white' ? 'White' : 'Black'}
-                {currentPlayer === playerColor ? ' (You)' : ' (Opponent)'}
+                {getSideLabel(currentPlayer)}
               </span>
               {isPlayerTurn && (
                 <div className="w-2 h-2 bg-chess-highlight rounded-full animate-pulse" />
@@ -140,7 +184,7 @@ export function GameStatus({
           {isGameOver && (
             <div className="text-center py-4">
               <div className="flex justify-center mb-2">
-                {status === 'checkmate' ? (
+                {hasWinner ? (
                   <Trophy className="w-8 h-8 text-chess-highlight" />
                 ) : (
                   <Users className="w-8 h-8 text-chess-text-muted" />
@@ -149,14 +193,47 @@ export function GameStatus({
               <h4 className="text-lg font-semibold text-chess-text-light mb-1">
                 Game Over
               </h4>
-              {status === 'checkmate' && winner && (
+              {hasWinner && (
                 <p className="text-chess-text-muted">
-                  {winner === playerColor ? 'Congratulations!' : 'Better luck next time!'}
+                  {playerNames
+                    ? `Congratulations, ${playerNames[winner]}!`
+                    : winner === playerColor ? 'Congratulations!' : 'Better luck next time!'}
                 </p>
               )}
             </div>
           )}
 
+          {/* Clocks */}
+          {clocks && (
+            <div className="grid grid-cols-2 gap-2">
+              {(['white', 'black'] as const).map(color => {
+                const isRunning = !isGameOver && color === currentPlayer;
+                const isLow = clocks[color] < LOW_TIME_MS;
+
+                return (
+                  <div
+                    key={color}
+                    className={cn(
+                      'flex items-center justify-between gap-2 px-3 py-2 rounded-lg border',
+                      isRunning ? 'border-chess-highlight bg-chess-highlight/10' : 'border-chess-border',
+                      isLow && 'border-chess-danger'
+                    )}
+                  >
+                    <PieceIcon type="king" color={color} className="w-5 h-5" />
+                    <span
+                      className={cn(
+                        'font-mono text-lg font-semibold',
+                        isLow ? 'text-chess-danger' : 'text-chess-text-light'
+                      )}
+                    >
+                      {formatClock(clocks[color])}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
           {/* Game Info */}
           <div className="grid grid-cols-2 gap-4 text-sm">
             <div className="text-center">
@@ -186,6 +263,18 @@ export function GameStatus({
               </Button>
             )}
 
+            {isGameOver && onAnalyze && (
+              <Button
+                onClick={onAnalyze}
+                variant="outline"
+                size="sm"
+                className="border-chess-border text-chess-text-muted hover:text-chess-text-light"
+              >
+                <Activity className="w-4 h-4 mr-1" />
+                Analyze
+              </Button>
+            )}
+
             {!isGameOver && (
               <>
                 {onOfferDraw && (
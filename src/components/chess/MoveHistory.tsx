@@ -1,66 +1,103 @@
 'use client';
 
-import { Move, PieceColor } from '@/types/chess';
+import { Move, MoveAnalysis, MoveClassification, Opening, PieceColor } from '@/types/chess';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { PieceIcon } from './ChessPiece';
+import { CLASSIFICATION_LABELS, CLASSIFICATION_SYMBOLS } from '@/lib/chess-analysis';
 import { cn } from '@/lib/utils';
-import { Clock, RotateCcw, Copy, Download } from 'lucide-react';
+import { Clock, RotateCcw, Copy, Download, BookOpen } from 'lucide-react';
 
 interface MoveHistoryProps {
   moves: Move[];
   currentMoveIndex?: number;
   onMoveSelect?: (moveIndex: number) => void;
-  onExportPGN?: () => void;
+  onExportPGN?: () => string;
+  pgnFileName?: string;
   onCopyMoves?: () => void;
   gameResult?: 'white-wins' | 'black-wins' | 'draw' | 'ongoing';
+  playerNames?: Record<PieceColor, string>;
+  opening?: Opening | null;
+  // Engine verdicts, one per move, once the game has been analyzed
+  analysis?: MoveAnalysis[];
+  // Who made the first move and its number, for games set up from a FEN
+  startingColor?: PieceColor;
+  startingMoveNumber?: number;
   className?: string;
 }
 
 interface MovePair {
   moveNumber: number;
+  // Indexes into the move list; white's is -1 when a game set up with black to move opens
+  whiteIndex: number;
+  blackIndex: number;
   whiteMove?: Move;
   blackMove?: Move;
 }
 
+const CLASSIFICATION_COLORS: Record<MoveClassification, string> = {
+  'best': 'text-chess-highlight',
+  'good': 'text-chess-text-muted',
+  'inaccuracy': 'text-chess-highlight',
+  'mistake': 'text-chess-accent',
+  'blunder': 'text-chess-danger',
+  'missed-mate': 'text-chess-danger'
+};
+
+// Inaccuracies and worse are shown with the move the engine preferred
+const isWeakMove = (verdict?: MoveAnalysis): boolean =>
+  !!verdict && verdict.classification !== 'best' && verdict.classification !== 'good';
+
+const formatMoveTime = (move: Move): string => {
+  return move.timestamp.toLocaleTimeString([], {
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  });
+};
+
+const downloadTextFile = (content: string, fileName: string) => {
+  const blob = new Blob([content], { type: 'application/x-chess-pgn' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
 export function MoveHistory({
   moves,
   currentMoveIndex = moves.length - 1,
   onMoveSelect,
   onExportPGN,
+  pgnFileName = 'game.pgn',
   onCopyMoves,
   gameResult = 'ongoing',
+  playerNames,
+  opening,
+  analysis,
+  startingColor = 'white',
+  startingMoveNumber = 1,
   className
 }: MoveHistoryProps) {
-  // Group moves into pairs (white, black)
+  // Group moves into numbered pairs (white, black)
   const movePairs: MovePair[] = [];
+  const firstWhiteIndex = startingColor === 'black' ? -1 : 0;
 
-  for (let i = 0; i < moves.length; i += 2) {
-    const whiteMove = moves[i];
-    const blackMove = moves[i + 1];
-
+  for (let i = firstWhiteIndex; i < moves.length; i += 2) {
     movePairs.push({
-      moveNumber: Math.floor(i / 2) + 1,
-      whiteMove,
-      blackMove
+      moveNumber: startingMoveNumber + (i - firstWhiteIndex) / 2,
+      whiteIndex: i,
+      blackIndex: i + 1,
+      whiteMove: i >= 0 ? moves[i] : undefined,
+      blackMove: moves[i + 1]
     });
   }
 
-  const formatMoveTime = (move: Move): string => {
-    return move.timestamp.toLocaleTimeString([], {
-      hour: '2-digit',
-      minute: '2-digit',
-      second: '2-digit'
-    });
-  };
-
-  const getMoveStatusIcon = (move: Move) => {
-    if (move.isCheckmate) return '# ';
-    if (move.isCheck) return '+ ';
-    return '';
-  };
-
   const getResultString = () => {
     switch (gameResult) {
       case 'white-wins': return '1-0';
@@ -70,6 +107,43 @@ export function MoveHistory({
     }
   };
 
+  const handleExportPGN = () => {
+    if (onExportPGN) {
+      downloadTextFile(onExportPGN(), pgnFileName);
+    }
+  };
+
+  const getMoveTitle = (moveIndex: number): string | undefined => {
+    const verdict = analysis?.[moveIndex];
+    if (!verdict) return undefined;
+
+    const label = CLASSIFICATION_LABELS[verdict.classification];
+    return isWeakMove(verdict) ? `${label}; ${verdict.bestMove} was best` : label;
+  };
+
+  const renderSymbol = (moveIndex: number) => {
+    const verdict = analysis?.[moveIndex];
+    const symbol = verdict && CLASSIFICATION_SYMBOLS[verdict.classification];
+    if (!symbol) return null;
+
+    return <span className={cn('font-semibold', CLASSIFICATION_COLORS[verdict.classification])}>{symbol}</span>;
+  };
+
+  const renderAlternative = (moveIndex: number) => {
+    const verdict = analysis?.[moveIndex];
+    if (!verdict || !isWeakMove(verdict)) return null;
+
+    return (
+      <div className="pl-12 pb-1 text-xs text-chess-text-muted">
+        <span className={CLASSIFICATION_COLORS[verdict.classification]}>
+          {CLASSIFICATION_LABELS[verdict.classification]}
+        </span>
+        {' · '}
+        <span className="font-mono text-chess-text-light">{verdict.bestMove}</span> was best
+      </div>
+    );
+  };
+
   const handleMoveClick = (moveIndex: number) => {
     if (onMoveSelect) {
       onMoveSelect(moveIndex);
@@ -119,7 +193,7 @@ export function MoveHistory({
               <Button
                 variant="ghost"
                 size="sm"
-                onClick={onExportPGN}
+                onClick={handleExportPGN}
                 className="h-8 px-2 text-chess-text-muted hover:text-chess-text-light"
               >
                 <Download className="w-4 h-4" />
@@ -127,6 +201,22 @@ export function MoveHistory({
             )}
           </div>
         </div>
+        {playerNames && (
+          <div className="flex items-center gap-2 text-sm text-chess-text-light">
+            <PieceIcon type="king" color="white" className="w-4 h-4" />
+            <span className="truncate">{playerNames.white}</span>
+            <span className="text-chess-text-muted">vs</span>
+            <PieceIcon type="king" color="black" className="w-4 h-4" />
+            <span className="truncate">{playerNames.black}</span>
+          </div>
+        )}
+        {opening && (
+          <div className="flex items-center gap-2 text-sm text-chess-text-light" title={opening.name}>
+            <BookOpen className="w-4 h-4 shrink-0 text-chess-highlight" />
+            <span className="font-mono text-chess-text-muted">{opening.eco}</span>
+            <span className="truncate">{opening.name}</span>
+          </div>
+        )}
         <div className="flex items-center gap-2 text-sm text-chess-text-muted">
           <span>{moves.length} moves</span>
           {gameResult !== 'ongoing' && (
@@ -144,61 +234,69 @@ export function MoveHistory({
         <ScrollArea className="move-history h-96">
           <div className="space-y-1">
             {movePairs.map((pair) => (
-              <div
-                key={pair.moveNumber}
-                className="flex items-center gap-2 py-1 px-2 rounded hover:bg-chess-border/20 transition-colors"
-              >
-                <div className="text-sm font-medium text-chess-text-muted min-w-[2rem]">
-                  {pair.moveNumber}.
+              <div key={pair.moveNumber}>
+                <div className="flex items-center gap-2 py-1 px-2 rounded hover:bg-chess-border/20 transition-colors">
+                  <div className="text-sm font-medium text-chess-text-muted min-w-[2rem]">
+                    {pair.moveNumber}.
+                  </div>
+
+                  {/* White move, or a gap before black's opening move */}
+                  {!pair.whiteMove && (
+                    <span className="px-2 py-1 text-sm font-mono text-chess-text-muted">…</span>
+                  )}
+                  {pair.whiteMove && (
+                    <button
+                      onClick={() => handleMoveClick(pair.whiteIndex)}
+                      title={getMoveTitle(pair.whiteIndex)}
+                      className={cn(
+                        'flex items-center gap-1 px-2 py-1 rounded text-sm font-mono transition-all',
+                        'hover:bg-chess-highlight/20 hover:text-chess-text-light',
+                        currentMoveIndex === pair.whiteIndex
+                          ? 'bg-chess-highlight/30 text-chess-text-light ring-1 ring-chess-highlight'
+                          : 'text-chess-text-muted'
+                      )}
+                    >
+                      <PieceIcon
+                        type={pair.whiteMove.piece.type}
+                        color="white"
+                        className="w-3 h-3"
+                      />
+                      <span>
+                        {pair.whiteMove.notation}
+                      </span>
+                      {renderSymbol(pair.whiteIndex)}
+                    </button>
+                  )}
+
+                  {/* Black move */}
+                  {pair.blackMove && (
+                    <button
+                      onClick={() => handleMoveClick(pair.blackIndex)}
+                      title={getMoveTitle(pair.blackIndex)}
+                      className={cn(
+                        'flex items-center gap-1 px-2 py-1 rounded text-sm font-mono transition-all',
+                        'hover:bg-chess-highlight/20 hover:text-chess-text-light',
+                        currentMoveIndex === pair.blackIndex
+                          ? 'bg-chess-highlight/30 text-chess-text-light ring-1 ring-chess-highlight'
+                          : 'text-chess-text-muted'
+                      )}
+                    >
+                      <PieceIcon
+                        type={pair.blackMove.piece.type}
+                        color="black"
+                        className="w-3 h-3"
+                      />
+                      <span>
+                        {pair.blackMove.notation}
+                      </span>
+                      {renderSymbol(pair.blackIndex)}
+                    </button>
+                  )}
                 </div>
 
-                {/* White move */}
-                {pair.whiteMove && (
-                  <button
-                    onClick={() => handleMoveClick((pair.moveNumber - 1) * 2)}
-                    className={cn(
-                      'flex items-center gap-1 px-2 py-1 rounded text-sm font-mono transition-all',
-                      'hover:bg-chess-highlight/20 hover:text-chess-text-light',
-                      currentMoveIndex === (pair.moveNumber - 1) * 2
-                        ? 'bg-chess-highlight/30 text-chess-text-light ring-1 ring-chess-highlight'
-                        : 'text-chess-text-muted'
-                    )}
-                  >
-                    <PieceIcon
-                      type={pair.whiteMove.piece.type}
-                      color="white"
-                      className="w-3 h-3"
-                    />
-                    <span>
-                      {pair.whiteMove.notation}
-                      {getMoveStatusIcon(pair.whiteMove)}
-                    </span>
-                  </button>
-                )}
-
-                {/* Black move */}
-                {pair.blackMove && (
-                  <button
-                    onClick={() => handleMoveClick((pair.moveNumber - 1) * 2 + 1)}
-                    className={cn(
-                      'flex items-center gap-1 px-2 py-1 rounded text-sm font-mono transition-all',
-                      'hover:bg-chess-highlight/20 hover:text-chess-text-light',
-                      currentMoveIndex === (pair.moveNumber - 1) * 2 + 1
-                        ? 'bg-chess-highlight/30 text-chess-text-light ring-1 ring-chess-highlight'
-                        : 'text-chess-text-muted'
-                    )}
-                  >
-                    <PieceIcon
-                      type={pair.blackMove.piece.type}
-                      color="black"
-                      className="w-3 h-3"
-                    />
-                    <span>
-                      {pair.blackMove.notation}
-                      {getMoveStatusIcon(pair.blackMove)}
-                    </span>
-                  </button>
-                )}
+                {/* Better alternatives to the weak moves of this pair */}
+                {renderAlternative(pair.whiteIndex)}
+                {renderAlternative(pair.blackIndex)}
               </div>
             ))}
 
@@ -236,7 +334,6 @@ export function MoveDetails({ move, moveNumber, color }: MoveDetailsProps) {
           <PieceIcon type={move.piece.type} color={move.piece.color} />
           <span className="font-mono text-lg text-chess-text-light">
             {move.notation}
-            {getMoveStatusIcon(move)}
           </span>
         </div>
 
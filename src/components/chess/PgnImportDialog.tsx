@@ -0,0 +1,114 @@
+'use client';
+
+import { useState } from 'react';
+import { GameSettings } from '@/types/chess';
+import { ImportedPgn, importPgn } from '@/lib/chess-pgn';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Upload, AlertTriangle } from 'lucide-react';
+
+interface PgnImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  gameSettings: GameSettings;
+  onImport: (imported: ImportedPgn) => void;
+}
+
+export function PgnImportDialog({
+  open,
+  onOpenChange,
+  gameSettings,
+  onImport
+}: PgnImportDialogProps) {
+  const [pgnText, setPgnText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setPgnText(await file.text());
+    setError(null);
+    e.target.value = '';
+  };
+
+  const handleImport = () => {
+    try {
+      const imported = importPgn(pgnText, gameSettings);
+      setError(null);
+      setPgnText('');
+      onImport(imported);
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-chess-surface border-chess-border sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="text-chess-text-light">Import PGN</DialogTitle>
+          <DialogDescription className="text-chess-text-muted">
+            Paste a game in PGN format or load a .pgn file to review it on the board
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <Textarea
+            value={pgnText}
+            onChange={(e) => {
+              setPgnText(e.target.value);
+              setError(null);
+            }}
+            placeholder={'[Event "Casual Game"]\n\n1. e4 e5 2. Nf3 Nc6 *'}
+            className="h-64 font-mono text-sm bg-chess-background border-chess-border text-chess-text-light"
+          />
+
+          <label className="inline-flex items-center gap-2 text-sm text-chess-text-muted hover:text-chess-text-light cursor-pointer">
+            <Upload className="w-4 h-4" />
+            Load from file
+            <input
+              type="file"
+              accept=".pgn,text/plain"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+          </label>
+
+          {error && (
+            <div className="flex items-start gap-2 text-sm text-chess-danger">
+              <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            className="border-chess-border text-chess-text-muted hover:text-chess-text-light"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={!pgnText.trim()}
+            className="bg-chess-highlight hover:bg-chess-highlight/80 text-chess-background"
+          >
+            Load Game
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
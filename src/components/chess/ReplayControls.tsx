@@ -0,0 +1,121 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { ChevronFirst, ChevronLast, ChevronLeft, ChevronRight, Pause, Play } from 'lucide-react';
+
+// Autoplay speeds, in milliseconds per move
+export const REPLAY_SPEEDS = [
+  { label: '0.5×', intervalMs: 2000 },
+  { label: '1×', intervalMs: 1000 },
+  { label: '2×', intervalMs: 500 },
+  { label: '4×', intervalMs: 250 }
+];
+
+interface ReplayControlsProps {
+  // 0 is the starting position, frameCount - 1 the final one
+  frameIndex: number;
+  frameCount: number;
+  onFrameSelect: (frameIndex: number) => void;
+  // Autoplay controls are shown only when a toggle is given
+  isPlaying?: boolean;
+  onTogglePlay?: () => void;
+  intervalMs?: number;
+  onIntervalChange?: (intervalMs: number) => void;
+  className?: string;
+}
+
+export function ReplayControls({
+  frameIndex,
+  frameCount,
+  onFrameSelect,
+  isPlaying = false,
+  onTogglePlay,
+  intervalMs,
+  onIntervalChange,
+  className
+}: ReplayControlsProps) {
+  const lastFrame = frameCount - 1;
+  const atStart = frameIndex <= 0;
+  const atEnd = frameIndex >= lastFrame;
+
+  const navButtons = [
+    { icon: ChevronFirst, label: 'First move', target: 0, disabled: atStart },
+    { icon: ChevronLeft, label: 'Previous move', target: frameIndex - 1, disabled: atStart },
+    { icon: ChevronRight, label: 'Next move', target: frameIndex + 1, disabled: atEnd },
+    { icon: ChevronLast, label: 'Last move', target: lastFrame, disabled: atEnd }
+  ];
+
+  return (
+    <div className={cn('flex flex-wrap items-center justify-center gap-2', className)}>
+      <div className="flex items-center gap-1">
+        {navButtons.slice(0, 2).map(({ icon: Icon, label, target, disabled }) => (
+          <Button
+            key={label}
+            variant="ghost"
+            size="sm"
+            title={label}
+            onClick={() => onFrameSelect(target)}
+            disabled={disabled}
+            className="text-chess-text-muted hover:text-chess-text-light"
+          >
+            <Icon className="w-4 h-4" />
+          </Button>
+        ))}
+
+        {onTogglePlay && (
+          <Button
+            variant="ghost"
+            size="sm"
+            title={isPlaying ? 'Pause' : 'Play'}
+            onClick={onTogglePlay}
+            disabled={!isPlaying && atEnd}
+            className={cn(
+              'text-chess-text-muted hover:text-chess-text-light',
+              isPlaying && 'text-chess-highlight'
+            )}
+          >
+            {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          </Button>
+        )}
+
+        {navButtons.slice(2).map(({ icon: Icon, label, target, disabled }) => (
+          <Button
+            key={label}
+            variant="ghost"
+            size="sm"
+            title={label}
+            onClick={() => onFrameSelect(target)}
+            disabled={disabled}
+            className="text-chess-text-muted hover:text-chess-text-light"
+          >
+            <Icon className="w-4 h-4" />
+          </Button>
+        ))}
+      </div>
+
+      <div className="text-sm font-mono text-chess-text-muted min-w-[4.5rem] text-center">
+        {frameIndex} / {lastFrame}
+      </div>
+
+      {onIntervalChange && (
+        <div className="flex items-center gap-1">
+          {REPLAY_SPEEDS.map(speed => (
+            <Button
+              key={speed.intervalMs}
+              variant="ghost"
+              size="sm"
+              onClick={() => onIntervalChange(speed.intervalMs)}
+              className={cn(
+                'h-8 px-2 text-xs text-chess-text-muted hover:text-chess-text-light',
+                intervalMs === speed.intervalMs && 'bg-chess-highlight/20 text-chess-highlight'
+              )}
+            >
+              {speed.label}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+'use client';
+
+import { SavedGame } from '@/lib/game-autosave';
+import { getPlayerNames } from '@/lib/game-settings';
+import { STRENGTH_PROFILES } from '@/lib/chess-strength';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { History } from 'lucide-react';
+
+interface ResumeGameDialogProps {
+  savedGame: SavedGame | null;
+  onResume: () => void;
+  onStartNew: () => void;
+  // Closing without choosing keeps the save until the game on the board makes a move
+  onDismiss: () => void;
+}
+
+export function ResumeGameDialog({
+  savedGame,
+  onResume,
+  onStartNew,
+  onDismiss
+}: ResumeGameDialogProps) {
+  if (!savedGame) return null;
+
+  const { gameState, savedAt } = savedGame;
+  const { gameSettings, isAIGame } = gameState;
+  const names = getPlayerNames(gameSettings, isAIGame);
+  const opponent = isAIGame
+    ? `Chess Prime AI (${STRENGTH_PROFILES[gameSettings.difficulty].label})`
+    : `${names.white} vs ${names.black}`;
+
+  return (
+    <Dialog open onOpenChange={open => !open && onDismiss()}>
+      <DialogContent className="bg-chess-surface border-chess-border sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-chess-text-light flex items-center gap-2">
+            <History className="w-5 h-5 text-chess-highlight" />
+            Resume your game?
+          </DialogTitle>
+          <DialogDescription className="text-chess-text-muted">
+            An unfinished game was saved {savedAt.toLocaleString()}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="rounded-lg border border-chess-border bg-chess-background/50 p-3 text-sm">
+          <div className="font-semibold text-chess-text-light">{opponent}</div>
+          <div className="text-chess-text-muted">
+            {gameState.moves.length} {gameState.moves.length === 1 ? 'move' : 'moves'} played
+            · {names[gameState.currentPlayer]} to move
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={onStartNew}
+            className="border-chess-border text-chess-text-muted hover:text-chess-text-light"
+          >
+            Start New
+          </Button>
+          <Button
+            onClick={onResume}
+            className="bg-chess-highlight hover:bg-chess-highlight/80 text-chess-background"
+          >
+            Resume Game
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,204 @@
+import { AIMove, AISearchProgress, Difficulty, EndgameProbe, GameState, PieceColor } from '@/types/chess';
+import { ChessAI } from './chess-ai';
+import { AIWorkerRequest, AIWorkerResponse } from './chess-ai-protocol';
+import { loadEndgameTables, probeEndgame } from './chess-endgame';
+import { ChessPosition } from './chess-position';
+
+export class AISearchCancelledError extends Error {
+  constructor() {
+    super('AI search was cancelled');
+    this.name = 'AISearchCancelledError';
+  }
+}
+
+export interface AISearchRequest {
+  gameState: GameState;
+  aiColor: PieceColor;
+  difficulty: Difficulty;
+  timeLimitMs: number;
+  // Analysis turns the book off so every position gets a searched evaluation
+  useBook?: boolean;
+  onProgress?: (progress: AISearchProgress) => void;
+}
+
+interface PendingSearch {
+  id: number;
+  resolve: (result: AIMove) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: AISearchProgress) => void;
+}
+
+async function probeOnMainThread(gameState: GameState): Promise<EndgameProbe | null> {
+  const position = ChessPosition.fromGameState(gameState);
+  return await loadEndgameTables(position) ? probeEndgame(position) : null;
+}
+
+// Runs ChessAI in a Web Worker, one search at a time, falling back to the main thread
+// where workers are unavailable
+export class ChessAIClient {
+  private worker: Worker | null = null;
+  private pending: PendingSearch | null = null;
+  private nextId = 1;
+  private fallbackStop = false;
+  private fallbackAI: ChessAI | null = null;
+  // Endgame probes run beside the search and settle with null if the worker goes away
+  private probes = new Map<number, (probe: EndgameProbe | null) => void>();
+
+  public get isSearching(): boolean {
+    return this.pending !== null;
+  }
+
+  public search(request: AISearchRequest): Promise<AIMove> {
+    // Starting a new search abandons whatever was running
+    this.cancel();
+
+    const id = this.nextId++;
+    const { gameState, aiColor, difficulty, timeLimitMs, useBook, onProgress } = request;
+
+    return new Promise<AIMove>((resolve, reject) => {
+      this.pending = { id, resolve, reject, onProgress };
+
+      const worker = this.getWorker();
+      if (!worker) {
+        this.searchOnMainThread(request, id);
+        return;
+      }
+
+      const message: AIWorkerRequest = { type: 'search', id, gameState, aiColor, difficulty, timeLimitMs, useBook };
+      worker.postMessage(message);
+    });
+  }
+
+  // The exact result of a position with few pieces, building its table on first use;
+  // null when the position cannot be probed
+  public probeEndgame(gameState: GameState): Promise<EndgameProbe | null> {
+    const id = this.nextId++;
+
+    return new Promise(resolve => {
+      const worker = this.getWorker();
+      if (!worker) {
+        probeOnMainThread(gameState).then(resolve, () => resolve(null));
+        return;
+      }
+
+      this.probes.set(id, resolve);
+      const message: AIWorkerRequest = { type: 'endgame', id, gameState };
+      worker.postMessage(message);
+    });
+  }
+
+  // Ask for the best move found so far; it arrives once the current iteration completes
+  public stop(): void {
+    if (!this.pending) return;
+
+    if (this.worker) {
+      const message: AIWorkerRequest = { type: 'stop', id: this.pending.id };
+      this.worker.postMessage(message);
+    } else {
+      this.fallbackStop = true;
+    }
+  }
+
+  // Abandon the search immediately; its promise rejects with AISearchCancelledError
+  public cancel(): void {
+    if (!this.pending) return;
+
+    const { id, reject } = this.pending;
+    this.pending = null;
+
+    // The worker stays up so endgame tables it is building, and probes waiting on them,
+    // survive; the search ends after its current iteration and its result is dropped
+    if (this.worker) {
+      const message: AIWorkerRequest = { type: 'stop', id };
+      this.worker.postMessage(message);
+    }
+    this.fallbackStop = true;
+
+    reject(new AISearchCancelledError());
+  }
+
+  public dispose(): void {
+    this.cancel();
+    this.worker?.terminate();
+    this.worker = null;
+    this.settleProbes();
+  }
+
+  private settleProbes(): void {
+    for (const resolve of this.probes.values()) resolve(null);
+    this.probes.clear();
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker) return this.worker;
+    if (typeof Worker === 'undefined') return null;
+
+    try {
+      this.worker = new Worker(new URL('../workers/chess-ai.worker.ts', import.meta.url));
+    } catch {
+      return null;
+    }
+
+    this.worker.onmessage = (event: MessageEvent<AIWorkerResponse>) => this.handleMessage(event.data);
+    this.worker.onerror = (event) => {
+      const pending = this.pending;
+      this.pending = null;
+      this.worker?.terminate();
+      this.worker = null;
+      this.settleProbes();
+      pending?.reject(new Error(event.message || 'AI worker failed'));
+    };
+
+    return this.worker;
+  }
+
+  private handleMessage(message: AIWorkerResponse): void {
+    if (message.type === 'endgame') {
+      this.probes.get(message.id)?.(message.probe);
+      this.probes.delete(message.id);
+      return;
+    }
+
+    const pending = this.pending;
+    // Messages from a search that has since been cancelled or replaced are dropped
+    if (!pending || message.id !== pending.id) return;
+
+    switch (message.type) {
+      case 'progress':
+        pending.onProgress?.(message.progress);
+        break;
+
+      case 'result':
+        this.pending = null;
+        pending.resolve(message.result);
+        break;
+
+      case 'error':
+        this.pending = null;
+        pending.reject(new Error(message.message));
+        break;
+    }
+  }
+
+  private async searchOnMainThread(request: AISearchRequest, id: number): Promise<void> {
+    this.fallbackStop = false;
+    // Reused like the worker's, keeping its transposition table between moves
+    this.fallbackAI ??= new ChessAI();
+    const ai = this.fallbackAI;
+    ai.setDifficulty(request.difficulty);
+
+    try {
+      const result = await ai.getBestMove(request.gameState, request.aiColor, {
+        timeLimitMs: request.timeLimitMs,
+        useBook: request.useBook,
+        onProgress: progress => {
+          if (this.pending?.id === id) this.pending.onProgress?.(progress);
+        },
+        shouldStop: () => this.fallbackStop || this.pending?.id !== id
+      });
+      this.handleMessage({ type: 'result', id, result });
+    } catch (error) {
+      this.handleMessage({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+}
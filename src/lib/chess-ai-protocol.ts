@@ -0,0 +1,22 @@
+import { AIMove, AISearchProgress, Difficulty, EndgameProbe, GameState, PieceColor } from '@/types/chess';
+
+// Messages from the page to the AI worker
+export type AIWorkerRequest =
+  | {
+      type: 'search';
+      id: number;
+      gameState: GameState;
+      aiColor: PieceColor;
+      difficulty: Difficulty;
+      timeLimitMs: number;
+      useBook?: boolean;
+    }
+  | { type: 'stop'; id: number }
+  | { type: 'endgame'; id: number; gameState: GameState };
+
+// Messages from the AI worker back to the page, tagged with the search they belong to
+export type AIWorkerResponse =
+  | { type: 'progress'; id: number; progress: AISearchProgress }
+  | { type: 'result'; id: number; result: AIMove }
+  | { type: 'error'; id: number; message: string }
+  | { type: 'endgame'; id: number; probe: EndgameProbe | null };
@@ -1,425 +1,649 @@
 import {
   GameState,
-  Piece,
   Move,
-  Position,
   Difficulty,
   AIMove,
+  AISearchProgress,
   PieceColor,
-  ValidMove,
   PIECE_VALUES
 } from '@/types/chess';
 import { ChessEngine } from './chess-engine';
+import { loadEndgameTables, probeEndgame } from './chess-endgame';
+import { evaluate } from './chess-evaluation';
+import { BookMove, getBookMoves } from './chess-openings';
+import { STRENGTH_PROFILES, StrengthProfile } from './chess-strength';
+import { TranspositionTable } from './chess-transposition';
+import {
+  ChessPosition,
+  EMPTY,
+  FLAG_EN_PASSANT,
+  KING,
+  PAWN,
+  WHITE,
+  isCaptureMove,
+  isOnBoard,
+  moveFlags,
+  moveFrom,
+  movePromotion,
+  moveTo,
+  pieceColor,
+  pieceType,
+  toColorCode,
+  toPieceType,
+  toPosition
+} from './chess-position';
+
+export interface SearchOptions {
+  // Wall-clock budget; the first iteration always completes so a move is returned
+  timeLimitMs?: number;
+  // Node budget, defaulting to the level's
+  nodeLimit?: number;
+  // Deepest iteration to run, capped at the level's depth
+  maxDepth?: number;
+  onProgress?: (progress: AISearchProgress) => void;
+  // Polled with the deadline during the search, so a stop abandons the current depth; like the
+  // time limit it never cuts the first iteration short
+  shouldStop?: () => boolean;
+  // Play from the opening book while the game is in it; on by default
+  useBook?: boolean;
+  // Play perfectly from the endgame tables once few enough pieces remain; on by default
+  useEndgameTables?: boolean;
+}
+
+// Nodes searched between deadline and stop checks
+const DEADLINE_CHECK_INTERVAL = 32;
 
-interface EvaluationFactors {
-  material: number;
-  position: number;
-  mobility: number;
-  safety: number;
-  control: number;
+class SearchBudgetExceeded extends Error {
+  constructor() {
+    super('Search time or node budget reached, or the search was stopped');
+    this.name = 'SearchBudgetExceeded';
+  }
 }
 
+// How long to think: the level's budget, trimmed to a share of the remaining clock
+export function getSearchTimeBudget(
+  difficulty: Difficulty,
+  clockRemainingMs?: number,
+  incrementMs: number = 0
+): number {
+  const budget = STRENGTH_PROFILES[difficulty].timeBudgetMs;
+  if (clockRemainingMs === undefined) return budget;
+
+  return Math.max(50, Math.min(budget, clockRemainingMs / 30 + incrementMs * 0.8));
+}
+
+const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+interface SearchResult {
+  evaluation: number;
+  // Encoded core moves, best first
+  principalVariation: number[];
+}
+
+interface RootResult extends SearchResult {
+  // Exact scores of the root moves within the softmax window of the best
+  scores: Map<number, number>;
+}
+
+export const MATE_SCORE = 10000;
+// Scores beyond this are mates, stored in the table relative to the node rather than the root
+export const MATE_BOUND = MATE_SCORE - 1000;
+
+const toTableScore = (score: number, ply: number): number =>
+  score > MATE_BOUND ? score + ply : score < -MATE_BOUND ? score - ply : score;
+const fromTableScore = (score: number, ply: number): number =>
+  score > MATE_BOUND ? score - ply : score < -MATE_BOUND ? score + ply : score;
+
+// Move ordering tiers: hash move, then captures and promotions by MVV-LVA, then killers,
+// then quiet moves by history score
+const HASH_MOVE_BONUS = 1_000_000;
+const CAPTURE_BONUS = 100_000;
+const KILLER_BONUS = 90_000;
+const HISTORY_LIMIT = 80_000;
+
+// Root moves more than this many temperatures below the best are never picked
+const SOFTMAX_WINDOW = 4;
+
+// Skip quiescence captures that could not lift the score to alpha even with this much to spare
+const DELTA_MARGIN = 2;
+
+const valueOf = (type: number): number => PIECE_VALUES[toPieceType(type)];
+
 export class ChessAI {
   private difficulty: Difficulty;
-  private maxDepth: number;
-  private engine: ChessEngine;
+  private profile: StrengthProfile;
+  private nodes = 0;
+  private deadline = Infinity;
+  private nodeLimit = Infinity;
+  private shouldStop: (() => boolean) | undefined;
+  // Kept across moves so later searches start from what earlier ones learned
+  private readonly table = new TranspositionTable();
+  // Scores are from the AI's side, so the table is only valid while it plays one colour
+  private tableSide = -1;
+  // Two quiet moves per ply that recently caused a cutoff
+  private killers: number[][] = [];
+  // Cutoff credit for quiet moves, indexed by piece code * 128 + destination
+  private readonly history = new Int32Array(16 * 128);
+  // Square of the enemy piece whose replies this search ignores, or -1
+  private overlookedSquare = -1;
 
   constructor(difficulty: Difficulty = 'medium') {
     this.difficulty = difficulty;
-    this.maxDepth = this.getMaxDepth(difficulty);
-    this.engine = null as any; // Will be set when making moves
+    this.profile = STRENGTH_PROFILES[difficulty];
   }
 
-  private getMaxDepth(difficulty: Difficulty): number {
-    switch (difficulty) {
-      case 'easy': return 2;
-      case 'medium': return 3;
-      case 'hard': return 4;
-      case 'expert': return 5;
-      default: return 3;
+  // Iterative deepening up to the level's depth, within the time budget
+  public async getBestMove(
+    gameState: GameState,
+    aiColor: PieceColor,
+    options: SearchOptions = {}
+  ): Promise<AIMove> {
+    // The search makes and unmakes moves on one core position rather than copying game states
+    const position = ChessPosition.fromGameState(gameState);
+    // Repeating a position from earlier in the game can end it in a draw, so the search must see them
+    position.setEarlierPositions(new ChessEngine(gameState).getEarlierPositions());
+    const aiSide = toColorCode(aiColor);
+    const startedAt = Date.now();
+    const timeLimit = options.timeLimitMs ?? this.profile.timeBudgetMs;
+
+    const bookMove = options.useBook === false ? null : this.pickBookMove(position, gameState.moves.length);
+    if (bookMove !== null) {
+      const moves = this.toMoves(gameState, [bookMove]);
+      return {
+        move: moves[0],
+        evaluation: this.evaluatePosition(position, aiSide),
+        depth: 0,
+        principalVariation: moves
+      };
     }
-  }
 
-  public async getBestMove(gameState: GameState, aiColor: PieceColor): Promise<AIMove> {
-    this.engine = new ChessEngine(gameState);
+    // A table still being built is waited for up to the time budget, then searched without
+    const tableMove = options.useEndgameTables === false ? null : await this.pickTableMove(position, timeLimit);
+    if (tableMove !== null) {
+      const moves = this.toMoves(gameState, [tableMove.move]);
+      return {
+        move: moves[0],
+        evaluation: tableMove.evaluation,
+        depth: 0,
+        principalVariation: moves
+      };
+    }
+
+    if (aiSide !== this.tableSide) {
+      this.table.clear();
+      this.tableSide = aiSide;
+    }
+    this.table.newSearch();
+    this.killers = [];
+    // Old history still hints at good moves, but should not outweigh this search's
+    for (let i = 0; i < this.history.length; i++) this.history[i] >>= 1;
+
+    this.nodes = 0;
+    this.overlookedSquare = Math.random() < this.profile.oversightRate ? this.pickOverlookedSquare(position) : -1;
+    let result: RootResult | null = null;
+    let depthReached = 0;
+
+    const maxDepth = Math.min(this.profile.maxDepth, options.maxDepth ?? Infinity);
+    for (let depth = 1; depth <= maxDepth; depth++) {
+      // Depth 1 runs unbounded so there is always a move to play
+      this.deadline = depth === 1 ? Infinity : startedAt + timeLimit;
+      this.nodeLimit = depth === 1 ? Infinity : options.nodeLimit ?? this.profile.nodeBudget;
+      this.shouldStop = depth === 1 ? undefined : options.shouldStop;
+
+      try {
+        result = this.searchRoot(position, depth, aiSide);
+        depthReached = depth;
+      } catch (error) {
+        if (error instanceof SearchBudgetExceeded) break;
+        throw error;
+      }
 
-    // Add thinking delay based on difficulty
-    const thinkingTime = this.getThinkingTime();
-    await new Promise(resolve => setTimeout(resolve, thinkingTime));
+      if (options.onProgress) {
+        options.onProgress({
+          depth,
+          evaluation: result.evaluation,
+          principalVariation: this.toNotation(position, result.principalVariation),
+          nodes: this.nodes,
+          elapsedMs: Date.now() - startedAt
+        });
+      }
+
+      // Let a worker receive stop messages between iterations
+      await yieldToEventLoop();
+      if (options.shouldStop?.() || Date.now() - startedAt >= timeLimit) break;
+    }
 
-    const result = this.minimax(gameState, this.maxDepth, -Infinity, Infinity, true, aiColor);
+    const legalMoves = position.generateLegalMoves();
+    if (legalMoves.length === 0) {
+      throw new Error('No valid moves available');
+    }
 
-    if (!result.move) {
+    let principalVariation = result?.principalVariation ?? [];
+    let evaluation = result?.evaluation ?? 0;
+    if (principalVariation.length === 0) {
       // Fallback to random move if minimax fails
-      const randomMove = this.getRandomMove(gameState, aiColor);
-      return {
-        move: randomMove,
-        evaluation: 0,
-        depth: 0,
-        principalVariation: [randomMove]
-      };
+      principalVariation = [legalMoves[Math.floor(Math.random() * legalMoves.length)]];
+    }
+
+    // Weaker levels choose among the near-best moves rather than always the best
+    const chosen = result ? this.pickSoftmaxMove(result.scores) : null;
+    if (result && chosen !== null && chosen !== principalVariation[0]) {
+      principalVariation = [chosen];
+      evaluation = result.scores.get(chosen)!;
+    }
+
+    const moves = this.toMoves(gameState, principalVariation);
+    return {
+      move: moves[0],
+      evaluation,
+      depth: depthReached,
+      principalVariation: moves
+    };
+  }
+
+  // A random enemy piece other than the king, whose replies the search will not consider
+  private pickOverlookedSquare(position: ChessPosition): number {
+    const squares: number[] = [];
+    for (let square = 0; square < 128; square++) {
+      const piece = position.pieceAt(square);
+      if (isOnBoard(square) && piece !== EMPTY && pieceColor(piece) !== position.sideToMove &&
+          pieceType(piece) !== KING) {
+        squares.push(square);
+      }
+    }
+    return squares.length > 0 ? squares[Math.floor(Math.random() * squares.length)] : -1;
+  }
+
+  // Picks a root move with probability exp((score - best) / temperature), or null at temperature 0
+  private pickSoftmaxMove(scores: Map<number, number>): number | null {
+    const { temperature } = this.profile;
+    if (temperature <= 0 || scores.size < 2) return null;
+
+    const best = Math.max(...scores.values());
+    const moves = [...scores.keys()];
+    const weights = moves.map(move => Math.exp((scores.get(move)! - best) / temperature));
+    let pick = Math.random() * weights.reduce((sum, weight) => sum + weight, 0);
+    for (let i = 0; i < moves.length; i++) {
+      pick -= weights[i];
+      if (pick < 0) return moves[i];
+    }
+    return moves[moves.length - 1];
+  }
+
+  // Ends the current iteration once it runs out of nodes or time, or is asked to stop
+  private checkBudget(): void {
+    if (++this.nodes > this.nodeLimit ||
+        (this.nodes % DEADLINE_CHECK_INTERVAL === 0 && (Date.now() > this.deadline || this.shouldStop?.()))) {
+      throw new SearchBudgetExceeded();
+    }
+  }
+
+  // Searches every root move, keeping exact scores for those within the level's softmax window
+  // of the best; a temperature of 0 makes this a plain alpha-beta root
+  private searchRoot(position: ChessPosition, depth: number, aiSide: number): RootResult {
+    const moves = position.generateLegalMoves();
+    const scores = new Map<number, number>();
+    if (moves.length === 0) {
+      return { evaluation: position.inCheck() ? -MATE_SCORE : 0, principalVariation: [], scores };
+    }
+
+    const window = this.profile.temperature * SOFTMAX_WINDOW;
+    const entry = this.table.probe(position);
+    let bestEvaluation = -Infinity;
+    let principalVariation: number[] = [];
+
+    for (const move of this.sortMoves(position, moves, entry?.bestMove ?? 0)) {
+      const alpha = bestEvaluation - window;
+      position.makeMove(move);
+      let result: SearchResult;
+      try {
+        result = this.minimax(position, depth - 1, alpha, Infinity, false, aiSide);
+      } finally {
+        position.unmakeMove();
+      }
+
+      // Anything at or below alpha is only an upper bound, and too weak to be picked
+      if (result.evaluation > alpha) scores.set(move, result.evaluation);
+      if (result.evaluation > bestEvaluation) {
+        bestEvaluation = result.evaluation;
+        principalVariation = [move, ...result.principalVariation];
+      }
+    }
+
+    for (const [move, score] of scores) {
+      if (score < bestEvaluation - window) scores.delete(move);
+    }
+
+    // A search that overlooked a piece must not leave its scores behind for later ones
+    if (this.overlookedSquare < 0) {
+      this.table.store(position, {
+        depth,
+        score: toTableScore(bestEvaluation, position.ply),
+        bound: 'exact',
+        bestMove: principalVariation[0] ?? 0
+      });
+    }
+
+    return { evaluation: bestEvaluation, principalVariation, scores };
+  }
+
+  // A weighted random book move, or null once the game is out of book or past the level's book depth
+  private pickBookMove(position: ChessPosition, ply: number): number | null {
+    const { maxPly, exponent } = this.profile.book;
+    const bookMoves: BookMove[] = ply < maxPly ? getBookMoves(position) : [];
+    if (bookMoves.length === 0) return null;
+
+    const weights = bookMoves.map(bookMove => bookMove.weight ** exponent);
+    let pick = Math.random() * weights.reduce((sum, weight) => sum + weight, 0);
+    for (let i = 0; i < bookMoves.length; i++) {
+      pick -= weights[i];
+      if (pick < 0) return bookMoves[i].move;
     }
+    return bookMoves[bookMoves.length - 1].move;
+  }
 
-    return result;
+  // The move with the best exact result: the fastest win, else a draw, else the slowest loss
+  private async pickTableMove(
+    position: ChessPosition,
+    waitMs: number
+  ): Promise<{ move: number; evaluation: number } | null> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const loaded = await Promise.race([
+      loadEndgameTables(position),
+      new Promise<false>(resolve => { timer = setTimeout(() => resolve(false), waitMs); })
+    ]);
+    clearTimeout(timer);
+    if (!loaded) return null;
+
+    let best: { move: number; evaluation: number } | null = null;
+    let unknown = false;
+
+    for (const move of this.sortMoves(position, position.generateLegalMoves())) {
+      position.makeMove(move);
+      const probe = probeEndgame(position);
+      position.unmakeMove();
+
+      // Replies that allow en passant are not in the tables
+      if (!probe) {
+        unknown = true;
+        continue;
+      }
+
+      const plies = (probe.distanceToMate ?? 0) + 1;
+      const evaluation = probe.outcome === 'draw' ? 0
+        : probe.outcome === 'loss' ? MATE_SCORE - plies : -(MATE_SCORE - plies);
+      if (!best || evaluation > best.evaluation) best = { move, evaluation };
+    }
+
+    // A win is worth playing even if an unprobed move might have won faster
+    return best && (!unknown || best.evaluation > MATE_BOUND) ? best : null;
   }
 
   private minimax(
-    gameState: GameState,
+    position: ChessPosition,
     depth: number,
     alpha: number,
     beta: number,
     maximizingPlayer: boolean,
-    aiColor: PieceColor
-  ): AIMove {
-    const engine = new ChessEngine({ ...gameState });
+    aiSide: number
+  ): SearchResult {
+    this.checkBudget();
+
+    // Repetitions inside the search and dead positions are draws
+    if (position.ply > 0 && (position.isRepetition() || position.halfmoveClock >= 100 ||
+        position.isInsufficientMaterial())) {
+      return { evaluation: 0, principalVariation: [] };
+    }
 
-    // Base case: if depth is 0 or game is over
-    if (depth === 0 || engine.getGameState().status !== 'active') {
-      const evaluation = this.evaluatePosition(gameState, aiColor);
-      return {
-        move: null as any,
-        evaluation,
-        depth: this.maxDepth - depth,
-        principalVariation: []
-      };
+    // A deep enough stored result settles the node, or at least narrows the window.
+    // Stored results would see the overlooked piece, so the replies to the root skip them.
+    const overlooking = this.isOverlooking(position);
+    const entry = overlooking ? null : this.table.probe(position);
+    if (entry && entry.depth >= depth && position.ply > 0) {
+      const score = fromTableScore(entry.score, position.ply);
+      if (entry.bound === 'exact' ||
+          (entry.bound === 'lower' && score >= beta) ||
+          (entry.bound === 'upper' && score <= alpha)) {
+        return { evaluation: score, principalVariation: this.readPrincipalVariation(position, depth) };
+      }
     }
 
-    const currentColor = gameState.currentPlayer;
-    const allPossibleMoves = this.getAllPossibleMoves(gameState, currentColor);
+    const alphaOriginal = alpha;
+    const betaOriginal = beta;
+    const allPossibleMoves = position.generateLegalMoves();
 
     if (allPossibleMoves.length === 0) {
-      const evaluation = engine.isInCheck(currentColor) ? -10000 : 0; // Checkmate or stalemate
+      // Checkmate or stalemate; nearer mates score higher
+      const evaluation = position.inCheck() ? -(MATE_SCORE - position.ply) : 0;
       return {
-        move: null as any,
         evaluation: maximizingPlayer ? evaluation : -evaluation,
-        depth: this.maxDepth - depth,
         principalVariation: []
       };
     }
 
+    if (depth === 0) {
+      return this.quiescence(position, alpha, beta, maximizingPlayer, aiSide);
+    }
+
     // Sort moves for better alpha-beta pruning
-    const sortedMoves = this.sortMoves(allPossibleMoves, gameState);
-    let bestMove: Move | null = null;
+    // The stored best move, from a shallower search or the previous iteration's PV, goes first
+    const searchedMoves = this.withoutOverlooked(position, allPossibleMoves);
+    const sortedMoves = this.sortMoves(position, searchedMoves, entry?.bestMove ?? 0);
     let bestEvaluation = maximizingPlayer ? -Infinity : Infinity;
-    const principalVariation: Move[] = [];
+    let principalVariation: number[] = [];
 
     for (const move of sortedMoves) {
-      // Make the move
-      const newGameState = this.makeMove(gameState, move);
-
-      // Recursively evaluate
-      const result = this.minimax(
-        newGameState,
-        depth - 1,
-        alpha,
-        beta,
-        !maximizingPlayer,
-        aiColor
-      );
+      position.makeMove(move);
+      let result: SearchResult;
+      try {
+        result = this.minimax(position, depth - 1, alpha, beta, !maximizingPlayer, aiSide);
+      } finally {
+        // An exhausted budget unwinds through here, so the position is always restored
+        position.unmakeMove();
+      }
 
       if (maximizingPlayer) {
         if (result.evaluation > bestEvaluation) {
           bestEvaluation = result.evaluation;
-          bestMove = move;
-          principalVariation.splice(0, principalVariation.length, move, ...result.principalVariation);
+          principalVariation = [move, ...result.principalVariation];
         }
         alpha = Math.max(alpha, result.evaluation);
       } else {
         if (result.evaluation < bestEvaluation) {
           bestEvaluation = result.evaluation;
-          bestMove = move;
-          principalVariation.splice(0, principalVariation.length, move, ...result.principalVariation);
+          principalVariation = [move, ...result.principalVariation];
         }
         beta = Math.min(beta, result.evaluation);
       }
 
       // Alpha-beta pruning
       if (beta <= alpha) {
+        this.recordCutoff(position, move, depth);
         break;
       }
     }
 
-    // Add some randomness for easier difficulties
-    if (this.difficulty === 'easy' && Math.random() < 0.3) {
-      const randomMove = sortedMoves[Math.floor(Math.random() * Math.min(3, sortedMoves.length))];
-      bestMove = randomMove;
-    } else if (this.difficulty === 'medium' && Math.random() < 0.15) {
-      const randomMove = sortedMoves[Math.floor(Math.random() * Math.min(2, sortedMoves.length))];
-      bestMove = randomMove;
+    if (!overlooking) {
+      this.table.store(position, {
+        depth,
+        score: toTableScore(bestEvaluation, position.ply),
+        bound: bestEvaluation <= alphaOriginal ? 'upper' : bestEvaluation >= betaOriginal ? 'lower' : 'exact',
+        bestMove: principalVariation[0] ?? 0
+      });
     }
 
-    return {
-      move: bestMove!,
-      evaluation: bestEvaluation,
-      depth: this.maxDepth - depth,
-      principalVariation
-    };
+    return { evaluation: bestEvaluation, principalVariation };
   }
 
-  private evaluatePosition(gameState: GameState, aiColor: PieceColor): number {
-    const factors = this.calculateEvaluationFactors(gameState, aiColor);
+  // Follows stored best moves from the position, stopping at anything illegal or repeated
+  private readPrincipalVariation(position: ChessPosition, maxLength: number): number[] {
+    const line: number[] = [];
 
-    const weights = {
-      material: 1.0,
-      position: 0.3,
-      mobility: 0.2,
-      safety: 0.4,
-      control: 0.1
-    };
-
-    return (
-      factors.material * weights.material +
-      factors.position * weights.position +
-      factors.mobility * weights.mobility +
-      factors.safety * weights.safety +
-      factors.control * weights.control
-    );
-  }
+    while (line.length < maxLength) {
+      const bestMove = this.table.probe(position)?.bestMove;
+      if (!bestMove || !position.generateLegalMoves().includes(bestMove)) break;
 
-  private calculateEvaluationFactors(gameState: GameState, aiColor: PieceColor): EvaluationFactors {
-    const engine = new ChessEngine({ ...gameState });
-
-    let material = 0;
-    let position = 0;
-    let mobility = 0;
-    let safety = 0;
-    let control = 0;
-
-    // Material evaluation
-    for (let row = 0; row < 8; row++) {
-      for (let col = 0; col < 8; col++) {
-        const piece = gameState.board[row][col];
-        if (piece) {
-          const value = PIECE_VALUES[piece.type];
-          const multiplier = piece.color === aiColor ? 1 : -1;
-          material += value * multiplier;
-
-          // Position evaluation (piece-square tables simplified)
-          const positionValue = this.getPiecePositionValue(piece, { row, col });
-          position += positionValue * multiplier * 0.1;
-
-          // Mobility evaluation
-          const validMoves = engine.getValidMoves(piece);
-          mobility += validMoves.length * multiplier * 0.1;
-        }
-      }
+      line.push(bestMove);
+      position.makeMove(bestMove);
+      if (position.isRepetition()) break;
     }
+    for (let i = 0; i < line.length; i++) position.unmakeMove();
 
-    // King safety
-    const aiKing = this.findKing(gameState, aiColor);
-    const opponentKing = this.findKing(gameState, aiColor === 'white' ? 'black' : 'white');
+    return line;
+  }
 
-    if (aiKing) {
-      safety += this.evaluateKingSafety(gameState, aiKing, aiColor) * 10;
-    }
+  private evaluatePosition(position: ChessPosition, aiSide: number): number {
+    const evaluation = evaluate(position);
+    return aiSide === WHITE ? evaluation : -evaluation;
+  }
 
-    if (opponentKing) {
-      safety -= this.evaluateKingSafety(gameState, opponentKing, aiColor === 'white' ? 'black' : 'white') * 10;
-    }
+  // Resolves captures and promotions past the horizon so a line never ends mid-exchange
+  private quiescence(
+    position: ChessPosition,
+    alpha: number,
+    beta: number,
+    maximizingPlayer: boolean,
+    aiSide: number
+  ): SearchResult {
+    this.checkBudget();
 
-    // Center control
-    const centerSquares = [
-      { row: 3, col: 3 }, { row: 3, col: 4 },
-      { row: 4, col: 3 }, { row: 4, col: 4 }
-    ];
+    // In check there is no standing pat: every evasion is searched
+    const inCheck = position.inCheck();
+    const moves = position.generateLegalMoves(!inCheck);
 
-    for (const square of centerSquares) {
-      const piece = gameState.board[square.row][square.col];
-      if (piece) {
-        control += (piece.color === aiColor ? 1 : -1) * 0.5;
-      }
+    if (inCheck && moves.length === 0) {
+      const evaluation = -(MATE_SCORE - position.ply);
+      return { evaluation: maximizingPlayer ? evaluation : -evaluation, principalVariation: [] };
     }
 
-    return { material, position, mobility, safety, control };
-  }
-
-  private getPiecePositionValue(piece: Piece, position: Position): number {
-    // Simplified piece-square tables
-    const { row, col } = position;
-    const centerDistance = Math.abs(3.5 - row) + Math.abs(3.5 - col);
-
-    switch (piece.type) {
-      case 'pawn':
-        // Pawns advance toward promotion
-        return piece.color === 'white' ? (7 - row) : row;
-
-      case 'knight':
-      case 'bishop':
-        // Knights and bishops prefer center
-        return 4 - centerDistance * 0.5;
-
-      case 'rook':
-        // Rooks prefer open files and ranks
-        return this.isOpenFile(position, piece.color) ? 2 : 0;
-
-      case 'queen':
-        // Queens prefer center with some mobility
-        return 2 - centerDistance * 0.3;
-
-      case 'king':
-        // King safety depends on game phase
-        const isEndgame = this.isEndgame();
-        if (isEndgame) {
-          return 2 - centerDistance * 0.5; // King active in endgame
-        } else {
-          return centerDistance * 0.5; // King seeks safety in middlegame
-        }
+    // Stand pat: the side to move can usually decline every capture
+    const standPat = this.evaluatePosition(position, aiSide);
+    let bestEvaluation = inCheck ? (maximizingPlayer ? -Infinity : Infinity) : standPat;
+    let principalVariation: number[] = [];
 
-      default:
-        return 0;
+    if (!inCheck) {
+      if (maximizingPlayer) {
+        if (standPat >= beta) return { evaluation: standPat, principalVariation };
+        alpha = Math.max(alpha, standPat);
+      } else {
+        if (standPat <= alpha) return { evaluation: standPat, principalVariation };
+        beta = Math.min(beta, standPat);
+      }
     }
-  }
 
-  private evaluateKingSafety(gameState: GameState, king: Piece, color: PieceColor): number {
-    const engine = new ChessEngine({ ...gameState });
-
-    // Basic king safety: fewer attacking pieces nearby = safer
-    let safety = 0;
-    const kingPos = king.position;
-
-    // Check squares around king
-    for (let deltaRow = -2; deltaRow <= 2; deltaRow++) {
-      for (let deltaCol = -2; deltaCol <= 2; deltaCol++) {
-        const checkPos = {
-          row: kingPos.row + deltaRow,
-          col: kingPos.col + deltaCol
-        };
-
-        if (this.isValidPosition(checkPos)) {
-          const distance = Math.abs(deltaRow) + Math.abs(deltaCol);
-          const weight = distance === 1 ? 3 : distance === 2 ? 1 : 0.5;
-
-          if (engine.isInCheck && engine.isInCheck(color)) {
-            safety -= 5; // Heavy penalty for being in check
-          }
-
-          // Penalty for exposed king
-          const piece = gameState.board[checkPos.row][checkPos.col];
-          if (!piece || piece.color !== color) {
-            safety -= weight * 0.5;
-          }
-        }
+    for (const move of this.sortMoves(position, this.withoutOverlooked(position, moves))) {
+      // Delta pruning: even winning the victim outright would not reach the window
+      if (!inCheck && !movePromotion(move)) {
+        const gain = valueOf(this.capturedType(position, move)) + DELTA_MARGIN;
+        if (maximizingPlayer ? standPat + gain <= alpha : standPat - gain >= beta) continue;
       }
-    }
 
-    return safety;
-  }
+      position.makeMove(move);
+      let result: SearchResult;
+      try {
+        result = this.quiescence(position, alpha, beta, !maximizingPlayer, aiSide);
+      } finally {
+        position.unmakeMove();
+      }
 
-  private getAllPossibleMoves(gameState: GameState, color: PieceColor): Move[] {
-    const engine = new ChessEngine({ ...gameState });
-    const moves: Move[] = [];
-
-    for (let row = 0; row < 8; row++) {
-      for (let col = 0; col < 8; col++) {
-        const piece = gameState.board[row][col];
-        if (piece && piece.color === color) {
-          const validMoves = engine.getValidMoves(piece);
-
-          for (const validMove of validMoves) {
-            try {
-              // Create a temporary move to validate
-              const move = engine.makeMove(piece, validMove.to);
-              moves.push(move);
-
-              // Undo the move (restore the game state)
-              // In a real implementation, you'd want a proper undo mechanism
-            } catch (error) {
-              // Skip invalid moves
-              continue;
-            }
-          }
-        }
+      if (maximizingPlayer ? result.evaluation > bestEvaluation : result.evaluation < bestEvaluation) {
+        bestEvaluation = result.evaluation;
+        principalVariation = [move, ...result.principalVariation];
       }
+      if (maximizingPlayer) {
+        alpha = Math.max(alpha, result.evaluation);
+      } else {
+        beta = Math.min(beta, result.evaluation);
+      }
+
+      if (beta <= alpha) break;
     }
 
-    return moves;
+    return { evaluation: bestEvaluation, principalVariation };
   }
 
-  private sortMoves(moves: Move[], gameState: GameState): Move[] {
-    return moves.sort((a, b) => {
-      let scoreA = 0;
-      let scoreB = 0;
-
-      // Prioritize captures
-      if (a.capturedPiece) scoreA += PIECE_VALUES[a.capturedPiece.type] * 10;
-      if (b.capturedPiece) scoreB += PIECE_VALUES[b.capturedPiece.type] * 10;
-
-      // Prioritize checks
-      if (a.isCheck) scoreA += 50;
-      if (b.isCheck) scoreB += 50;
-
-      // Prioritize checkmates
-      if (a.isCheckmate) scoreA += 1000;
-      if (b.isCheckmate) scoreB += 1000;
-
-      // Prioritize central moves
-      const aCenterDistance = Math.abs(3.5 - a.to.row) + Math.abs(3.5 - a.to.col);
-      const bCenterDistance = Math.abs(3.5 - b.to.row) + Math.abs(3.5 - b.to.col);
-      scoreA -= aCenterDistance;
-      scoreB -= bCenterDistance;
-
-      return scoreB - scoreA;
-    });
+  // Only the opponent's immediate replies miss the overlooked piece; deeper lines see it again
+  private isOverlooking(position: ChessPosition): boolean {
+    return this.overlookedSquare >= 0 && position.ply === 1;
   }
 
-  private makeMove(gameState: GameState, move: Move): GameState {
-    // Create a deep copy of the game state
-    const newGameState: GameState = JSON.parse(JSON.stringify(gameState));
+  // Drops the overlooked piece's moves, unless they are the only ones
+  private withoutOverlooked(position: ChessPosition, moves: number[]): number[] {
+    if (!this.isOverlooking(position)) return moves;
 
-    // Apply the move to the new state
-    const engine = new ChessEngine(newGameState);
-    engine.makeMove(move.piece, move.to);
+    const seen = moves.filter(move => moveFrom(move) !== this.overlookedSquare);
+    return seen.length > 0 ? seen : moves;
+  }
 
-    return engine.getGameState();
+  private capturedType(position: ChessPosition, move: number): number {
+    return moveFlags(move) & FLAG_EN_PASSANT ? PAWN : pieceType(position.pieceAt(moveTo(move)));
   }
 
-  private getRandomMove(gameState: GameState, color: PieceColor): Move {
-    const allMoves = this.getAllPossibleMoves(gameState, color);
-    if (allMoves.length === 0) {
-      throw new Error('No valid moves available');
+  // A quiet move that refuted the node becomes a killer for its ply and earns history credit
+  private recordCutoff(position: ChessPosition, move: number, depth: number): void {
+    if (isCaptureMove(move) || movePromotion(move)) return;
+
+    const killers = this.killers[position.ply] ??= [];
+    if (killers[0] !== move) {
+      killers[1] = killers[0];
+      killers[0] = move;
     }
 
-    return allMoves[Math.floor(Math.random() * allMoves.length)];
+    const index = position.pieceAt(moveFrom(move)) * 128 + moveTo(move);
+    this.history[index] = Math.min(HISTORY_LIMIT, this.history[index] + depth * depth);
   }
 
-  private findKing(gameState: GameState, color: PieceColor): Piece | null {
-    for (let row = 0; row < 8; row++) {
-      for (let col = 0; col < 8; col++) {
-        const piece = gameState.board[row][col];
-        if (piece && piece.type === 'king' && piece.color === color) {
-          return piece;
-        }
+  private sortMoves(position: ChessPosition, moves: number[], hashMove: number = 0): number[] {
+    const killers = this.killers[position.ply] ?? [];
+    const scores = new Map<number, number>();
+
+    for (const move of moves) {
+      let score: number;
+
+      if (move === hashMove) {
+        score = HASH_MOVE_BONUS;
+      } else if (isCaptureMove(move) || movePromotion(move)) {
+        // Most valuable victim first, least valuable attacker breaking ties
+        const victim = isCaptureMove(move) ? valueOf(this.capturedType(position, move)) : 0;
+        const promotion = movePromotion(move) ? valueOf(movePromotion(move)) : 0;
+        const attacker = valueOf(pieceType(position.pieceAt(moveFrom(move))));
+        score = CAPTURE_BONUS + (victim + promotion) * 100 - attacker;
+      } else if (move === killers[0] || move === killers[1]) {
+        score = KILLER_BONUS + (move === killers[0] ? 1 : 0);
+      } else {
+        score = this.history[position.pieceAt(moveFrom(move)) * 128 + moveTo(move)];
       }
+
+      scores.set(move, score);
     }
-    return null;
-  }
 
-  private isValidPosition(position: Position): boolean {
-    return position.row >= 0 && position.row < 8 &&
-           position.col >= 0 && position.col < 8;
+    return [...moves].sort((a, b) => scores.get(b)! - scores.get(a)!);
   }
 
-  private isOpenFile(position: Position, color: PieceColor): boolean {
-    // Simplified: just check if there are fewer pieces on the file
-    // In a real implementation, you'd check for truly open files
-    return Math.random() > 0.5; // Placeholder
-  }
+  // SAN for a line of core moves, played out and taken back on the position
+  private toNotation(position: ChessPosition, line: number[]): string[] {
+    const notation: string[] = [];
+
+    for (const move of line) {
+      notation.push(position.toSan(move));
+      position.makeMove(move);
+    }
+    for (let i = 0; i < line.length; i++) position.unmakeMove();
 
-  private isEndgame(): boolean {
-    // Simplified endgame detection
-    // In reality, you'd count material and pieces
-    return Math.random() > 0.7; // Placeholder
+    return notation;
   }
 
-  private getThinkingTime(): number {
-    // Simulate thinking time based on difficulty
-    switch (this.difficulty) {
-      case 'easy': return Math.random() * 500 + 200; // 200-700ms
-      case 'medium': return Math.random() * 1000 + 500; // 500-1500ms
-      case 'hard': return Math.random() * 2000 + 1000; // 1-3s
-      case 'expert': return Math.random() * 3000 + 2000; // 2-5s
-      default: return 1000;
-    }
+  // Full UI moves for a line, played through ChessEngine on a copy of the game
+  private toMoves(gameState: GameState, line: number[]): Move[] {
+    const copy: GameState = JSON.parse(JSON.stringify(gameState));
+    const engine = new ChessEngine(copy);
+
+    return line.map(move => {
+      const from = toPosition(moveFrom(move));
+      const piece = copy.board[from.row][from.col]!;
+      const promotion = movePromotion(move) ? toPieceType(movePromotion(move)) : undefined;
+      return engine.makeMove(piece, toPosition(moveTo(move)), promotion);
+    });
   }
 
   public getDifficulty(): Difficulty {
@@ -428,6 +652,6 @@ export class ChessAI {
 
   public setDifficulty(difficulty: Difficulty): void {
     this.difficulty = difficulty;
-    this.maxDepth = this.getMaxDepth(difficulty);
+    this.profile = STRENGTH_PROFILES[difficulty];
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,156 @@
+import {
+  AIMove,
+  Difficulty,
+  GameAnalysis,
+  GameSettings,
+  GameState,
+  Move,
+  MoveAnalysis,
+  MoveClassification,
+  PieceColor
+} from '@/types/chess';
+import { MATE_BOUND, MATE_SCORE } from './chess-ai';
+import { ChessEngine } from './chess-engine';
+import { ChessPosition } from './chess-position';
+import { replayGame } from './chess-replay';
+
+// Analysis searches every position at the strongest level, out of the book
+export const ANALYSIS_DIFFICULTY: Difficulty = 'expert';
+export const ANALYSIS_TIME_LIMIT_MS = 1000;
+
+// Drops in the mover's winning chances, in percentage points, that make a move weak
+const INACCURACY_DROP = 10;
+const MISTAKE_DROP = 20;
+const BLUNDER_DROP = 30;
+// Evaluations beyond this many pawns, mates included, count as won
+const WINNING_CHANCES_CAP = 10;
+
+export const CLASSIFICATION_SYMBOLS: Record<MoveClassification, string> = {
+  'best': '',
+  'good': '',
+  'inaccuracy': '?!',
+  'mistake': '?',
+  'blunder': '??',
+  'missed-mate': '?'
+};
+
+export const CLASSIFICATION_LABELS: Record<MoveClassification, string> = {
+  'best': 'Best move',
+  'good': 'Good move',
+  'inaccuracy': 'Inaccuracy',
+  'mistake': 'Mistake',
+  'blunder': 'Blunder',
+  'missed-mate': 'Missed mate'
+};
+
+// Searches a position for the side to move, as ChessAIClient.search does
+export type PositionSearch = (gameState: GameState) => Promise<AIMove>;
+
+interface PositionEvaluation {
+  // Pawns from the side to move's point of view
+  evaluation: number;
+  // Absent once the game is over on the board
+  bestMove?: Move;
+}
+
+export const isMateScore = (evaluation: number): boolean => Math.abs(evaluation) > MATE_BOUND;
+
+// Pawns, or moves to mate, from white's point of view
+export function formatAnalysisEvaluation(evaluation: number): string {
+  if (isMateScore(evaluation)) {
+    const movesToMate = Math.ceil((MATE_SCORE - Math.abs(evaluation)) / 2);
+    return movesToMate === 0 ? '#' : `${evaluation > 0 ? '+' : '-'}M${movesToMate}`;
+  }
+  return `${evaluation >= 0 ? '+' : ''}${evaluation.toFixed(2)}`;
+}
+
+// Chance of winning from 0 to 100 for an evaluation from the side's own point of view,
+// on the logistic curve Lichess fitted to rated games
+export function winningChances(evaluation: number): number {
+  const capped = Math.max(-WINNING_CHANCES_CAP, Math.min(WINNING_CHANCES_CAP, evaluation));
+  return 50 + 50 * (2 / (1 + Math.exp(-0.368208 * capped)) - 1);
+}
+
+// Lichess's per-move accuracy for a drop in winning chances
+export function moveAccuracy(drop: number): number {
+  return Math.max(0, Math.min(100, 103.1668 * Math.exp(-0.04354 * Math.max(0, drop)) - 3.1669));
+}
+
+// Both evaluations are from the mover's point of view: the best the position offered,
+// and what was left after the move played
+export function classifyMove(bestEvaluation: number, evaluationAfter: number, isBest: boolean): MoveClassification {
+  if (isBest) return 'best';
+  if (bestEvaluation > MATE_BOUND && evaluationAfter <= MATE_BOUND) return 'missed-mate';
+
+  const drop = winningChances(bestEvaluation) - winningChances(evaluationAfter);
+  if (drop >= BLUNDER_DROP) return 'blunder';
+  if (drop >= MISTAKE_DROP) return 'mistake';
+  if (drop >= INACCURACY_DROP) return 'inaccuracy';
+  return 'good';
+}
+
+const isSameMove = (a: Move, b: Move): boolean =>
+  a.from.row === b.from.row && a.from.col === b.from.col &&
+  a.to.row === b.to.row && a.to.col === b.to.col &&
+  a.promotionPiece === b.promotionPiece;
+
+async function evaluatePosition(gameState: GameState, search: PositionSearch): Promise<PositionEvaluation> {
+  const position = ChessPosition.fromGameState(gameState);
+  if (!position.hasLegalMoves()) {
+    return { evaluation: position.inCheck() ? -MATE_SCORE : 0 };
+  }
+  // Repetitions, the fifty-move rule and dead positions end the game whatever the search thinks
+  if (gameState.status === 'draw') return { evaluation: 0 };
+
+  const result = await search(gameState);
+  return { evaluation: result.evaluation, bestMove: result.move };
+}
+
+// Searches the position before and after every move, then grades each move by how much of
+// the mover's winning chances it gave away. Rejects with whatever the search rejects with,
+// so cancelling the search abandons the analysis.
+export async function analyzeGame(
+  moves: Move[],
+  gameSettings: GameSettings,
+  initialFen: string | undefined,
+  search: PositionSearch,
+  onProgress?: (analyzedPositions: number, totalPositions: number) => void
+): Promise<GameAnalysis> {
+  const engine = new ChessEngine(replayGame(moves, gameSettings, initialFen));
+  const evaluations: PositionEvaluation[] = [];
+
+  for (let ply = 0; ply <= moves.length; ply++) {
+    evaluations.push(await evaluatePosition(engine.getGameStateAtPly(ply), search));
+    onProgress?.(ply + 1, moves.length + 1);
+  }
+
+  const accuracies: Record<PieceColor, number[]> = { white: [], black: [] };
+  const analyzed = moves.map((move, index): MoveAnalysis => {
+    const before = evaluations[index];
+    const after = -evaluations[index + 1].evaluation;
+    const color = move.piece.color;
+    const fromWhite = (evaluation: number) => (color === 'white' ? evaluation : -evaluation);
+    const isBest = !!before.bestMove && isSameMove(before.bestMove, move);
+
+    // The engine's own choice loses nothing, whatever the next search makes of it
+    const accuracy = isBest ? 100 : moveAccuracy(winningChances(before.evaluation) - winningChances(after));
+    accuracies[color].push(accuracy);
+
+    return {
+      evaluationBefore: fromWhite(before.evaluation),
+      evaluationAfter: fromWhite(after),
+      bestMove: before.bestMove?.notation ?? move.notation,
+      classification: classifyMove(before.evaluation, after, isBest),
+      accuracy
+    };
+  });
+
+  const average = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 100;
+
+  return {
+    moves: analyzed,
+    accuracy: { white: average(accuracies.white), black: average(accuracies.black) },
+    analyzedAt: new Date()
+  };
+}
@@ -0,0 +1,160 @@
+import { ClockState, DrawReason, GameState, GameStatus, Move, PieceColor, TimeControl } from '@/types/chess';
+import { ChessEngine } from './chess-engine';
+
+export const CLOCK_TICK_MS = 100;
+export const LOW_TIME_MS = 20_000;
+
+const opposite = (color: PieceColor): PieceColor => (color === 'white' ? 'black' : 'white');
+
+export function createClock(timeControl?: TimeControl, now: number = Date.now()): ClockState | undefined {
+  if (!timeControl) return undefined;
+
+  const initial = timeControl.minutes * 60_000;
+  return {
+    remaining: { white: initial, black: initial },
+    runningSince: now
+  };
+}
+
+const getDelayMs = (timeControl?: TimeControl): number =>
+  timeControl?.delayMode && timeControl.delay ? timeControl.delay * 1000 : 0;
+
+// Time the running side has used so far, after any delay is taken into account
+function getChargedTime(clock: ClockState, timeControl: TimeControl | undefined, now: number): number {
+  if (clock.runningSince === null) return 0;
+
+  const elapsed = Math.max(0, now - clock.runningSince);
+  // Simple delay holds the clock still; Bronstein runs it and refunds up to the delay afterwards
+  return timeControl?.delayMode === 'simple'
+    ? Math.max(0, elapsed - getDelayMs(timeControl))
+    : elapsed;
+}
+
+export function getRemainingTime(
+  clock: ClockState,
+  color: PieceColor,
+  activeColor: PieceColor,
+  timeControl: TimeControl | undefined,
+  now: number = Date.now()
+): number {
+  if (color !== activeColor) return clock.remaining[color];
+  return Math.max(0, clock.remaining[color] - getChargedTime(clock, timeControl, now));
+}
+
+export function isFlagged(gameState: GameState, now: number = Date.now()): boolean {
+  const { clock, currentPlayer, gameSettings } = gameState;
+  if (!clock || clock.runningSince === null) return false;
+
+  return clock.remaining[currentPlayer] - getChargedTime(clock, gameSettings.timeControl, now) <= 0;
+}
+
+// Ends the active side's turn on the clock without any increment, leaving it running
+export function chargeClock(
+  clock: ClockState,
+  activeColor: PieceColor,
+  timeControl: TimeControl | undefined,
+  now: number = Date.now()
+): ClockState {
+  if (clock.runningSince === null) return clock;
+
+  const elapsed = Math.max(0, now - clock.runningSince);
+  let remaining = clock.remaining[activeColor] - getChargedTime(clock, timeControl, now);
+  if (timeControl?.delayMode === 'bronstein') {
+    remaining += Math.min(elapsed, getDelayMs(timeControl));
+  }
+
+  return {
+    remaining: { ...clock.remaining, [activeColor]: Math.max(0, remaining) },
+    runningSince: now
+  };
+}
+
+// Called when mover completes a move: charge the turn, then add the Fischer increment
+export function punchClock(
+  clock: ClockState,
+  mover: PieceColor,
+  timeControl: TimeControl | undefined,
+  now: number = Date.now()
+): ClockState {
+  const charged = chargeClock(clock, mover, timeControl, now);
+  const increment = (timeControl?.increment ?? 0) * 1000;
+
+  return {
+    ...charged,
+    remaining: { ...charged.remaining, [mover]: charged.remaining[mover] + increment }
+  };
+}
+
+export function stopClock(
+  clock: ClockState,
+  activeColor: PieceColor,
+  timeControl: TimeControl | undefined,
+  now: number = Date.now()
+): ClockState {
+  return { ...chargeClock(clock, activeColor, timeControl, now), runningSince: null };
+}
+
+export function resumeClock(clock: ClockState, now: number = Date.now()): ClockState {
+  return { ...clock, runningSince: now };
+}
+
+// Punch the mover's clock for a move the engine has just played on state
+export function recordMoveOnClock(state: GameState, move: Move, now: number = Date.now()): GameState {
+  if (!state.clock) return state;
+
+  const clock = punchClock(state.clock, move.piece.color, state.gameSettings.timeControl, now);
+  move.clockRemaining = clock.remaining[move.piece.color];
+
+  const isOver = state.status !== 'active' && state.status !== 'check';
+  return { ...state, clock: isOver ? { ...clock, runningSince: null } : clock };
+}
+
+// Charge the side to move before a takeback, restarting a clock the game end had stopped
+export function settleClockForTakeback(state: GameState, now: number = Date.now()): void {
+  if (!state.clock) return;
+
+  state.clock = state.clock.runningSince === null
+    ? resumeClock(state.clock, now)
+    : chargeClock(state.clock, state.currentPlayer, state.gameSettings.timeControl, now);
+}
+
+// The side to move loses on time, unless the opponent could never have mated
+export function getFlagFallResult(gameState: GameState): { status: GameStatus; drawReason?: DrawReason } {
+  const opponent = opposite(gameState.currentPlayer);
+  const engine = new ChessEngine(gameState);
+
+  return engine.canCheckmate(opponent)
+    ? { status: 'timeout' }
+    : { status: 'draw', drawReason: 'timeout-vs-insufficient-material' };
+}
+
+export function applyFlagFall(gameState: GameState, now: number = Date.now()): GameState {
+  const clock = gameState.clock && {
+    remaining: { ...gameState.clock.remaining, [gameState.currentPlayer]: 0 },
+    runningSince: null
+  };
+
+  return {
+    ...gameState,
+    ...getFlagFallResult(gameState),
+    clock,
+    endTime: new Date(now)
+  };
+}
+
+// m:ss, with tenths under ten seconds
+export function formatClock(ms: number): string {
+  const clamped = Math.max(0, ms);
+  if (clamped < 10_000) {
+    return `0:0${(Math.floor(clamped / 100) / 10).toFixed(1)}`;
+  }
+
+  const totalSeconds = Math.ceil(clamped / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = (totalSeconds % 60).toString().padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, '0')}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
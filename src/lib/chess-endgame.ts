@@ -0,0 +1,661 @@
+import { EndgameProbe } from '@/types/chess';
+import {
+  BISHOP,
+  BISHOP_OFFSETS,
+  ChessPosition,
+  KING,
+  KING_OFFSETS,
+  KNIGHT,
+  KNIGHT_OFFSETS,
+  PAWN,
+  QUEEN,
+  ROOK,
+  ROOK_OFFSETS,
+  WHITE,
+  pieceCode,
+  pieceColor,
+  pieceType
+} from './chess-position';
+
+// Exact tables for endings with few pieces, built by retrograde analysis the first time a
+// material balance is needed and cached in IndexedDB. Castling and en passant are ignored,
+// so positions with either right are not probed.
+
+export const MAX_ENDGAME_PIECES = 4;
+
+// One byte per position: 0 is a draw, ILLEGAL marks impossible or duplicate slots, and
+// anything else is plies to mate + 1 - odd codes lose for the side to move, even codes win
+const DRAW = 0;
+const ILLEGAL = 255;
+
+// Low bits count the moves still unresolved; the flag marks a move that holds the draw
+const ESCAPE = 0x80;
+
+const PIECE_LETTERS = ['', 'P', 'N', 'B', 'R', 'Q', 'K'];
+const PIECE_VALUES = [0, 1, 3, 3, 5, 9, 0];
+const PROMOTION_TYPES = [QUEEN, ROOK, BISHOP, KNIGHT];
+
+// Bare kings and a lone minor piece cannot mate, so they need no table
+const DRAWN_SIGNATURES = new Set(['KvK', 'KBvK', 'KNvK']);
+
+// Generation hands control back this often, so a worker can answer messages meanwhile
+const GENERATION_SLICE_MS = 50;
+
+const DB_NAME = 'chess-prime-endgames';
+const DB_STORE = 'tables';
+// Bump when the table layout changes so stale caches are rebuilt
+const DB_VERSION = 1;
+
+interface EndgameTable {
+  signature: string;
+  // Piece codes in index order: white king, other white pieces strongest first, then black
+  pieces: number[];
+  hasPawns: boolean;
+  // Positions per side to move
+  sideSize: number;
+  values: Uint8Array;
+}
+
+const tables = new Map<string, EndgameTable>();
+
+const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+// The 8 symmetries of the board on 0-63 squares (row * 8 + col), identity first
+const SQUARE_TRANSFORMS: Uint8Array[] = [];
+for (let t = 0; t < 8; t++) {
+  const map = new Uint8Array(64);
+  for (let square = 0; square < 64; square++) {
+    let file = square & 7;
+    let rank = 7 - (square >> 3);
+    if (t & 4) [file, rank] = [rank, file];
+    if (t & 1) file = 7 - file;
+    if (t & 2) rank = 7 - rank;
+    map[square] = (7 - rank) * 8 + file;
+  }
+  SQUARE_TRANSFORMS.push(map);
+}
+const FILE_MIRROR = 1;
+
+// Without pawns the white king is brought into the a1-d1-d4 triangle; kings on its
+// diagonal leave two candidate transforms, and the smaller index wins
+const TRIANGLE_SQUARES: number[] = [];
+const KING_SLOTS_PAWNLESS = new Int8Array(64).fill(-1);
+for (let square = 0; square < 64; square++) {
+  const file = square & 7;
+  const rank = 7 - (square >> 3);
+  if (file <= 3 && rank <= file) {
+    KING_SLOTS_PAWNLESS[square] = TRIANGLE_SQUARES.length;
+    TRIANGLE_SQUARES.push(square);
+  }
+}
+const TRIANGLE_TRANSFORMS: number[][] = [];
+for (let square = 0; square < 64; square++) {
+  TRIANGLE_TRANSFORMS.push([0, 1, 2, 3, 4, 5, 6, 7].filter(t => KING_SLOTS_PAWNLESS[SQUARE_TRANSFORMS[t][square]] >= 0));
+}
+
+// With pawns only the left-right mirror applies, keeping the white king on files a-d
+const HALF_BOARD_SQUARES: number[] = [];
+for (let square = 0; square < 64; square++) {
+  if ((square & 7) < 4) HALF_BOARD_SQUARES.push(square);
+}
+const kingSlotWithPawns = (square: number): number => (square >> 3) * 4 + (square & 7);
+
+const to88 = (square: number): number => (square >> 3) * 16 + (square & 7);
+const to64 = (square: number): number => (square >> 4) * 8 + (square & 7);
+
+// Which piece types attack along each 0x88 square difference, and the step that gets there
+const ATTACK_TYPES = new Uint8Array(240);
+const ATTACK_STEPS = new Int8Array(240);
+const addAttacks = (types: number, offsets: number[], maxDistance: number) => {
+  for (const offset of offsets) {
+    for (let distance = 1; distance <= maxDistance; distance++) {
+      ATTACK_TYPES[offset * distance + 119] |= types;
+      ATTACK_STEPS[offset * distance + 119] = offset;
+    }
+  }
+};
+addAttacks(1 << KNIGHT, KNIGHT_OFFSETS, 1);
+addAttacks(1 << KING, KING_OFFSETS, 1);
+addAttacks((1 << BISHOP) | (1 << QUEEN), BISHOP_OFFSETS, 7);
+addAttacks((1 << ROOK) | (1 << QUEEN), ROOK_OFFSETS, 7);
+
+const MOVE_OFFSETS: number[][] = [];
+MOVE_OFFSETS[KNIGHT] = KNIGHT_OFFSETS;
+MOVE_OFFSETS[BISHOP] = BISHOP_OFFSETS;
+MOVE_OFFSETS[ROOK] = ROOK_OFFSETS;
+MOVE_OFFSETS[QUEEN] = KING_OFFSETS;
+MOVE_OFFSETS[KING] = KING_OFFSETS;
+const isSlider = (type: number): boolean => type === BISHOP || type === ROOK || type === QUEEN;
+
+// White pieces first, each side's king first and then the strongest pieces
+const comparePieces = (a: number, b: number): number => pieceColor(a) - pieceColor(b) || pieceType(b) - pieceType(a);
+
+const sideTypes = (codes: number[], color: number): number[] =>
+  codes.filter(code => pieceColor(code) === color).map(pieceType).sort((a, b) => b - a);
+
+// Tables are stored with the stronger side as white; `flip` says the pieces must be swapped
+function classify(codes: number[]): { signature: string; flip: boolean } {
+  const white = sideTypes(codes, WHITE);
+  const black = sideTypes(codes, 1 - WHITE);
+  const total = (types: number[]) => types.reduce((sum, type) => sum + PIECE_VALUES[type], 0);
+
+  let flip = total(black) > total(white);
+  if (total(black) === total(white)) {
+    const differ = white.findIndex((type, i) => type !== black[i]);
+    flip = differ >= 0 ? black[differ] > white[differ] : black.length > white.length;
+  }
+
+  const [stronger, weaker] = flip ? [black, white] : [white, black];
+  const letters = (types: number[]) => types.map(type => PIECE_LETTERS[type]).join('');
+  return { signature: `${letters(stronger)}v${letters(weaker)}`, flip };
+}
+
+function createTable(signature: string, pieces: number[]): EndgameTable {
+  const hasPawns = pieces.some(code => pieceType(code) === PAWN);
+  const sideSize = (hasPawns ? 32 : 10) * 64 ** (pieces.length - 1);
+  return { signature, pieces, hasPawns, sideSize, values: new Uint8Array(sideSize * 2) };
+}
+
+// Index of the position, on 0-63 squares in table order, reduced by the table's symmetries
+function indexOf(table: EndgameTable, squares: ArrayLike<number>, count: number, side: number): number {
+  const transforms = table.hasPawns
+    ? ((squares[0] & 7) < 4 ? IDENTITY_ONLY : MIRROR_ONLY)
+    : TRIANGLE_TRANSFORMS[squares[0]];
+  let best = -1;
+
+  for (let k = 0; k < transforms.length; k++) {
+    const map = SQUARE_TRANSFORMS[transforms[k]];
+    let index = table.hasPawns ? kingSlotWithPawns(map[squares[0]]) : KING_SLOTS_PAWNLESS[map[squares[0]]];
+    for (let i = 1; i < count; i++) index = (index << 6) | map[squares[i]];
+    if (best < 0 || index < best) best = index;
+  }
+
+  return side * table.sideSize + best;
+}
+const IDENTITY_ONLY = [0];
+const MIRROR_ONLY = [FILE_MIRROR];
+
+// Value of an arbitrary set of pieces, looked up in whichever table holds it
+function probeSquares(codes: number[], where: number[], side: number): number | null {
+  const { signature, flip } = classify(codes);
+  if (DRAWN_SIGNATURES.has(signature)) return DRAW;
+
+  const table = tables.get(signature);
+  if (!table) return null;
+
+  // Swapping colours also mirrors the board top to bottom
+  const order = codes
+    .map((code, i) => ({ code: flip ? code ^ 8 : code, square: flip ? where[i] ^ 56 : where[i] }))
+    .sort((a, b) => comparePieces(a.code, b.code));
+  return table.values[indexOf(table, order.map(piece => piece.square), order.length, flip ? side ^ 1 : side)];
+}
+
+// Material reachable by one capture or promotion, whose tables must exist first
+function successorMaterials(pieces: number[]): number[][] {
+  const materials: number[][] = [];
+
+  pieces.forEach((code, i) => {
+    if (pieceType(code) !== KING) materials.push(pieces.filter((_, j) => j !== i));
+    if (pieceType(code) !== PAWN) return;
+
+    for (const promotion of PROMOTION_TYPES) {
+      const promoted = pieces.map((other, j) => (j === i ? pieceCode(promotion, pieceColor(code)) : other));
+      materials.push(promoted);
+      promoted.forEach((other, j) => {
+        if (pieceColor(other) !== pieceColor(code) && pieceType(other) !== KING) {
+          materials.push(promoted.filter((_, k) => k !== j));
+        }
+      });
+    }
+  });
+
+  return materials;
+}
+
+// Pieces and 0-63 squares of a position small enough to probe, or null
+function endgameMaterial(position: ChessPosition): { codes: number[]; where: number[] } | null {
+  if (position.castling || position.enPassant >= 0) return null;
+
+  const codes: number[] = [];
+  const where: number[] = [];
+  for (let square = 0; square < 128; square++) {
+    const piece = position.board[square];
+    if ((square & 0x88) || !piece) continue;
+    if (codes.length === MAX_ENDGAME_PIECES) return null;
+    codes.push(piece);
+    where.push(to64(square));
+  }
+  return { codes, where };
+}
+
+// The exact result, or null when the position is too big or its table is not loaded
+export function probeEndgame(position: ChessPosition): EndgameProbe | null {
+  const material = endgameMaterial(position);
+  const value = material && probeSquares(material.codes, material.where, position.sideToMove);
+  if (value === null || value === ILLEGAL) return null;
+
+  if (value === DRAW) return { outcome: 'draw' };
+  return { outcome: value & 1 ? 'loss' : 'win', distanceToMate: value - 1 };
+}
+
+// Makes the position's table, and those its captures and promotions lead to, available to
+// probeEndgame; resolves to false when the position cannot be probed
+export async function loadEndgameTables(position: ChessPosition): Promise<boolean> {
+  const material = endgameMaterial(position);
+  if (!material) return false;
+
+  await loadTable(material.codes);
+  return true;
+}
+
+const loading = new Map<string, Promise<void>>();
+
+function loadTable(codes: number[]): Promise<void> {
+  const { signature, flip } = classify(codes);
+  if (DRAWN_SIGNATURES.has(signature) || tables.has(signature)) return Promise.resolve();
+
+  // The AI and the game page may ask for the same table at once
+  let promise = loading.get(signature);
+  if (!promise) {
+    const pieces = codes.map(code => (flip ? code ^ 8 : code)).sort(comparePieces);
+    promise = buildTable(signature, pieces).finally(() => loading.delete(signature));
+    loading.set(signature, promise);
+  }
+  return promise;
+}
+
+async function buildTable(signature: string, pieces: number[]): Promise<void> {
+  for (const material of successorMaterials(pieces)) await loadTable(material);
+
+  const table = createTable(signature, pieces);
+  const cached = await readCachedTable(signature);
+  if (cached && cached.length === table.values.length) {
+    table.values.set(cached);
+  } else {
+    await new TableGenerator(table).generate();
+    await writeCachedTable(signature, table.values);
+  }
+  tables.set(signature, table);
+}
+
+let database: Promise<IDBDatabase | null> | null = null;
+
+// Resolves to null where IndexedDB is unavailable or refused, leaving tables uncached
+function openDatabase(): Promise<IDBDatabase | null> {
+  database ??= new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (db.objectStoreNames.contains(DB_STORE)) db.deleteObjectStore(DB_STORE);
+      db.createObjectStore(DB_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => resolve(null);
+  });
+  return database;
+}
+
+async function readCachedTable(signature: string): Promise<Uint8Array | null> {
+  const db = await openDatabase();
+  if (!db) return null;
+
+  return new Promise(resolve => {
+    try {
+      const request = db.transaction(DB_STORE).objectStore(DB_STORE).get(signature);
+      request.onsuccess = () => resolve(request.result instanceof Uint8Array ? request.result : null);
+      request.onerror = () => resolve(null);
+    } catch {
+      resolve(null);
+    }
+  });
+}
+
+// A failed write only costs a rebuild next time
+async function writeCachedTable(signature: string, values: Uint8Array): Promise<void> {
+  const db = await openDatabase();
+  if (!db) return;
+
+  await new Promise<void>(resolve => {
+    try {
+      const transaction = db.transaction(DB_STORE, 'readwrite');
+      transaction.objectStore(DB_STORE).put(values, signature);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => resolve();
+    } catch {
+      resolve();
+    }
+  });
+}
+
+// Working state for generating one table, shared to avoid allocating per position:
+// squares on 0-63 as indexed, the same squares on the 0x88 board, and a neighbour's squares
+const board = new Uint8Array(128);
+const squares = new Int32Array(MAX_ENDGAME_PIECES);
+const at = new Int32Array(MAX_ENDGAME_PIECES);
+const scratch = new Int32Array(MAX_ENDGAME_PIECES);
+const linked = new Int32Array(256);
+
+class TableGenerator {
+  private readonly count: number;
+  private readonly pieces: number[];
+  private readonly kings: number[];
+  private readonly values: Uint8Array;
+  private readonly counters: Uint8Array;
+  private readonly pendingWins: Uint8Array;
+  private readonly lossPlies: Uint8Array;
+  private sliceStart = Date.now();
+
+  constructor(private readonly table: EndgameTable) {
+    this.count = table.pieces.length;
+    this.pieces = table.pieces;
+    this.kings = [0, table.pieces.indexOf(pieceCode(KING, WHITE ^ 1))];
+    this.values = table.values;
+    this.counters = new Uint8Array(table.values.length);
+    this.pendingWins = new Uint8Array(table.values.length);
+    this.lossPlies = new Uint8Array(table.values.length);
+  }
+
+  public async generate(): Promise<void> {
+    let lastPly = 0;
+    for (let index = 0; index < this.values.length; index++) {
+      lastPly = Math.max(lastPly, this.initialize(index));
+      if ((index & 0x3fff) === 0) await this.pause();
+    }
+
+    // Ply by ply: a loss in d makes its predecessors wins in d + 1, and a win in d takes
+    // away one escape from each predecessor, which loses once it has none left
+    for (let ply = 0; ply <= lastPly && ply < ILLEGAL - 2; ply++) {
+      const code = ply + 1;
+      let found = false;
+
+      // Nothing resolved while visiting can settle at this same ply, so one pass does both
+      for (let index = 0; index < this.values.length; index++) {
+        if ((index & 0x3fff) === 0) await this.pause();
+        if (this.values[index] === DRAW && this.settlesAt(index, ply)) this.values[index] = code;
+        if (this.values[index] !== code) continue;
+        found = true;
+        this.visitPredecessors(index, ply);
+      }
+
+      if (found) lastPly = Math.max(lastPly, ply + 1);
+    }
+  }
+
+  private async pause(): Promise<void> {
+    if (Date.now() - this.sliceStart < GENERATION_SLICE_MS) return;
+    await yieldToEventLoop();
+    this.sliceStart = Date.now();
+  }
+
+  private settlesAt(index: number, ply: number): boolean {
+    if (ply & 1) return this.pendingWins[index] === ply;
+    return this.counters[index] === 0 && this.pendingWins[index] === 0 && this.lossPlies[index] === ply;
+  }
+
+  // Marks illegal slots, scores mates and stalemates, and resolves the moves that leave the
+  // table; returns the latest ply one of those fixes
+  private initialize(index: number): number {
+    const side = this.decode(index);
+    if (!this.isCanonical(index, side)) {
+      this.values[index] = ILLEGAL;
+      return 0;
+    }
+
+    this.place();
+    if (this.inCheck(side ^ 1)) {
+      this.clear();
+      this.values[index] = ILLEGAL;
+      return 0;
+    }
+
+    let legalMoves = 0;
+    let inTable = 0;
+    let escape = false;
+    let fastestWin = 0;
+    let slowestLoss = 0;
+
+    this.forEachMove(side, (mover, to, promotion, captured) => {
+      legalMoves++;
+      if (captured < 0 && !promotion) {
+        scratch.set(squares);
+        scratch[mover] = to64(to);
+        const successor = indexOf(this.table, scratch, this.count, side ^ 1);
+        if (!this.addLinked(inTable, successor)) inTable++;
+        return;
+      }
+
+      const codes: number[] = [];
+      const where: number[] = [];
+      for (let i = 0; i < this.count; i++) {
+        if (i === captured) continue;
+        codes.push(i === mover && promotion ? pieceCode(promotion, side) : this.pieces[i]);
+        where.push(i === mover ? to64(to) : squares[i]);
+      }
+      const value = probeSquares(codes, where, side ^ 1);
+      if (value === null || value === ILLEGAL) {
+        throw new Error(`Endgame table missing for ${classify(codes).signature}`);
+      }
+
+      // The opponent's result after the move: a loss for them is a win in one more ply
+      if (value === DRAW) {
+        escape = true;
+      } else if (value & 1) {
+        fastestWin = fastestWin === 0 ? value : Math.min(fastestWin, value);
+      } else {
+        slowestLoss = Math.max(slowestLoss, value);
+      }
+    });
+    this.clear();
+
+    if (legalMoves === 0) {
+      // Mated, or stalemated and so drawn for good
+      if (this.inCheck(side)) this.values[index] = 1;
+      else this.counters[index] = ESCAPE;
+      return 0;
+    }
+
+    this.counters[index] = inTable | (escape ? ESCAPE : 0);
+    this.pendingWins[index] = fastestWin;
+    this.lossPlies[index] = slowestLoss;
+    return Math.max(fastestWin, slowestLoss);
+  }
+
+  private visitPredecessors(index: number, ply: number): void {
+    const side = this.decode(index);
+    this.place();
+    let total = 0;
+
+    // The side not to move made the last move, without capturing or promoting
+    this.forEachRetraction(side ^ 1, (mover, from) => {
+      scratch.set(squares);
+      scratch[mover] = to64(from);
+      const predecessor = indexOf(this.table, scratch, this.count, side ^ 1);
+      if (this.values[predecessor] === DRAW && !this.addLinked(total, predecessor)) total++;
+    });
+    this.clear();
+
+    for (let i = 0; i < total; i++) {
+      const predecessor = linked[i];
+      if (this.values[predecessor] !== DRAW) continue;
+
+      if ((ply & 1) === 0) {
+        this.values[predecessor] = ply + 2;
+        continue;
+      }
+
+      const counter = this.counters[predecessor] - 1;
+      this.counters[predecessor] = counter;
+      if (counter === 0) this.lossPlies[predecessor] = Math.max(ply + 1, this.lossPlies[predecessor]);
+    }
+  }
+
+  // Records a position reached once per distinct index; returns whether it was already there
+  private addLinked(total: number, index: number): boolean {
+    for (let i = 0; i < total; i++) {
+      if (linked[i] === index) return true;
+    }
+    linked[total] = index;
+    return false;
+  }
+
+  private decode(index: number): number {
+    const side = index >= this.table.sideSize ? 1 : 0;
+    let rest = index - side * this.table.sideSize;
+
+    for (let i = this.count - 1; i > 0; i--) {
+      squares[i] = rest & 63;
+      rest >>= 6;
+    }
+    squares[0] = this.table.hasPawns ? HALF_BOARD_SQUARES[rest] : TRIANGLE_SQUARES[rest];
+    return side;
+  }
+
+  private isCanonical(index: number, side: number): boolean {
+    for (let i = 0; i < this.count; i++) {
+      for (let j = 0; j < i; j++) {
+        if (squares[i] === squares[j]) return false;
+      }
+      const row = squares[i] >> 3;
+      if (pieceType(this.pieces[i]) === PAWN && (row === 0 || row === 7)) return false;
+    }
+    return indexOf(this.table, squares, this.count, side) === index;
+  }
+
+  private place(): void {
+    for (let i = 0; i < this.count; i++) {
+      at[i] = to88(squares[i]);
+      board[at[i]] = this.pieces[i];
+    }
+  }
+
+  private clear(): void {
+    for (let i = 0; i < this.count; i++) board[at[i]] = 0;
+  }
+
+  private inCheck(color: number): boolean {
+    return this.isAttacked(at[this.kings[color]], color ^ 1, -1);
+  }
+
+  // Whether a piece of byColor attacks the square, ignoring the captured piece
+  private isAttacked(target: number, byColor: number, captured: number): boolean {
+    for (let i = 0; i < this.count; i++) {
+      if (i === captured || pieceColor(this.pieces[i]) !== byColor) continue;
+
+      const type = pieceType(this.pieces[i]);
+      const from = at[i];
+      const diff = target - from;
+
+      if (type === PAWN) {
+        if (byColor === WHITE ? diff === -15 || diff === -17 : diff === 15 || diff === 17) return true;
+        continue;
+      }
+      if (!(ATTACK_TYPES[diff + 119] & (1 << type))) continue;
+      if (!isSlider(type)) return true;
+
+      const step = ATTACK_STEPS[diff + 119];
+      let square = from + step;
+      while (square !== target && board[square] === 0) square += step;
+      if (square === target) return true;
+    }
+    return false;
+  }
+
+  // Every legal move for the side, with destinations on the 0x88 board
+  private forEachMove(
+    side: number,
+    visit: (mover: number, to: number, promotion: number, captured: number) => void
+  ): void {
+    const king = this.kings[side];
+
+    const tryMove = (mover: number, from: number, to: number, promotion: number) => {
+      const target = board[to];
+      let captured = -1;
+      if (target) {
+        for (let i = 0; i < this.count; i++) {
+          if (at[i] === to) captured = i;
+        }
+      }
+
+      board[from] = 0;
+      board[to] = this.pieces[mover];
+      at[mover] = to;
+      const legal = !this.isAttacked(at[king], side ^ 1, captured);
+      at[mover] = from;
+      board[to] = target;
+      board[from] = this.pieces[mover];
+
+      if (legal) visit(mover, to, promotion, captured);
+    };
+
+    for (let mover = 0; mover < this.count; mover++) {
+      const code = this.pieces[mover];
+      if (pieceColor(code) !== side) continue;
+      const from = at[mover];
+      const type = pieceType(code);
+
+      if (type === PAWN) {
+        const forward = side === WHITE ? -16 : 16;
+        const lastRow = side === WHITE ? 0 : 7;
+        const startRow = side === WHITE ? 6 : 1;
+        const moves: number[] = [];
+
+        if (board[from + forward] === 0) {
+          moves.push(from + forward);
+          if (from >> 4 === startRow && board[from + 2 * forward] === 0) moves.push(from + 2 * forward);
+        }
+        for (const to of [from + forward - 1, from + forward + 1]) {
+          if (!(to & 0x88) && board[to] && pieceColor(board[to]) !== side) moves.push(to);
+        }
+        for (const to of moves) {
+          if (to >> 4 === lastRow) {
+            for (const promotion of PROMOTION_TYPES) tryMove(mover, from, to, promotion);
+          } else {
+            tryMove(mover, from, to, 0);
+          }
+        }
+        continue;
+      }
+
+      for (const offset of MOVE_OFFSETS[type]) {
+        for (let to = from + offset; !(to & 0x88); to += offset) {
+          if (board[to] && pieceColor(board[to]) === side) break;
+          tryMove(mover, from, to, 0);
+          if (board[to] || !isSlider(type)) break;
+        }
+      }
+    }
+  }
+
+  // Squares on the 0x88 board each piece of the colour could have come from with a quiet move
+  private forEachRetraction(color: number, visit: (mover: number, from: number) => void): void {
+    for (let mover = 0; mover < this.count; mover++) {
+      const code = this.pieces[mover];
+      if (pieceColor(code) !== color) continue;
+      const to = at[mover];
+      const type = pieceType(code);
+
+      if (type === PAWN) {
+        const back = color === WHITE ? 16 : -16;
+        const firstRow = color === WHITE ? 7 : 0;
+        const from = to + back;
+        if ((from & 0x88) || board[from] || from >> 4 === firstRow) continue;
+        visit(mover, from);
+        // A double push leaves the pawn on its fourth rank
+        if (to >> 4 === (color === WHITE ? 4 : 3) && board[from + back] === 0) visit(mover, from + back);
+        continue;
+      }
+
+      for (const offset of MOVE_OFFSETS[type]) {
+        for (let from = to + offset; !(from & 0x88) && board[from] === 0; from += offset) {
+          visit(mover, from);
+          if (!isSlider(type)) break;
+        }
+      }
+    }
+  }
+}
@@ -8,10 +8,27 @@ import {
   PieceType,
   PieceColor,
   GameStatus,
+  DrawReason,
   positionToAlgebraic,
   PIECE_VALUES
 } from '@/types/chess';
-
+import {
+  ChessPosition,
+  FLAG_CASTLE,
+  FLAG_EN_PASSANT,
+  QUEEN,
+  isCaptureMove,
+  moveFlags,
+  moveFrom,
+  movePromotion,
+  moveTo,
+  toCoordinateNotation,
+  toPosition,
+  toSquare
+} from './chess-position';
+
+// Thin adapter that keeps the Piece/GameState API the UI works with, delegating move
+// generation, legality and notation to the 0x88 ChessPosition core
 export class ChessEngine {
   private gameState: GameState;
 
@@ -20,232 +37,26 @@ export class ChessEngine {
   }
 
   public getValidMoves(piece: Piece): ValidMove[] {
+    const position = this.getPosition(piece.color);
+    const from = toSquare(piece.position);
     const moves: ValidMove[] = [];
 
-    switch (piece.type) {
-      case 'pawn':
-        moves.push(...this.getPawnMoves(piece));
-        break;
-      case 'rook':
-        moves.push(...this.getRookMoves(piece));
-        break;
-      case 'knight':
-        moves.push(...this.getKnightMoves(piece));
-        break;
-      case 'bishop':
-        moves.push(...this.getBishopMoves(piece));
-        break;
-      case 'queen':
-        moves.push(...this.getQueenMoves(piece));
-        break;
-      case 'king':
-        moves.push(...this.getKingMoves(piece));
-        break;
-    }
-
-    return moves.filter(move => this.wouldNotExposeKing(piece, move.to));
-  }
-
-  private getPawnMoves(pawn: Piece): ValidMove[] {
-    const moves: ValidMove[] = [];
-    const { row, col } = pawn.position;
-    const direction = pawn.color === 'white' ? -1 : 1;
-    const startRow = pawn.color === 'white' ? 6 : 1;
-    const promotionRow = pawn.color === 'white' ? 0 : 7;
-
-    // Forward move
-    if (this.isValidPosition({ row: row + direction, col }) &&
-        !this.getPieceAt({ row: row + direction, col })) {
-      const move: ValidMove = {
-        to: { row: row + direction, col },
-        isCapture: false
-      };
-
-      if (row + direction === promotionRow) {
-        move.promotionOptions = ['queen', 'rook', 'bishop', 'knight'];
-      }
-      moves.push(move);
-
-      // Double forward move from starting position
-      if (row === startRow &&
-          this.isValidPosition({ row: row + 2 * direction, col }) &&
-          !this.getPieceAt({ row: row + 2 * direction, col })) {
-        moves.push({
-          to: { row: row + 2 * direction, col },
-          isCapture: false
-        });
-      }
-    }
-
-    // Diagonal captures
-    for (const deltaCol of [-1, 1]) {
-      const targetPos = { row: row + direction, col: col + deltaCol };
-      if (this.isValidPosition(targetPos)) {
-        const targetPiece = this.getPieceAt(targetPos);
-        if (targetPiece && targetPiece.color !== pawn.color) {
-          const move: ValidMove = {
-            to: targetPos,
-            isCapture: true
-          };
-
-          if (row + direction === promotionRow) {
-            move.promotionOptions = ['queen', 'rook', 'bishop', 'knight'];
-          }
-          moves.push(move);
-        }
+    for (const move of position.generateLegalMoves()) {
+      if (moveFrom(move) !== from) continue;
 
-        // En passant
-        if (this.canEnPassant(pawn, targetPos)) {
-          moves.push({
-            to: targetPos,
-            isCapture: true,
-            isEnPassant: true
-          });
-        }
+      const flags = moveFlags(move);
+      const to = toPosition(moveTo(move));
+      // The core lists one move per promotion piece; the UI wants one square with options
+      if (movePromotion(move)) {
+        if (movePromotion(move) !== QUEEN) continue;
+        moves.push({ to, isCapture: isCaptureMove(move), promotionOptions: ['queen', 'rook', 'bishop', 'knight'] });
+        continue;
       }
-    }
-
-    return moves;
-  }
 
-  private getRookMoves(rook: Piece): ValidMove[] {
-    const moves: ValidMove[] = [];
-    const directions = [
-      { row: 0, col: 1 }, { row: 0, col: -1 },
-      { row: 1, col: 0 }, { row: -1, col: 0 }
-    ];
-
-    for (const direction of directions) {
-      moves.push(...this.getLinearMoves(rook, direction));
-    }
-
-    return moves;
-  }
-
-  private getBishopMoves(bishop: Piece): ValidMove[] {
-    const moves: ValidMove[] = [];
-    const directions = [
-      { row: 1, col: 1 }, { row: 1, col: -1 },
-      { row: -1, col: 1 }, { row: -1, col: -1 }
-    ];
-
-    for (const direction of directions) {
-      moves.push(...this.getLinearMoves(bishop, direction));
-    }
-
-    return moves;
-  }
-
-  private getQueenMoves(queen: Piece): ValidMove[] {
-    return [...this.getRookMoves(queen), ...this.getBishopMoves(queen)];
-  }
-
-  private getKnightMoves(knight: Piece): ValidMove[] {
-    const moves: ValidMove[] = [];
-    const { row, col } = knight.position;
-    const knightMoves = [
-      { row: row + 2, col: col + 1 }, { row: row + 2, col: col - 1 },
-      { row: row - 2, col: col + 1 }, { row: row - 2, col: col - 1 },
-      { row: row + 1, col: col + 2 }, { row: row + 1, col: col - 2 },
-      { row: row - 1, col: col + 2 }, { row: row - 1, col: col - 2 }
-    ];
-
-    for (const targetPos of knightMoves) {
-      if (this.isValidPosition(targetPos)) {
-        const targetPiece = this.getPieceAt(targetPos);
-        if (!targetPiece || targetPiece.color !== knight.color) {
-          moves.push({
-            to: targetPos,
-            isCapture: !!targetPiece
-          });
-        }
-      }
-    }
-
-    return moves;
-  }
-
-  private getKingMoves(king: Piece): ValidMove[] {
-    const moves: ValidMove[] = [];
-    const { row, col } = king.position;
-
-    // Normal king moves
-    for (let deltaRow = -1; deltaRow <= 1; deltaRow++) {
-      for (let deltaCol = -1; deltaCol <= 1; deltaCol++) {
-        if (deltaRow === 0 && deltaCol === 0) continue;
-
-        const targetPos = { row: row + deltaRow, col: col + deltaCol };
-        if (this.isValidPosition(targetPos)) {
-          const targetPiece = this.getPieceAt(targetPos);
-          if (!targetPiece || targetPiece.color !== king.color) {
-            if (!this.isSquareUnderAttack(targetPos, king.color)) {
-              moves.push({
-                to: targetPos,
-                isCapture: !!targetPiece
-              });
-            }
-          }
-        }
-      }
-    }
-
-    // Castling
-    if (!king.hasMoved && !this.isInCheck(king.color)) {
-      // Kingside castling
-      const kingsideRook = this.getPieceAt({ row: king.position.row, col: 7 });
-      if (kingsideRook && !kingsideRook.hasMoved &&
-          this.canCastle(king, { row: king.position.row, col: 6 }, 'kingside')) {
-        moves.push({
-          to: { row: king.position.row, col: 6 },
-          isCapture: false,
-          isCastling: true
-        });
-      }
-
-      // Queenside castling
-      const queensideRook = this.getPieceAt({ row: king.position.row, col: 0 });
-      if (queensideRook && !queensideRook.hasMoved &&
-          this.canCastle(king, { row: king.position.row, col: 2 }, 'queenside')) {
-        moves.push({
-          to: { row: king.position.row, col: 2 },
-          isCapture: false,
-          isCastling: true
-        });
-      }
-    }
-
-    return moves;
-  }
-
-  private getLinearMoves(piece: Piece, direction: { row: number; col: number }): ValidMove[] {
-    const moves: ValidMove[] = [];
-    let currentPos = {
-      row: piece.position.row + direction.row,
-      col: piece.position.col + direction.col
-    };
-
-    while (this.isValidPosition(currentPos)) {
-      const targetPiece = this.getPieceAt(currentPos);
-
-      if (!targetPiece) {
-        moves.push({
-          to: { ...currentPos },
-          isCapture: false
-        });
-      } else {
-        if (targetPiece.color !== piece.color) {
-          moves.push({
-            to: { ...currentPos },
-            isCapture: true
-          });
-        }
-        break; // Piece blocks further movement
-      }
-
-      currentPos = {
-        row: currentPos.row + direction.row,
-        col: currentPos.col + direction.col
-      };
+      const validMove: ValidMove = { to, isCapture: isCaptureMove(move) };
+      if (flags & FLAG_EN_PASSANT) validMove.isEnPassant = true;
+      if (flags & FLAG_CASTLE) validMove.isCastling = true;
+      moves.push(validMove);
     }
 
     return moves;
@@ -263,10 +74,6 @@ export class ChessEngine {
       return { isValid: false, reason: 'Illegal move for this piece' };
     }
 
-    if (this.wouldExposeKing(piece, to)) {
-      return { isValid: false, reason: 'Move would expose king to check' };
-    }
-
     const validation: MoveValidation = { isValid: true };
 
     if (move.isCastling) validation.specialMove = 'castling';
@@ -277,17 +84,44 @@ export class ChessEngine {
   }
 
   public makeMove(piece: Piece, to: Position, promotionPiece?: PieceType): Move {
+    // Seed the history with the position before the first recorded move
+    if (!this.gameState.positionHistory) {
+      this.gameState.positionHistory = [this.getPositionKey(this.gameState.currentPlayer)];
+    }
+    const positionHistory = this.gameState.positionHistory;
+
     const capturedPiece = this.getPieceAt(to);
+
+    // A pawn reaching the last rank must become something; default to a queen
+    const promotionRow = piece.color === 'white' ? 0 : 7;
+    const promotion = piece.type === 'pawn' && to.row === promotionRow
+      ? promotionPiece ?? 'queen'
+      : undefined;
+
+    const position = this.getPosition(piece.color);
+    const coreMove = position.findMove(piece.position, to, promotion);
+    if (coreMove === null) {
+      throw new Error(`Illegal move: ${positionToAlgebraic(piece.position)}-${positionToAlgebraic(to)}`);
+    }
+
     const move: Move = {
       id: `move-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       piece: { ...piece },
       from: { ...piece.position },
       to: { ...to },
       capturedPiece: capturedPiece ? { ...capturedPiece } : undefined,
-      notation: this.generateAlgebraicNotation(piece, to, capturedPiece, promotionPiece),
+      notation: position.toSan(coreMove, false),
       timestamp: new Date(),
       isCheck: false,
-      isCheckmate: false
+      isCheckmate: false,
+      promotionPiece: promotion,
+      undoState: {
+        status: this.gameState.status,
+        drawReason: this.gameState.drawReason,
+        enPassantTarget: this.gameState.enPassantTarget,
+        halfmoveClock: this.gameState.halfmoveClock,
+        fullmoveNumber: this.gameState.fullmoveNumber
+      }
     };
 
     // Update board
@@ -296,7 +130,7 @@ export class ChessEngine {
       ...piece,
       position: to,
       hasMoved: true,
-      type: promotionPiece || piece.type
+      type: promotion ?? piece.type
     };
 
     // Handle special moves
@@ -307,15 +141,50 @@ export class ChessEngine {
       this.gameState.capturedPieces[capturedPiece.color].push(capturedPiece);
     }
 
+    // Update en passant target and move counters before judging the new position
+    const isDoublePush = move.piece.type === 'pawn' && Math.abs(move.to.row - move.from.row) === 2;
+    this.gameState.enPassantTarget = isDoublePush
+      ? { row: (move.from.row + move.to.row) / 2, col: move.from.col }
+      : null;
+    this.gameState.halfmoveClock = move.piece.type === 'pawn' || move.capturedPiece
+      ? 0
+      : (this.gameState.halfmoveClock ?? 0) + 1;
+    if (this.gameState.currentPlayer === 'black') {
+      this.gameState.fullmoveNumber = (this.gameState.fullmoveNumber ?? 1) + 1;
+    }
+
     // Check for check/checkmate
     const opponentColor: PieceColor = this.gameState.currentPlayer === 'white' ? 'black' : 'white';
-    move.isCheck = this.isInCheck(opponentColor);
+    const next = this.getPosition(opponentColor, this.gameState.enPassantTarget);
+    const hasReply = next.hasLegalMoves();
+    move.isCheck = next.inCheck();
+    this.gameState.drawReason = undefined;
 
     if (move.isCheck) {
-      move.isCheckmate = this.isCheckmate(opponentColor);
+      move.isCheckmate = !hasReply;
       this.gameState.status = move.isCheckmate ? 'checkmate' : 'check';
-    } else if (this.isStalemate(opponentColor)) {
+    } else if (!hasReply) {
       this.gameState.status = 'stalemate';
+    } else {
+      this.gameState.status = 'active';
+    }
+
+    if (move.isCheckmate) {
+      move.notation += '#';
+    } else if (move.isCheck) {
+      move.notation += '+';
+    }
+
+    // Record the new position for repetition detection
+    const positionKey = this.getPositionKey(opponentColor, this.gameState.enPassantTarget);
+    positionHistory.push(positionKey);
+
+    if (!move.isCheckmate && this.gameState.status !== 'stalemate') {
+      const drawReason = this.getDrawReason(positionKey);
+      if (drawReason) {
+        this.gameState.status = 'draw';
+        this.gameState.drawReason = drawReason;
+      }
     }
 
     // Add move to history
@@ -327,6 +196,63 @@ export class ChessEngine {
     return move;
   }
 
+  public unmakeMove(): Move | null {
+    const move = this.gameState.moves.pop();
+    if (!move) return null;
+
+    const { board } = this.gameState;
+
+    // Put the moving piece back exactly as it was, undoing any promotion
+    board[move.to.row][move.to.col] = null;
+    board[move.from.row][move.from.col] = {
+      ...move.piece,
+      position: { ...move.from }
+    };
+
+    if (move.isCastling) {
+      const isKingside = move.to.col > move.from.col;
+      const rookFromCol = isKingside ? 7 : 0;
+      const rookToCol = isKingside ? 5 : 3;
+      const rook = board[move.from.row][rookToCol];
+
+      board[move.from.row][rookToCol] = null;
+      if (rook) {
+        board[move.from.row][rookFromCol] = {
+          ...rook,
+          position: { row: move.from.row, col: rookFromCol },
+          hasMoved: false
+        };
+      }
+    }
+
+    if (move.capturedPiece) {
+      // En passant victims stand beside the destination, so use the recorded square
+      const captured = move.capturedPiece;
+      board[captured.position.row][captured.position.col] = { ...captured };
+
+      const capturedList = this.gameState.capturedPieces[captured.color];
+      const index = capturedList.map(piece => piece.id).lastIndexOf(captured.id);
+      if (index !== -1) capturedList.splice(index, 1);
+    }
+
+    this.gameState.positionHistory?.pop();
+    this.gameState.currentPlayer = move.piece.color;
+
+    if (move.undoState) {
+      this.gameState.status = move.undoState.status;
+      this.gameState.drawReason = move.undoState.drawReason;
+      this.gameState.enPassantTarget = move.undoState.enPassantTarget;
+      this.gameState.halfmoveClock = move.undoState.halfmoveClock;
+      this.gameState.fullmoveNumber = move.undoState.fullmoveNumber;
+    }
+    // Taking a move back reopens a game that ended in resignation or with a recorded result
+    this.gameState.resignedBy = undefined;
+    this.gameState.recordedResult = undefined;
+    this.gameState.endTime = undefined;
+
+    return move;
+  }
+
   private handleSpecialMoves(move: Move): void {
     // Handle castling
     if (move.piece.type === 'king' && Math.abs(move.to.col - move.from.col) === 2) {
@@ -359,222 +285,181 @@ export class ChessEngine {
     }
   }
 
-  private generateAlgebraicNotation(
-    piece: Piece,
-    to: Position,
-    capturedPiece?: Piece,
-    promotionPiece?: PieceType
-  ): string {
-    let notation = '';
-
-    // Special moves
-    if (piece.type === 'king' && Math.abs(to.col - piece.position.col) === 2) {
-      return to.col > piece.position.col ? 'O-O' : 'O-O-O';
-    }
-
-    // Piece notation
-    if (piece.type !== 'pawn') {
-      notation += piece.type.charAt(0).toUpperCase();
-    }
-
-    // Capture notation
-    if (capturedPiece) {
-      if (piece.type === 'pawn') {
-        notation += positionToAlgebraic(piece.position)[0];
-      }
-      notation += 'x';
-    }
-
-    // Destination
-    notation += positionToAlgebraic(to);
-
-    // Promotion
-    if (promotionPiece) {
-      notation += '=' + promotionPiece.charAt(0).toUpperCase();
-    }
-
-    return notation;
-  }
-
   public isInCheck(color: PieceColor): boolean {
-    const king = this.findKing(color);
-    return king ? this.isSquareUnderAttack(king.position, color) : false;
+    return this.getPosition(color).inCheck();
   }
 
   public isCheckmate(color: PieceColor): boolean {
-    if (!this.isInCheck(color)) return false;
-    return this.getAllValidMoves(color).length === 0;
+    return this.getPosition(color).isCheckmate();
   }
 
   public isStalemate(color: PieceColor): boolean {
-    if (this.isInCheck(color)) return false;
-    return this.getAllValidMoves(color).length === 0;
+    return this.getPosition(color).isStalemate();
   }
 
-  private getAllValidMoves(color: PieceColor): ValidMove[] {
-    const pieces = this.getAllPieces(color);
-    const allMoves: ValidMove[] = [];
+  // Leaf count of the legal move tree to the given depth, for checking move generation
+  // against published perft figures
+  public perft(depth: number): number {
+    return this.getPosition(this.gameState.currentPlayer).perft(depth);
+  }
 
-    for (const piece of pieces) {
-      allMoves.push(...this.getValidMoves(piece));
+  // Perft split by root move (e2e4, e7e8q, ...) to pinpoint where counts diverge
+  public perftDivide(depth: number): Record<string, number> {
+    const position = this.getPosition(this.gameState.currentPlayer);
+    const divide: Record<string, number> = {};
+
+    for (const move of position.generateLegalMoves()) {
+      position.makeMove(move);
+      divide[toCoordinateNotation(move)] = position.perft(depth - 1);
+      position.unmakeMove();
     }
 
-    return allMoves;
+    return divide;
   }
 
-  private getAllPieces(color: PieceColor): Piece[] {
-    const pieces: Piece[] = [];
-    for (let row = 0; row < 8; row++) {
-      for (let col = 0; col < 8; col++) {
-        const piece = this.gameState.board[row][col];
-        if (piece && piece.color === color) {
-          pieces.push(piece);
-        }
-      }
-    }
-    return pieces;
+  // The core position as seen with color to move; only the real side to move keeps its en passant square
+  private getPosition(color: PieceColor, enPassantTarget?: Position | null): ChessPosition {
+    return ChessPosition.fromGameState(this.gameState, color, enPassantTarget);
   }
 
-  private findKing(color: PieceColor): Piece | null {
-    for (let row = 0; row < 8; row++) {
-      for (let col = 0; col < 8; col++) {
-        const piece = this.gameState.board[row][col];
-        if (piece && piece.type === 'king' && piece.color === color) {
-          return piece;
-        }
-      }
-    }
-    return null;
+  private isValidPosition(position: Position): boolean {
+    return position.row >= 0 && position.row < 8 &&
+           position.col >= 0 && position.col < 8;
   }
 
-  private isSquareUnderAttack(position: Position, defenderColor: PieceColor): boolean {
-    const attackerColor: PieceColor = defenderColor === 'white' ? 'black' : 'white';
-    const attackers = this.getAllPieces(attackerColor);
-
-    for (const attacker of attackers) {
-      const moves = this.getRawMoves(attacker);
-      if (moves.some(move => move.to.row === position.row && move.to.col === position.col)) {
-        return true;
-      }
-    }
-
-    return false;
+  private getPieceAt(position: Position): Piece | null {
+    if (!this.isValidPosition(position)) return null;
+    return this.gameState.board[position.row][position.col];
   }
 
-  private getRawMoves(piece: Piece): ValidMove[] {
-    switch (piece.type) {
-      case 'pawn': return this.getRawPawnMoves(piece);
-      case 'rook': return this.getRookMoves(piece);
-      case 'knight': return this.getKnightMoves(piece);
-      case 'bishop': return this.getBishopMoves(piece);
-      case 'queen': return this.getQueenMoves(piece);
-      case 'king': return this.getRawKingMoves(piece);
-      default: return [];
-    }
+  public getPositionKey(
+    sideToMove: PieceColor = this.gameState.currentPlayer,
+    enPassantTarget?: Position | null
+  ): string {
+    const placement = this.gameState.board.map(rank =>
+      rank.map(piece => {
+        if (!piece) return '.';
+        const letter = piece.type === 'knight' ? 'n' : piece.type.charAt(0);
+        return piece.color === 'white' ? letter.toUpperCase() : letter;
+      }).join('')
+    ).join('/');
+
+    const castling = (['white', 'black'] as const).map(color => {
+      const row = color === 'white' ? 7 : 0;
+      const king = this.gameState.board[row][4];
+      if (!king || king.type !== 'king' || king.color !== color || king.hasMoved) return '--';
+
+      return [7, 0].map(col => {
+        const rook = this.gameState.board[row][col];
+        return rook && rook.type === 'rook' && rook.color === color && !rook.hasMoved ? 'y' : '-';
+      }).join('');
+    }).join('');
+
+    // En passant only distinguishes positions when a capture is actually available
+    const capture = this.getPosition(sideToMove, enPassantTarget).generateLegalMoves(true)
+      .find(move => moveFlags(move) & FLAG_EN_PASSANT);
+    const enPassant = capture === undefined ? '-' : positionToAlgebraic(toPosition(moveTo(capture)));
+
+    return `${placement} ${sideToMove} ${castling} ${enPassant}`;
   }
 
-  private getRawPawnMoves(pawn: Piece): ValidMove[] {
-    const moves: ValidMove[] = [];
-    const { row, col } = pawn.position;
-    const direction = pawn.color === 'white' ? -1 : 1;
-
-    // Only diagonal attacks for checking purposes
-    for (const deltaCol of [-1, 1]) {
-      const targetPos = { row: row + direction, col: col + deltaCol };
-      if (this.isValidPosition(targetPos)) {
-        moves.push({
-          to: targetPos,
-          isCapture: true
-        });
+  public isInsufficientMaterial(): boolean {
+    const minors: Piece[] = [];
+
+    for (const rank of this.gameState.board) {
+      for (const piece of rank) {
+        if (!piece || piece.type === 'king') continue;
+        if (piece.type === 'pawn' || piece.type === 'rook' || piece.type === 'queen') return false;
+        minors.push(piece);
       }
     }
 
-    return moves;
+    // K v K and K + minor v K
+    if (minors.length <= 1) return true;
+
+    // Any number of bishops that all stand on the same square colour can never mate
+    if (minors.some(piece => piece.type === 'knight')) return false;
+    const squareColor = (piece: Piece) => (piece.position.row + piece.position.col) % 2;
+    return minors.every(piece => squareColor(piece) === squareColor(minors[0]));
   }
 
-  private getRawKingMoves(king: Piece): ValidMove[] {
-    const moves: ValidMove[] = [];
-    const { row, col } = king.position;
-
-    for (let deltaRow = -1; deltaRow <= 1; deltaRow++) {
-      for (let deltaCol = -1; deltaCol <= 1; deltaCol++) {
-        if (deltaRow === 0 && deltaCol === 0) continue;
-
-        const targetPos = { row: row + deltaRow, col: col + deltaCol };
-        if (this.isValidPosition(targetPos)) {
-          moves.push({
-            to: targetPos,
-            isCapture: false
-          });
+  // Whether color could mate by any legal sequence, which decides a flag fall
+  public canCheckmate(color: PieceColor): boolean {
+    const own: Piece[] = [];
+    let opponentHasPieces = false;
+
+    for (const rank of this.gameState.board) {
+      for (const piece of rank) {
+        if (!piece || piece.type === 'king') continue;
+        if (piece.color === color) {
+          own.push(piece);
+        } else {
+          opponentHasPieces = true;
         }
       }
     }
 
-    return moves;
-  }
-
-  private wouldNotExposeKing(piece: Piece, to: Position): boolean {
-    return !this.wouldExposeKing(piece, to);
-  }
+    if (own.length === 0) return false;
+    if (own.some(piece => piece.type === 'pawn' || piece.type === 'rook' || piece.type === 'queen')) {
+      return true;
+    }
 
-  private wouldExposeKing(piece: Piece, to: Position): boolean {
-    const originalPiece = this.getPieceAt(to);
-    const king = this.findKing(piece.color);
+    const squareColor = (piece: Piece) => (piece.position.row + piece.position.col) % 2;
+    const hasKnight = own.some(piece => piece.type === 'knight');
+    const bishopsOnOneColor = !hasKnight && own.every(piece => squareColor(piece) === squareColor(own[0]));
+    if (own.length > 1 && !bishopsOnOneColor) return true;
 
-    if (!king) return false;
+    // A lone minor (or same-coloured bishops) only mates when an enemy piece blocks the king in
+    return opponentHasPieces;
+  }
 
-    // Simulate move
-    this.gameState.board[piece.position.row][piece.position.col] = null;
-    this.gameState.board[to.row][to.col] = piece;
+  private getDrawReason(positionKey: string): DrawReason | undefined {
+    if (this.isInsufficientMaterial()) return 'insufficient-material';
 
-    // Check if king is in check after move
-    const kingPos = piece.type === 'king' ? to : king.position;
-    const wouldExpose = this.isSquareUnderAttack(kingPos, piece.color);
+    const repetitions = (this.gameState.positionHistory ?? [])
+      .filter(key => key === positionKey).length;
+    if (repetitions >= 3) return 'threefold-repetition';
 
-    // Restore board
-    this.gameState.board[piece.position.row][piece.position.col] = piece;
-    this.gameState.board[to.row][to.col] = originalPiece;
+    if ((this.gameState.halfmoveClock ?? 0) >= 100) return 'fifty-move-rule';
 
-    return wouldExpose;
+    return undefined;
   }
 
-  private canEnPassant(pawn: Piece, targetPos: Position): boolean {
-    if (this.gameState.moves.length === 0) return false;
-
-    const lastMove = this.gameState.moves[this.gameState.moves.length - 1];
-    const expectedPawnPos = { row: pawn.position.row, col: targetPos.col };
-
-    return lastMove.piece.type === 'pawn' &&
-           Math.abs(lastMove.from.row - lastMove.to.row) === 2 &&
-           lastMove.to.row === expectedPawnPos.row &&
-           lastMove.to.col === expectedPawnPos.col;
+  public getGameState(): GameState {
+    return this.gameState;
   }
 
-  private canCastle(king: Piece, targetPos: Position, side: 'kingside' | 'queenside'): boolean {
-    const startCol = side === 'kingside' ? 5 : 1;
-    const endCol = side === 'kingside' ? 6 : 3;
-
-    // Check if squares are empty and not under attack
-    for (let col = startCol; col <= endCol; col++) {
-      if (this.getPieceAt({ row: king.position.row, col })) return false;
-      if (this.isSquareUnderAttack({ row: king.position.row, col }, king.color)) return false;
+  // The game as it stood after the first `ply` moves, rebuilt by taking the later moves
+  // back on a copy; the engine's own game is left untouched
+  // The positions the game passed through before the current one, oldest first, back to the
+  // last capture or pawn move, since none before it can occur again
+  public getEarlierPositions(): ChessPosition[] {
+    const { moves, halfmoveClock = 0 } = this.gameState;
+    const rewind = new ChessEngine(this.getGameStateAtPly(moves.length));
+    const positions: ChessPosition[] = [];
+
+    for (let i = Math.min(halfmoveClock, moves.length); i > 0; i--) {
+      rewind.unmakeMove();
+      positions.unshift(rewind.getPosition(rewind.gameState.currentPlayer));
     }
-
-    return true;
+    return positions;
   }
 
-  private isValidPosition(position: Position): boolean {
-    return position.row >= 0 && position.row < 8 &&
-           position.col >= 0 && position.col < 8;
-  }
+  public getGameStateAtPly(ply: number): GameState {
+    const { moves, board, capturedPieces, positionHistory } = this.gameState;
+    const target = Math.max(0, Math.min(moves.length, Math.floor(ply)));
 
-  private getPieceAt(position: Position): Piece | null {
-    if (!this.isValidPosition(position)) return null;
-    return this.gameState.board[position.row][position.col];
-  }
+    const copy: GameState = {
+      ...this.gameState,
+      board: board.map(rank => [...rank]),
+      moves: [...moves],
+      capturedPieces: { white: [...capturedPieces.white], black: [...capturedPieces.black] },
+      positionHistory: positionHistory ? [...positionHistory] : undefined
+    };
 
-  public getGameState(): GameState {
-    return this.gameState;
+    const rewind = new ChessEngine(copy);
+    while (copy.moves.length > target) rewind.unmakeMove();
+    return copy;
   }
 
   public evaluatePosition(): number {
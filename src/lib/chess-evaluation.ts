@@ -0,0 +1,273 @@
+import {
+  BISHOP,
+  BLACK,
+  ChessPosition,
+  EMPTY,
+  KING,
+  PAWN,
+  ROOK,
+  WHITE,
+  isOnBoard,
+  pieceCode,
+  pieceColor,
+  pieceType
+} from './chess-position';
+
+// Tapered evaluation: every term has a middlegame and an endgame value, blended by how much
+// material is left. Scores are in pawns from white's point of view.
+
+export interface EvaluationTerms {
+  // 24 with all pieces on the board, 0 with only kings and pawns
+  phase: number;
+  material: number;
+  pieceSquares: number;
+  pawnStructure: number;
+  rooks: number;
+  bishopPair: number;
+  kingShelter: number;
+  total: number;
+}
+
+type TermName = Exclude<keyof EvaluationTerms, 'phase' | 'total'>;
+const TERM_NAMES: TermName[] = ['material', 'pieceSquares', 'pawnStructure', 'rooks', 'bishopPair', 'kingShelter'];
+
+const MAX_PHASE = 24;
+// Phase weight per piece type, indexed by core type code
+const PHASE_WEIGHTS = [0, 0, 1, 1, 2, 4, 0];
+
+// Centipawns, indexed by core type code
+const MATERIAL_MG = [0, 100, 320, 330, 500, 900, 0];
+const MATERIAL_EG = [0, 120, 300, 320, 520, 920, 0];
+
+// Piece-square tables from white's side, a8 first; black reads them rank-mirrored
+const PAWN_MG = [
+   0,   0,   0,   0,   0,   0,   0,   0,
+  50,  50,  50,  50,  50,  50,  50,  50,
+  10,  10,  20,  30,  30,  20,  10,  10,
+   5,   5,  10,  25,  25,  10,   5,   5,
+   0,   0,   0,  20,  20,   0,   0,   0,
+   5,  -5, -10,   0,   0, -10,  -5,   5,
+   5,  10,  10, -20, -20,  10,  10,   5,
+   0,   0,   0,   0,   0,   0,   0,   0
+];
+
+const PAWN_EG = [
+   0,   0,   0,   0,   0,   0,   0,   0,
+  80,  80,  80,  80,  80,  80,  80,  80,
+  50,  50,  50,  50,  50,  50,  50,  50,
+  30,  30,  30,  30,  30,  30,  30,  30,
+  15,  15,  15,  15,  15,  15,  15,  15,
+   5,   5,   5,   5,   5,   5,   5,   5,
+   0,   0,   0,   0,   0,   0,   0,   0,
+   0,   0,   0,   0,   0,   0,   0,   0
+];
+
+const KNIGHT_TABLE = [
+  -50, -40, -30, -30, -30, -30, -40, -50,
+  -40, -20,   0,   0,   0,   0, -20, -40,
+  -30,   0,  10,  15,  15,  10,   0, -30,
+  -30,   5,  15,  20,  20,  15,   5, -30,
+  -30,   0,  15,  20,  20,  15,   0, -30,
+  -30,   5,  10,  15,  15,  10,   5, -30,
+  -40, -20,   0,   5,   5,   0, -20, -40,
+  -50, -40, -30, -30, -30, -30, -40, -50
+];
+
+const BISHOP_TABLE = [
+  -20, -10, -10, -10, -10, -10, -10, -20,
+  -10,   0,   0,   0,   0,   0,   0, -10,
+  -10,   0,   5,  10,  10,   5,   0, -10,
+  -10,   5,   5,  10,  10,   5,   5, -10,
+  -10,   0,  10,  10,  10,  10,   0, -10,
+  -10,  10,  10,  10,  10,  10,  10, -10,
+  -10,   5,   0,   0,   0,   0,   5, -10,
+  -20, -10, -10, -10, -10, -10, -10, -20
+];
+
+const ROOK_TABLE = [
+   0,   0,   0,   0,   0,   0,   0,   0,
+   5,  10,  10,  10,  10,  10,  10,   5,
+  -5,   0,   0,   0,   0,   0,   0,  -5,
+  -5,   0,   0,   0,   0,   0,   0,  -5,
+  -5,   0,   0,   0,   0,   0,   0,  -5,
+  -5,   0,   0,   0,   0,   0,   0,  -5,
+  -5,   0,   0,   0,   0,   0,   0,  -5,
+   0,   0,   0,   5,   5,   0,   0,   0
+];
+
+const QUEEN_TABLE = [
+  -20, -10, -10,  -5,  -5, -10, -10, -20,
+  -10,   0,   0,   0,   0,   0,   0, -10,
+  -10,   0,   5,   5,   5,   5,   0, -10,
+   -5,   0,   5,   5,   5,   5,   0,  -5,
+    0,   0,   5,   5,   5,   5,   0,  -5,
+  -10,   5,   5,   5,   5,   5,   0, -10,
+  -10,   0,   5,   0,   0,   0,   0, -10,
+  -20, -10, -10,  -5,  -5, -10, -10, -20
+];
+
+// The king hides behind its pawns while queens are about, then heads for the centre
+const KING_MG = [
+  -30, -40, -40, -50, -50, -40, -40, -30,
+  -30, -40, -40, -50, -50, -40, -40, -30,
+  -30, -40, -40, -50, -50, -40, -40, -30,
+  -30, -40, -40, -50, -50, -40, -40, -30,
+  -20, -30, -30, -40, -40, -30, -30, -20,
+  -10, -20, -20, -20, -20, -20, -20, -10,
+   20,  20,   0,   0,   0,   0,  20,  20,
+   20,  30,  10,   0,   0,  10,  30,  20
+];
+
+const KING_EG = [
+  -50, -40, -30, -20, -20, -30, -40, -50,
+  -30, -20, -10,   0,   0, -10, -20, -30,
+  -30, -10,  20,  30,  30,  20, -10, -30,
+  -30, -10,  30,  40,  40,  30, -10, -30,
+  -30, -10,  30,  40,  40,  30, -10, -30,
+  -30, -10,  20,  30,  30,  20, -10, -30,
+  -30, -30,   0,   0,   0,   0, -30, -30,
+  -50, -30, -30, -30, -30, -30, -30, -50
+];
+
+// Indexed by core type code
+const PIECE_SQUARE_MG = [[], PAWN_MG, KNIGHT_TABLE, BISHOP_TABLE, ROOK_TABLE, QUEEN_TABLE, KING_MG];
+const PIECE_SQUARE_EG = [[], PAWN_EG, KNIGHT_TABLE, BISHOP_TABLE, ROOK_TABLE, QUEEN_TABLE, KING_EG];
+
+const DOUBLED_PAWN = { mg: -10, eg: -20 };
+const ISOLATED_PAWN = { mg: -10, eg: -15 };
+// Passed pawn bonus by ranks advanced from the pawn's own back rank
+const PASSED_PAWN_MG = [0, 5, 10, 15, 25, 40, 60, 0];
+const PASSED_PAWN_EG = [0, 10, 20, 35, 60, 90, 130, 0];
+const ROOK_OPEN_FILE = { mg: 20, eg: 10 };
+const ROOK_SEMI_OPEN_FILE = { mg: 10, eg: 5 };
+const BISHOP_PAIR = { mg: 30, eg: 50 };
+// Middlegame only: a missing pawn in front of the king, and no own pawn on that file at all
+const MISSING_SHIELD_PAWN = -15;
+const OPEN_FILE_NEAR_KING = -10;
+
+export function getEvaluationTerms(position: ChessPosition): EvaluationTerms {
+  const mg: Record<TermName, number> = { material: 0, pieceSquares: 0, pawnStructure: 0, rooks: 0, bishopPair: 0, kingShelter: 0 };
+  const eg: Record<TermName, number> = { material: 0, pieceSquares: 0, pawnStructure: 0, rooks: 0, bishopPair: 0, kingShelter: 0 };
+  const add = (term: TermName, color: number, mgValue: number, egValue: number) => {
+    const sign = color === WHITE ? 1 : -1;
+    mg[term] += mgValue * sign;
+    eg[term] += egValue * sign;
+  };
+
+  // Pawns per file, and the most and least advanced rows they stand on, for each colour
+  const pawnCounts = [new Array(8).fill(0), new Array(8).fill(0)];
+  const minPawnRow = [new Array(8).fill(8), new Array(8).fill(8)];
+  const maxPawnRow = [new Array(8).fill(-1), new Array(8).fill(-1)];
+  const bishops = [0, 0];
+  let phase = 0;
+
+  for (let square = 0; square < 128; square++) {
+    if (!isOnBoard(square)) {
+      square += 7;
+      continue;
+    }
+
+    const piece = position.pieceAt(square);
+    if (piece === EMPTY) continue;
+
+    const type = pieceType(piece);
+    const color = pieceColor(piece);
+    const row = square >> 4;
+    const col = square & 7;
+    const tableIndex = (color === WHITE ? row : 7 - row) * 8 + col;
+
+    add('material', color, MATERIAL_MG[type], MATERIAL_EG[type]);
+    add('pieceSquares', color, PIECE_SQUARE_MG[type][tableIndex], PIECE_SQUARE_EG[type][tableIndex]);
+    phase += PHASE_WEIGHTS[type];
+
+    if (type === PAWN) {
+      pawnCounts[color][col]++;
+      minPawnRow[color][col] = Math.min(minPawnRow[color][col], row);
+      maxPawnRow[color][col] = Math.max(maxPawnRow[color][col], row);
+    } else if (type === BISHOP) {
+      bishops[color]++;
+    }
+  }
+
+  for (const color of [WHITE, BLACK]) {
+    if (bishops[color] >= 2) add('bishopPair', color, BISHOP_PAIR.mg, BISHOP_PAIR.eg);
+
+    for (let col = 0; col < 8; col++) {
+      const count = pawnCounts[color][col];
+      if (count === 0) continue;
+
+      if (count > 1) add('pawnStructure', color, DOUBLED_PAWN.mg * (count - 1), DOUBLED_PAWN.eg * (count - 1));
+
+      const hasNeighbour = (col > 0 && pawnCounts[color][col - 1] > 0) || (col < 7 && pawnCounts[color][col + 1] > 0);
+      if (!hasNeighbour) add('pawnStructure', color, ISOLATED_PAWN.mg * count, ISOLATED_PAWN.eg * count);
+    }
+  }
+
+  for (let square = 0; square < 128; square++) {
+    if (!isOnBoard(square)) {
+      square += 7;
+      continue;
+    }
+
+    const piece = position.pieceAt(square);
+    const type = pieceType(piece);
+    if (type !== PAWN && type !== ROOK && type !== KING) continue;
+
+    const color = pieceColor(piece);
+    const enemy = color ^ 1;
+    const row = square >> 4;
+    const col = square & 7;
+
+    if (type === PAWN) {
+      // Passed: no enemy pawn ahead on this file or either neighbour
+      let passed = true;
+      for (let file = Math.max(0, col - 1); file <= Math.min(7, col + 1); file++) {
+        if (color === WHITE ? minPawnRow[enemy][file] < row : maxPawnRow[enemy][file] > row) {
+          passed = false;
+          break;
+        }
+      }
+      // Only the front pawn of a doubled pair counts as passed
+      const isFront = color === WHITE ? minPawnRow[color][col] === row : maxPawnRow[color][col] === row;
+      if (passed && isFront) {
+        const advanced = color === WHITE ? 7 - row : row;
+        add('pawnStructure', color, PASSED_PAWN_MG[advanced], PASSED_PAWN_EG[advanced]);
+      }
+    } else if (type === ROOK) {
+      if (pawnCounts[color][col] === 0) {
+        const bonus = pawnCounts[enemy][col] === 0 ? ROOK_OPEN_FILE : ROOK_SEMI_OPEN_FILE;
+        add('rooks', color, bonus.mg, bonus.eg);
+      }
+    } else {
+      // Pawn shield: an own pawn one or two ranks in front of the king on each nearby file
+      const forward = color === WHITE ? -1 : 1;
+      let shelter = 0;
+      for (let file = Math.max(0, col - 1); file <= Math.min(7, col + 1); file++) {
+        const shielded = [row + forward, row + 2 * forward].some(shieldRow =>
+          shieldRow >= 0 && shieldRow < 8 && position.pieceAt(shieldRow * 16 + file) === pieceCode(PAWN, color)
+        );
+        if (!shielded) shelter += MISSING_SHIELD_PAWN;
+        if (pawnCounts[color][file] === 0) shelter += OPEN_FILE_NEAR_KING;
+      }
+      add('kingShelter', color, shelter, 0);
+    }
+  }
+
+  const taperedPhase = Math.min(phase, MAX_PHASE);
+  // No rounding, so a colour-mirrored position scores exactly the negation
+  const taper = (term: TermName) =>
+    (mg[term] * taperedPhase + eg[term] * (MAX_PHASE - taperedPhase)) / MAX_PHASE / 100;
+
+  const terms = { phase: taperedPhase, total: 0 } as EvaluationTerms;
+  for (const term of TERM_NAMES) {
+    terms[term] = taper(term);
+    terms.total += terms[term];
+  }
+
+  return terms;
+}
+
+// White-relative score in pawns
+export function evaluate(position: ChessPosition): number {
+  return getEvaluationTerms(position).total;
+}
@@ -0,0 +1,375 @@
+import {
+  GameState,
+  GameSettings,
+  Piece,
+  PieceType,
+  PieceColor,
+  Position,
+  CastlingRights,
+  positionToAlgebraic,
+  algebraicToPosition
+} from '@/types/chess';
+import { ChessEngine } from './chess-engine';
+import { getEnPassantTarget } from './chess-position';
+
+export const STARTING_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+const FEN_PIECES: Record<string, PieceType> = {
+  p: 'pawn',
+  n: 'knight',
+  b: 'bishop',
+  r: 'rook',
+  q: 'queen',
+  k: 'king'
+};
+
+const PIECE_LETTERS: Record<PieceType, string> = {
+  pawn: 'p',
+  knight: 'n',
+  bishop: 'b',
+  rook: 'r',
+  queen: 'q',
+  king: 'k'
+};
+
+const DEFAULT_FEN_SETTINGS: GameSettings = {
+  difficulty: 'medium',
+  playerColor: 'white',
+  aiColor: 'black',
+  allowUndo: true,
+  showHints: false
+};
+
+export class FenError extends Error {
+  constructor(message: string) {
+    super(`Invalid FEN: ${message}`);
+    this.name = 'FenError';
+  }
+}
+
+export interface ParsedFen {
+  board: (Piece | null)[][];
+  currentPlayer: PieceColor;
+  castlingRights: CastlingRights;
+  enPassantTarget: Position | null;
+  halfmoveClock: number;
+  fullmoveNumber: number;
+}
+
+export function parseFen(fen: string): ParsedFen {
+  const fields = fen.trim().split(/\s+/);
+
+  // Clocks are commonly omitted (EPD-style strings), so accept 4 fields too
+  if (fields.length !== 6 && fields.length !== 4) {
+    throw new FenError(`expected 4 or 6 space-separated fields, found ${fields.length}`);
+  }
+
+  const [placement, side, castling, enPassant, halfmove = '0', fullmove = '1'] = fields;
+
+  const board = parsePlacement(placement);
+
+  if (side !== 'w' && side !== 'b') {
+    throw new FenError(`side to move must be "w" or "b", found "${side}"`);
+  }
+  const currentPlayer: PieceColor = side === 'w' ? 'white' : 'black';
+
+  const castlingRights = parseCastling(castling, board);
+  const enPassantTarget = parseEnPassant(enPassant, board, currentPlayer);
+
+  if (!/^\d+$/.test(halfmove)) {
+    throw new FenError(`halfmove clock must be a non-negative integer, found "${halfmove}"`);
+  }
+  if (!/^\d+$/.test(fullmove) || parseInt(fullmove, 10) < 1) {
+    throw new FenError(`fullmove number must be a positive integer, found "${fullmove}"`);
+  }
+
+  // hasMoved is what the engine consults for castling, so encode the rights there
+  applyCastlingRights(board, castlingRights);
+
+  const parsed: ParsedFen = {
+    board,
+    currentPlayer,
+    castlingRights,
+    enPassantTarget,
+    halfmoveClock: parseInt(halfmove, 10),
+    fullmoveNumber: parseInt(fullmove, 10)
+  };
+
+  const opponent: PieceColor = currentPlayer === 'white' ? 'black' : 'white';
+  const probe = new ChessEngine(toGameState(parsed, fen, DEFAULT_FEN_SETTINGS, false));
+  if (probe.isInCheck(opponent)) {
+    throw new FenError(`${opponent} is in check but it is ${currentPlayer} to move`);
+  }
+
+  return parsed;
+}
+
+// Who moves first in a game set up from the FEN, and that move's number; a game without one
+// starts with white's first move
+export function getFenStart(fen?: string): { color: PieceColor; moveNumber: number } {
+  const fields = fen?.trim().split(/\s+/) ?? [];
+  return {
+    color: fields[1] === 'b' ? 'black' : 'white',
+    moveNumber: parseInt(fields[5] ?? '1', 10) || 1
+  };
+}
+
+export function validateFen(fen: string): { isValid: boolean; reason?: string } {
+  try {
+    parseFen(fen);
+    return { isValid: true };
+  } catch (error) {
+    return {
+      isValid: false,
+      reason: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+export function createGameStateFromFen(
+  fen: string,
+  gameSettings: GameSettings,
+  isAIGame = true
+): GameState {
+  return toGameState(parseFen(fen), fen.trim(), gameSettings, isAIGame);
+}
+
+export function gameStateToFen(gameState: GameState): string {
+  const placement = gameState.board.map(rank => {
+    let row = '';
+    let empty = 0;
+
+    for (const piece of rank) {
+      if (!piece) {
+        empty++;
+        continue;
+      }
+      if (empty > 0) {
+        row += empty;
+        empty = 0;
+      }
+      const letter = PIECE_LETTERS[piece.type];
+      row += piece.color === 'white' ? letter.toUpperCase() : letter;
+    }
+
+    return empty > 0 ? row + empty : row;
+  }).join('/');
+
+  const side = gameState.currentPlayer === 'white' ? 'w' : 'b';
+  const castling = formatCastling(getCastlingRights(gameState.board));
+  const enPassant = getEnPassantTarget(gameState);
+
+  return [
+    placement,
+    side,
+    castling,
+    enPassant ? positionToAlgebraic(enPassant) : '-',
+    gameState.halfmoveClock ?? 0,
+    gameState.fullmoveNumber ?? Math.floor(gameState.moves.length / 2) + 1
+  ].join(' ');
+}
+
+export function getCastlingRights(board: (Piece | null)[][]): CastlingRights {
+  const rightsFor = (color: PieceColor) => {
+    const row = color === 'white' ? 7 : 0;
+    const king = board[row][4];
+    const kingReady = !!king && king.type === 'king' && king.color === color && !king.hasMoved;
+    const rookReady = (col: number) => {
+      const rook = board[row][col];
+      return !!rook && rook.type === 'rook' && rook.color === color && !rook.hasMoved;
+    };
+
+    return {
+      kingside: kingReady && rookReady(7),
+      queenside: kingReady && rookReady(0)
+    };
+  };
+
+  return { white: rightsFor('white'), black: rightsFor('black') };
+}
+
+function toGameState(
+  parsed: ParsedFen,
+  fen: string,
+  gameSettings: GameSettings,
+  isAIGame: boolean
+): GameState {
+  return {
+    id: 'game-' + Date.now(),
+    board: parsed.board,
+    currentPlayer: parsed.currentPlayer,
+    status: 'active',
+    moves: [],
+    capturedPieces: { white: [], black: [] },
+    gameSettings,
+    isAIGame,
+    startTime: new Date(),
+    enPassantTarget: parsed.enPassantTarget,
+    halfmoveClock: parsed.halfmoveClock,
+    fullmoveNumber: parsed.fullmoveNumber,
+    initialFen: fen
+  };
+}
+
+function parsePlacement(placement: string): (Piece | null)[][] {
+  const ranks = placement.split('/');
+  if (ranks.length !== 8) {
+    throw new FenError(`piece placement must have 8 ranks, found ${ranks.length}`);
+  }
+
+  const board: (Piece | null)[][] = Array(8).fill(null).map(() => Array(8).fill(null));
+  const kings = { white: 0, black: 0 };
+
+  ranks.forEach((rank, row) => {
+    let col = 0;
+
+    for (const char of rank) {
+      if (/[1-8]/.test(char)) {
+        col += parseInt(char, 10);
+        continue;
+      }
+
+      const type = FEN_PIECES[char.toLowerCase()];
+      if (!type) {
+        throw new FenError(`unknown piece "${char}" on rank ${8 - row}`);
+      }
+      if (col > 7) {
+        throw new FenError(`rank ${8 - row} has more than 8 squares`);
+      }
+
+      const color: PieceColor = char === char.toUpperCase() ? 'white' : 'black';
+      const position = { row, col };
+
+      if (type === 'pawn' && (row === 0 || row === 7)) {
+        throw new FenError(`pawn on ${positionToAlgebraic(position)} cannot stand on the back rank`);
+      }
+      if (type === 'king') kings[color]++;
+
+      const homeRow = color === 'white' ? 6 : 1;
+      board[row][col] = {
+        id: `${color}-${type}-${positionToAlgebraic(position)}`,
+        type,
+        color,
+        position,
+        // Pawns off their home rank have moved; castling pieces are settled by the rights field
+        hasMoved: type === 'pawn' ? row !== homeRow : false
+      };
+      col++;
+    }
+
+    if (col !== 8) {
+      throw new FenError(`rank ${8 - row} describes ${col} squares instead of 8`);
+    }
+  });
+
+  for (const color of ['white', 'black'] as const) {
+    if (kings[color] !== 1) {
+      throw new FenError(`expected exactly one ${color} king, found ${kings[color]}`);
+    }
+  }
+
+  return board;
+}
+
+function parseCastling(castling: string, board: (Piece | null)[][]): CastlingRights {
+  if (!/^(-|K?Q?k?q?)$/.test(castling)) {
+    throw new FenError(`castling availability must be "-" or a subset of "KQkq", found "${castling}"`);
+  }
+
+  const rights: CastlingRights = {
+    white: { kingside: castling.includes('K'), queenside: castling.includes('Q') },
+    black: { kingside: castling.includes('k'), queenside: castling.includes('q') }
+  };
+
+  const checks: [boolean, PieceColor, number, string][] = [
+    [rights.white.kingside, 'white', 7, 'K'],
+    [rights.white.queenside, 'white', 0, 'Q'],
+    [rights.black.kingside, 'black', 7, 'k'],
+    [rights.black.queenside, 'black', 0, 'q']
+  ];
+
+  for (const [enabled, color, rookCol, flag] of checks) {
+    if (!enabled) continue;
+
+    const row = color === 'white' ? 7 : 0;
+    const king = board[row][4];
+    const rook = board[row][rookCol];
+    if (!king || king.type !== 'king' || king.color !== color) {
+      throw new FenError(`castling flag "${flag}" requires the ${color} king on ${positionToAlgebraic({ row, col: 4 })}`);
+    }
+    if (!rook || rook.type !== 'rook' || rook.color !== color) {
+      throw new FenError(`castling flag "${flag}" requires a ${color} rook on ${positionToAlgebraic({ row, col: rookCol })}`);
+    }
+  }
+
+  return rights;
+}
+
+function parseEnPassant(
+  enPassant: string,
+  board: (Piece | null)[][],
+  currentPlayer: PieceColor
+): Position | null {
+  if (enPassant === '-') return null;
+
+  if (!/^[a-h][36]$/.test(enPassant)) {
+    throw new FenError(`en passant square must be "-" or a square on rank 3 or 6, found "${enPassant}"`);
+  }
+
+  const target = algebraicToPosition(enPassant);
+  const expectedRow = currentPlayer === 'white' ? 2 : 5;
+  if (target.row !== expectedRow) {
+    throw new FenError(`en passant square ${enPassant} is impossible with ${currentPlayer} to move`);
+  }
+
+  // The pawn that just made the double step must stand directly in front of the target
+  const pawnRow = currentPlayer === 'white' ? 3 : 4;
+  const pawn = board[pawnRow][target.col];
+  const moverColor: PieceColor = currentPlayer === 'white' ? 'black' : 'white';
+  if (!pawn || pawn.type !== 'pawn' || pawn.color !== moverColor) {
+    throw new FenError(`en passant square ${enPassant} has no ${moverColor} pawn that just moved past it`);
+  }
+  if (board[target.row][target.col]) {
+    throw new FenError(`en passant square ${enPassant} is occupied`);
+  }
+
+  return target;
+}
+
+function applyCastlingRights(board: (Piece | null)[][], rights: CastlingRights): void {
+  for (const color of ['white', 'black'] as const) {
+    const row = color === 'white' ? 7 : 0;
+    const { kingside, queenside } = rights[color];
+
+    for (const piece of board[row]) {
+      if (!piece || piece.color !== color) continue;
+
+      if (piece.type === 'king') {
+        piece.hasMoved = !(piece.position.col === 4 && (kingside || queenside));
+      } else if (piece.type === 'rook') {
+        const col = piece.position.col;
+        piece.hasMoved = !((col === 7 && kingside) || (col === 0 && queenside));
+      }
+    }
+  }
+
+  // Kings and rooks away from their home rank can never castle
+  for (const rank of board) {
+    for (const piece of rank) {
+      if (!piece || (piece.type !== 'king' && piece.type !== 'rook')) continue;
+      const homeRow = piece.color === 'white' ? 7 : 0;
+      if (piece.position.row !== homeRow) piece.hasMoved = true;
+    }
+  }
+}
+
+function formatCastling(rights: CastlingRights): string {
+  const flags =
+    (rights.white.kingside ? 'K' : '') +
+    (rights.white.queenside ? 'Q' : '') +
+    (rights.black.kingside ? 'k' : '') +
+    (rights.black.queenside ? 'q' : '');
+
+  return flags || '-';
+}
+
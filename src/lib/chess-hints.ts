@@ -0,0 +1,62 @@
+import { Difficulty, GameState, PIECE_VALUES, Threat } from '@/types/chess';
+import {
+  ChessPosition,
+  isCaptureMove,
+  moveFrom,
+  movePromotion,
+  moveTo,
+  pieceType,
+  toColorCode,
+  toPieceType,
+  toPosition
+} from './chess-position';
+
+// Hints come from the strongest level, so they show the best move the search finds
+export const HINT_DIFFICULTY: Difficulty = 'expert';
+export const HINT_TIME_LIMIT_MS = 1500;
+
+const valueOf = (type: number): number => PIECE_VALUES[toPieceType(type)];
+
+// What the opponent threatens: the mates and material-winning captures or promotions
+// they would have if the side to move passed. Mates come first, then the biggest gains,
+// one threat per target square.
+export function findThreats(gameState: GameState): Threat[] {
+  const us = gameState.currentPlayer;
+  // In check the threat is already on the board
+  if (ChessPosition.fromGameState(gameState).inCheck()) return [];
+
+  const position = ChessPosition.fromGameState(gameState, us === 'white' ? 'black' : 'white');
+  const threats: Threat[] = [];
+
+  for (const move of position.generateLegalMoves()) {
+    const from = moveFrom(move);
+    const to = moveTo(move);
+    const attacker = valueOf(pieceType(position.pieceAt(from)));
+    const victim = isCaptureMove(move) ? valueOf(pieceType(position.pieceAt(to))) : 0;
+    const promotion = movePromotion(move) ? valueOf(movePromotion(move)) - PIECE_VALUES.pawn : 0;
+    const san = position.toSan(move);
+
+    position.makeMove(move);
+    const isMate = position.isCheckmate();
+    // A defended target costs the attacker in return, a promoted pawn its new value
+    const recapture = position.isSquareAttacked(to, toColorCode(us))
+      ? (movePromotion(move) ? valueOf(movePromotion(move)) : attacker)
+      : 0;
+    position.unmakeMove();
+
+    const material = victim + promotion - recapture;
+    if (isMate) {
+      threats.push({ from: toPosition(from), to: toPosition(to), san, kind: 'mate' });
+    } else if (material > 0) {
+      threats.push({ from: toPosition(from), to: toPosition(to), san, kind: 'material', material });
+    }
+  }
+
+  threats.sort((a, b) =>
+    a.kind !== b.kind ? (a.kind === 'mate' ? -1 : 1) : (b.material ?? 0) - (a.material ?? 0)
+  );
+  return threats.filter((threat, index) =>
+    threat.kind === 'mate' ||
+    threats.findIndex(other => other.to.row === threat.to.row && other.to.col === threat.to.col) === index
+  );
+}
@@ -0,0 +1,561 @@
+import {
+  GameState,
+  GameSettings,
+  INITIAL_BOARD_STATE,
+  Move,
+  Piece,
+  PieceColor,
+  PieceType,
+  TimeControl,
+  algebraicToPosition
+} from '@/types/chess';
+import { ChessEngine } from './chess-engine';
+import { createGameStateFromFen, getFenStart } from './chess-fen';
+import { identifyOpening } from './chess-openings';
+
+export type PgnResult = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+export interface PgnHeaders {
+  event?: string;
+  site?: string;
+  date?: Date;
+  round?: string;
+  white?: string;
+  black?: string;
+  extra?: Record<string, string>;
+}
+
+export interface PgnMoveNode {
+  san: string;
+  moveNumber: number;
+  ply: number;
+  nags: number[];
+  comments: string[];
+  variations: PgnMoveNode[][];
+}
+
+export interface ParsedPgn {
+  headers: Record<string, string>;
+  moves: PgnMoveNode[];
+  result: PgnResult;
+  comments: string[];
+}
+
+export interface ImportedPgn {
+  gameState: GameState;
+  headers: Record<string, string>;
+  result: PgnResult;
+}
+
+export class PgnParseError extends Error {
+  readonly ply?: number;
+  readonly moveNumber?: number;
+  readonly san?: string;
+
+  constructor(message: string, location?: { ply: number; moveNumber: number; san: string }) {
+    super(location
+      ? `${message} at move ${location.moveNumber}${location.ply % 2 === 0 ? '...' : '.'} ${location.san} (ply ${location.ply})`
+      : message);
+    this.name = 'PgnParseError';
+    this.ply = location?.ply;
+    this.moveNumber = location?.moveNumber;
+    this.san = location?.san;
+  }
+}
+
+const PGN_LINE_WIDTH = 80;
+
+const SAN_PIECES: Record<string, PieceType> = {
+  N: 'knight',
+  B: 'bishop',
+  R: 'rook',
+  Q: 'queen',
+  K: 'king'
+};
+
+// Traditional move suffix annotations and their standard NAG equivalents
+const SUFFIX_NAGS: Record<string, number> = {
+  '!': 1,
+  '?': 2,
+  '!!': 3,
+  '??': 4,
+  '!?': 5,
+  '?!': 6
+};
+
+// The winner of a decided game: the opponent of the side that resigned, or else of the side
+// left to move when it was mated or flagged
+export function getGameWinner(gameState: GameState): PieceColor | undefined {
+  const opponentOf = (color: PieceColor): PieceColor => (color === 'white' ? 'black' : 'white');
+
+  if (gameState.resignedBy) return opponentOf(gameState.resignedBy);
+  if (gameState.status === 'checkmate' || gameState.status === 'timeout') return opponentOf(gameState.currentPlayer);
+  return undefined;
+}
+
+export function getPgnResult(gameState: GameState): PgnResult {
+  const winner = getGameWinner(gameState);
+  if (winner) return winner === 'white' ? '1-0' : '0-1';
+
+  switch (gameState.status) {
+    case 'stalemate':
+    case 'draw':
+      return '1/2-1/2';
+    default:
+      return gameState.recordedResult ?? '*';
+  }
+}
+
+export function formatPgnDate(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}.${month}.${day}`;
+}
+
+export function exportPgn(gameState: GameState, headers: PgnHeaders = {}): string {
+  const result = getPgnResult(gameState);
+
+  const tags: [string, string][] = [
+    ['Event', headers.event ?? 'Casual Game'],
+    ['Site', headers.site ?? 'Chess Prime'],
+    ['Date', formatPgnDate(headers.date ?? gameState.startTime)],
+    ['Round', headers.round ?? '-'],
+    ['White', headers.white ?? '?'],
+    ['Black', headers.black ?? '?'],
+    ['Result', result]
+  ];
+
+  if (gameState.initialFen) {
+    tags.push(['SetUp', '1'], ['FEN', gameState.initialFen]);
+  }
+
+  const opening = identifyOpening(gameState);
+  if (opening) {
+    tags.push(['ECO', opening.eco], ['Opening', opening.name]);
+  }
+
+  const timeControl = gameState.gameSettings.timeControl;
+  if (gameState.clock && timeControl) {
+    tags.push(['TimeControl', formatPgnTimeControl(timeControl)]);
+  }
+  if (gameState.status === 'timeout' || gameState.drawReason === 'timeout-vs-insufficient-material') {
+    tags.push(['Termination', 'time forfeit']);
+  }
+
+  for (const [name, value] of Object.entries(headers.extra ?? {})) {
+    tags.push([name, value]);
+  }
+
+  const tagSection = tags
+    .map(([name, value]) => `[${name} "${escapeTagValue(value)}"]`)
+    .join('\n');
+
+  const movetext = wrapMovetext([...formatMovetext(gameState), result]);
+
+  return `${tagSection}\n\n${movetext}\n`;
+}
+
+export function formatSan(move: Move): string {
+  const san = move.notation.replace(/[+#]+$/, '');
+  if (move.isCheckmate) return san + '#';
+  if (move.isCheck) return san + '+';
+  return san;
+}
+
+function formatMovetext(gameState: GameState): string[] {
+  const tokens: string[] = [];
+  const { color: firstColor, moveNumber: firstMoveNumber } = getFenStart(gameState.initialFen);
+  const startsWithBlack = firstColor === 'black';
+
+  gameState.moves.forEach((move, index) => {
+    const ply = index + (startsWithBlack ? 1 : 0);
+    const moveNumber = firstMoveNumber + Math.floor(ply / 2);
+    const isWhiteMove = ply % 2 === 0;
+
+    // Black's move is numbered again when it opens the movetext or follows a comment
+    if (isWhiteMove) {
+      tokens.push(`${moveNumber}.`);
+    } else if (index === 0 || tokens[tokens.length - 1].startsWith('{')) {
+      tokens.push(`${moveNumber}...`);
+    }
+
+    tokens.push(formatSan(move));
+    if (move.clockRemaining !== undefined) {
+      tokens.push(`{[%clk ${formatPgnClock(move.clockRemaining)}]}`);
+    }
+  });
+
+  return tokens;
+}
+
+// The TimeControl tag counts in seconds, e.g. "300+2"
+function formatPgnTimeControl(timeControl: TimeControl): string {
+  return `${Math.round(timeControl.minutes * 60)}+${timeControl.increment}`;
+}
+
+function formatPgnClock(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60).toString().padStart(2, '0');
+  const seconds = (totalSeconds % 60).toString().padStart(2, '0');
+  return `${hours}:${minutes}:${seconds}`;
+}
+
+function wrapMovetext(tokens: string[]): string {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const token of tokens) {
+    if (line && line.length + 1 + token.length > PGN_LINE_WIDTH) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line ? `${line} ${token}` : token;
+    }
+  }
+
+  if (line) lines.push(line);
+  return lines.join('\n');
+}
+
+function escapeTagValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+type PgnToken =
+  | { type: 'tag'; name: string; value: string }
+  | { type: 'comment'; text: string }
+  | { type: 'nag'; value: number }
+  | { type: 'open' }
+  | { type: 'close' }
+  | { type: 'result'; value: PgnResult }
+  | { type: 'moveNumber'; value: number }
+  | { type: 'san'; value: string };
+
+export function parsePgn(pgn: string): ParsedPgn {
+  const tokens = tokenizePgn(pgn);
+  const headers: Record<string, string> = {};
+  const comments: string[] = [];
+  let index = 0;
+
+  while (index < tokens.length && (tokens[index].type === 'tag' || tokens[index].type === 'comment')) {
+    const token = tokens[index++];
+    if (token.type === 'tag') headers[token.name] = token.value;
+  }
+
+  const { color: firstColor, moveNumber: firstMoveNumber } = getFenStart(headers.FEN);
+  const startsWithBlack = firstColor === 'black';
+  let result: PgnResult = '*';
+
+  // Plies are counted from 1 for white's first move of the game
+  const parseLine = (startPly: number, depth: number): PgnMoveNode[] => {
+    const line: PgnMoveNode[] = [];
+    let ply = startPly;
+
+    while (index < tokens.length) {
+      const token = tokens[index];
+
+      switch (token.type) {
+        case 'san':
+          line.push({
+            san: token.value,
+            moveNumber: firstMoveNumber + Math.floor((ply - 1) / 2),
+            ply,
+            nags: [],
+            comments: [],
+            variations: []
+          });
+          ply++;
+          index++;
+          break;
+        case 'nag':
+          line[line.length - 1]?.nags.push(token.value);
+          index++;
+          break;
+        case 'comment':
+          if (line.length > 0) {
+            line[line.length - 1].comments.push(token.text);
+          } else if (depth === 0) {
+            comments.push(token.text);
+          }
+          index++;
+          break;
+        case 'moveNumber':
+          index++;
+          break;
+        case 'open': {
+          const previous = line[line.length - 1];
+          if (!previous) {
+            throw new PgnParseError('Variation opened before any move');
+          }
+          index++;
+          previous.variations.push(parseLine(previous.ply, depth + 1));
+          break;
+        }
+        case 'close':
+          if (depth === 0) {
+            throw new PgnParseError('Unbalanced ")" in movetext');
+          }
+          index++;
+          return line;
+        case 'result':
+          if (depth > 0) {
+            throw new PgnParseError('Game result inside a variation');
+          }
+          result = token.value;
+          index++;
+          return line;
+        case 'tag':
+          // The next game in a multi-game file begins here
+          if (depth > 0) {
+            throw new PgnParseError('Unterminated variation');
+          }
+          return line;
+      }
+    }
+
+    if (depth > 0) {
+      throw new PgnParseError('Unterminated variation');
+    }
+    return line;
+  };
+
+  const moves = parseLine(startsWithBlack ? 2 : 1, 0);
+
+  if (result === '*' && /^(1-0|0-1|1\/2-1\/2)$/.test(headers.Result ?? '')) {
+    result = headers.Result as PgnResult;
+  }
+
+  return { headers, moves, result, comments };
+}
+
+export function importPgn(pgn: string, gameSettings: GameSettings, isAIGame = true): ImportedPgn {
+  const parsed = parsePgn(pgn);
+  const fen = parsed.headers.FEN;
+
+  let gameState: GameState;
+  try {
+    gameState = fen
+      ? createGameStateFromFen(fen, gameSettings, isAIGame)
+      : {
+          id: 'game-' + Date.now(),
+          board: INITIAL_BOARD_STATE(),
+          currentPlayer: 'white',
+          status: 'active',
+          moves: [],
+          capturedPieces: { white: [], black: [] },
+          gameSettings,
+          isAIGame,
+          startTime: new Date()
+        };
+  } catch (error) {
+    throw new PgnParseError(`Invalid FEN tag: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const engine = new ChessEngine(gameState);
+
+  for (const node of parsed.moves) {
+    const location = { ply: node.ply, moveNumber: node.moveNumber, san: node.san };
+
+    if (gameState.status === 'checkmate' || gameState.status === 'stalemate') {
+      throw new PgnParseError('Move played after the game ended', location);
+    }
+
+    const resolved = resolveSan(engine, gameState, node.san, location);
+    engine.makeMove(resolved.piece, resolved.to, resolved.promotion);
+  }
+
+  const date = parsePgnDate(parsed.headers.Date);
+  if (date) gameState.startTime = date;
+
+  // Kept so the game exports with the result it was imported with
+  if (parsed.result !== '*' && getPgnResult(gameState) === '*') {
+    gameState.recordedResult = parsed.result;
+  }
+
+  return { gameState, headers: parsed.headers, result: parsed.result };
+}
+
+function resolveSan(
+  engine: ChessEngine,
+  gameState: GameState,
+  san: string,
+  location: { ply: number; moveNumber: number; san: string }
+): { piece: Piece; to: { row: number; col: number }; promotion?: PieceType } {
+  const color = gameState.currentPlayer;
+  const clean = san.replace(/[+#]+$/, '');
+
+  const castling = clean.replace(/0/g, 'O');
+  if (castling === 'O-O' || castling === 'O-O-O') {
+    const row = color === 'white' ? 7 : 0;
+    const king = gameState.board[row][4];
+    const to = { row, col: castling === 'O-O' ? 6 : 2 };
+
+    if (!king || king.type !== 'king' || king.color !== color ||
+        !engine.getValidMoves(king).some(move => move.isCastling && move.to.col === to.col)) {
+      throw new PgnParseError('Illegal castling move', location);
+    }
+    return { piece: king, to };
+  }
+
+  const match = clean.match(/^([NBRQK])?([a-h])?([1-8])?x?([a-h][1-8])(?:=?([NBRQ]))?$/);
+  if (!match) {
+    throw new PgnParseError('Unparseable move', location);
+  }
+
+  const [, pieceLetter, fromFile, fromRank, target, promotionLetter] = match;
+  const type: PieceType = pieceLetter ? SAN_PIECES[pieceLetter] : 'pawn';
+  const to = algebraicToPosition(target);
+  const fromPosition = algebraicToPosition(`${fromFile ?? 'a'}${fromRank ?? '1'}`);
+
+  const candidates: Piece[] = [];
+  for (const rank of gameState.board) {
+    for (const piece of rank) {
+      if (!piece || piece.color !== color || piece.type !== type) continue;
+      if (fromFile && piece.position.col !== fromPosition.col) continue;
+      if (fromRank && piece.position.row !== fromPosition.row) continue;
+
+      const reachesTarget = engine.getValidMoves(piece)
+        .some(move => move.to.row === to.row && move.to.col === to.col && !move.isCastling);
+      if (reachesTarget) candidates.push(piece);
+    }
+  }
+
+  if (candidates.length === 0) {
+    throw new PgnParseError('Illegal move', location);
+  }
+  if (candidates.length > 1) {
+    throw new PgnParseError('Ambiguous move', location);
+  }
+
+  const promotionRow = color === 'white' ? 0 : 7;
+  const promotion = promotionLetter ? SAN_PIECES[promotionLetter] : undefined;
+
+  if (type === 'pawn' && to.row === promotionRow && !promotion) {
+    throw new PgnParseError('Promotion piece missing', location);
+  }
+  if (promotion && (type !== 'pawn' || to.row !== promotionRow)) {
+    throw new PgnParseError('Promotion is only possible for a pawn reaching the last rank', location);
+  }
+
+  return { piece: candidates[0], to, promotion };
+}
+
+function tokenizePgn(pgn: string): PgnToken[] {
+  const tokens: PgnToken[] = [];
+  const text = pgn.replace(/\r\n?/g, '\n');
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    // Escape lines begin with % in the first column
+    if (char === '%' && (i === 0 || text[i - 1] === '\n')) {
+      i = skipToLineEnd(text, i);
+      continue;
+    }
+
+    if (char === ';') {
+      const end = skipToLineEnd(text, i);
+      tokens.push({ type: 'comment', text: text.slice(i + 1, end).trim() });
+      i = end;
+      continue;
+    }
+
+    if (char === '{') {
+      const end = text.indexOf('}', i);
+      if (end === -1) {
+        throw new PgnParseError('Unterminated comment');
+      }
+      tokens.push({ type: 'comment', text: text.slice(i + 1, end).trim() });
+      i = end + 1;
+      continue;
+    }
+
+    if (char === '[') {
+      const tag = text.slice(i).match(/^\[\s*([A-Za-z0-9_]+)\s*"((?:[^"\\]|\\.)*)"\s*\]/);
+      if (!tag) {
+        throw new PgnParseError(`Malformed tag pair near "${text.slice(i, i + 30).split('\n')[0]}"`);
+      }
+      tokens.push({ type: 'tag', name: tag[1], value: tag[2].replace(/\\(["\\])/g, '$1') });
+      i += tag[0].length;
+      continue;
+    }
+
+    if (char === '(') {
+      tokens.push({ type: 'open' });
+      i++;
+      continue;
+    }
+
+    if (char === ')') {
+      tokens.push({ type: 'close' });
+      i++;
+      continue;
+    }
+
+    if (char === '$') {
+      const nag = text.slice(i).match(/^\$(\d+)/);
+      if (!nag) {
+        throw new PgnParseError(`Malformed NAG near "${text.slice(i, i + 10)}"`);
+      }
+      tokens.push({ type: 'nag', value: parseInt(nag[1], 10) });
+      i += nag[0].length;
+      continue;
+    }
+
+    // A closing brace or bracket with nothing open cannot start any token
+    const wordMatch = text.slice(i).match(/^[^\s{}()[\];$]+/);
+    if (!wordMatch) {
+      const line = text.slice(0, i).split('\n').length;
+      throw new PgnParseError(`Unexpected character "${char}" on line ${line}`);
+    }
+    const word = wordMatch[0];
+    i += word.length;
+
+    const result = word.match(/^(1-0|0-1|1\/2-1\/2|\*)$/);
+    if (result) {
+      tokens.push({ type: 'result', value: result[1] as PgnResult });
+      continue;
+    }
+
+    // Move numbers may be glued to the move that follows, as in "12.e4" or "12...Nf6"
+    const numbered = word.match(/^(\d+)(\.+)(.*)$/);
+    let san = word;
+    if (numbered) {
+      tokens.push({ type: 'moveNumber', value: parseInt(numbered[1], 10) });
+      san = numbered[3];
+      if (!san) continue;
+    } else if (/^\d+$/.test(word)) {
+      tokens.push({ type: 'moveNumber', value: parseInt(word, 10) });
+      continue;
+    }
+
+    const suffix = san.match(/[!?]+$/);
+    const move = suffix ? san.slice(0, -suffix[0].length) : san;
+    if (move) {
+      tokens.push({ type: 'san', value: move });
+    }
+    if (suffix && SUFFIX_NAGS[suffix[0]] !== undefined) {
+      tokens.push({ type: 'nag', value: SUFFIX_NAGS[suffix[0]] });
+    }
+  }
+
+  return tokens;
+}
+
+function skipToLineEnd(text: string, start: number): number {
+  const end = text.indexOf('\n', start);
+  return end === -1 ? text.length : end;
+}
+
+function parsePgnDate(value?: string): Date | null {
+  const match = value?.match(/^(\d{4})\.(\d{2})\.(\d{2})$/);
+  if (!match) return null;
+  return new Date(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10));
+}
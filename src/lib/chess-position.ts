@@ -0,0 +1,723 @@
+import {
+  GameState,
+  Piece,
+  PieceColor,
+  PieceType,
+  Position,
+  positionToAlgebraic
+} from '@/types/chess';
+
+// Compact 0x88 position used for move generation and search. Squares are
+// row * 16 + col with row 0 as the eighth rank, matching the UI board's rows;
+// any square with (sq & 0x88) set is off the board.
+
+export const WHITE = 0;
+export const BLACK = 1;
+
+export const EMPTY = 0;
+export const PAWN = 1;
+export const KNIGHT = 2;
+export const BISHOP = 3;
+export const ROOK = 4;
+export const QUEEN = 5;
+export const KING = 6;
+
+// Piece codes are type | color << 3, so white pieces are 1-6 and black 9-14
+export const pieceCode = (type: number, color: number): number => type | (color << 3);
+export const pieceType = (code: number): number => code & 7;
+export const pieceColor = (code: number): number => code >> 3;
+
+export const FLAG_CAPTURE = 1;
+export const FLAG_EN_PASSANT = 2;
+export const FLAG_DOUBLE_PUSH = 4;
+export const FLAG_CASTLE = 8;
+
+// Moves are packed into one integer: from (7 bits), to (7 bits), promotion type (3 bits), flags
+export const encodeMove = (from: number, to: number, promotion = 0, flags = 0): number =>
+  from | (to << 7) | (promotion << 14) | (flags << 17);
+export const moveFrom = (move: number): number => move & 0x7f;
+export const moveTo = (move: number): number => (move >> 7) & 0x7f;
+export const movePromotion = (move: number): number => (move >> 14) & 7;
+export const moveFlags = (move: number): number => move >> 17;
+export const isCaptureMove = (move: number): boolean => (moveFlags(move) & FLAG_CAPTURE) !== 0;
+
+export const CASTLE_WHITE_KINGSIDE = 1;
+export const CASTLE_WHITE_QUEENSIDE = 2;
+export const CASTLE_BLACK_KINGSIDE = 4;
+export const CASTLE_BLACK_QUEENSIDE = 8;
+
+export const PIECE_TYPES: PieceType[] = ['pawn', 'knight', 'bishop', 'rook', 'queen', 'king'];
+const TYPE_CODES: Record<PieceType, number> = {
+  pawn: PAWN,
+  knight: KNIGHT,
+  bishop: BISHOP,
+  rook: ROOK,
+  queen: QUEEN,
+  king: KING
+};
+
+export const toPieceType = (type: number): PieceType => PIECE_TYPES[type - 1];
+export const toTypeCode = (type: PieceType): number => TYPE_CODES[type];
+export const toColor = (color: number): PieceColor => (color === WHITE ? 'white' : 'black');
+export const toColorCode = (color: PieceColor): number => (color === 'white' ? WHITE : BLACK);
+
+export const toSquare = (position: Position): number => position.row * 16 + position.col;
+export const toPosition = (square: number): Position => ({ row: square >> 4, col: square & 7 });
+export const isOnBoard = (square: number): boolean => (square & 0x88) === 0;
+
+export const KNIGHT_OFFSETS = [-33, -31, -18, -14, 14, 18, 31, 33];
+export const BISHOP_OFFSETS = [-17, -15, 15, 17];
+export const ROOK_OFFSETS = [-16, -1, 1, 16];
+export const KING_OFFSETS = [-17, -16, -15, -1, 1, 15, 16, 17];
+const PROMOTION_TYPES = [QUEEN, ROOK, BISHOP, KNIGHT];
+
+const SAN_LETTERS = ['', '', 'N', 'B', 'R', 'Q', 'K'];
+const SAN_LETTERS_LOWER = SAN_LETTERS.map(letter => letter.toLowerCase());
+
+// Long algebraic (UCI style) form, e.g. e2e4 or e7e8q
+export const toCoordinateNotation = (move: number): string =>
+  positionToAlgebraic(toPosition(moveFrom(move))) +
+  positionToAlgebraic(toPosition(moveTo(move))) +
+  (movePromotion(move) ? SAN_LETTERS_LOWER[movePromotion(move)] : '');
+
+// Which pieces can attack across each square difference, indexed by to - from + 119: bit n
+// is set when piece code n can, so one lookup rules out most pieces. ATTACK_STEPS holds the
+// step a slider takes from `from` towards `to`.
+const ATTACK_INDEX_OFFSET = 119;
+const ATTACK_MASKS = new Uint16Array(240);
+const ATTACK_STEPS = new Int8Array(240);
+
+for (let from = 0; from < 128; from++) {
+  if (!isOnBoard(from)) continue;
+
+  for (const color of [WHITE, BLACK]) {
+    const pawnStep = color === WHITE ? -16 : 16;
+    for (const to of [from + pawnStep - 1, from + pawnStep + 1]) {
+      if (isOnBoard(to)) ATTACK_MASKS[to - from + ATTACK_INDEX_OFFSET] |= 1 << pieceCode(PAWN, color);
+    }
+
+    const attacks: [number, number[], boolean][] = [
+      [KNIGHT, KNIGHT_OFFSETS, false],
+      [BISHOP, BISHOP_OFFSETS, true],
+      [ROOK, ROOK_OFFSETS, true],
+      [QUEEN, KING_OFFSETS, true],
+      [KING, KING_OFFSETS, false]
+    ];
+    for (const [type, offsets, slides] of attacks) {
+      for (const offset of offsets) {
+        for (let to = from + offset; isOnBoard(to); to += offset) {
+          const index = to - from + ATTACK_INDEX_OFFSET;
+          ATTACK_MASKS[index] |= 1 << pieceCode(type, color);
+          if (!slides) break;
+          ATTACK_STEPS[index] = offset;
+        }
+      }
+    }
+  }
+}
+
+// Rights lost when a piece moves from or to each square
+const CASTLING_MASK = new Uint8Array(128).fill(15);
+CASTLING_MASK[0x74] = 15 & ~(CASTLE_WHITE_KINGSIDE | CASTLE_WHITE_QUEENSIDE);
+CASTLING_MASK[0x77] = 15 & ~CASTLE_WHITE_KINGSIDE;
+CASTLING_MASK[0x70] = 15 & ~CASTLE_WHITE_QUEENSIDE;
+CASTLING_MASK[0x04] = 15 & ~(CASTLE_BLACK_KINGSIDE | CASTLE_BLACK_QUEENSIDE);
+CASTLING_MASK[0x07] = 15 & ~CASTLE_BLACK_KINGSIDE;
+CASTLING_MASK[0x00] = 15 & ~CASTLE_BLACK_QUEENSIDE;
+
+// Zobrist keys are split into two 32-bit halves; a fixed seed keeps hashes stable across sessions
+let seed = 0x9e3779b9;
+const nextRandom = (): number => {
+  seed ^= seed << 13;
+  seed ^= seed >>> 17;
+  seed ^= seed << 5;
+  return seed >>> 0;
+};
+const randomTable = (size: number): Uint32Array => {
+  const table = new Uint32Array(size);
+  for (let i = 0; i < size; i++) table[i] = nextRandom();
+  return table;
+};
+
+const ZOBRIST_PIECES_LO = randomTable(16 * 128);
+const ZOBRIST_PIECES_HI = randomTable(16 * 128);
+const ZOBRIST_CASTLING_LO = randomTable(16);
+const ZOBRIST_CASTLING_HI = randomTable(16);
+const ZOBRIST_EN_PASSANT_LO = randomTable(8);
+const ZOBRIST_EN_PASSANT_HI = randomTable(8);
+const ZOBRIST_SIDE_LO = nextRandom();
+const ZOBRIST_SIDE_HI = nextRandom();
+
+interface UndoRecord {
+  move: number;
+  captured: number;
+  castling: number;
+  enPassant: number;
+  halfmoveClock: number;
+  hashLo: number;
+  hashHi: number;
+}
+
+// The en passant square a game state implies: its explicit target, or the last double push
+export function getEnPassantTarget(gameState: GameState): Position | null {
+  if (gameState.enPassantTarget !== undefined) {
+    return gameState.enPassantTarget;
+  }
+
+  const lastMove = gameState.moves[gameState.moves.length - 1];
+  if (lastMove && lastMove.piece.type === 'pawn' && Math.abs(lastMove.to.row - lastMove.from.row) === 2) {
+    return { row: (lastMove.from.row + lastMove.to.row) / 2, col: lastMove.from.col };
+  }
+
+  return null;
+}
+
+export class ChessPosition {
+  public readonly board = new Uint8Array(128);
+  public sideToMove = WHITE;
+  public castling = 0;
+  public enPassant = -1;
+  public halfmoveClock = 0;
+  public fullmoveNumber = 1;
+  public hashLo = 0;
+  public hashHi = 0;
+
+  private readonly kingSquares = [-1, -1];
+  // Each side's occupied squares in no particular order, so attack tests visit pieces
+  // rather than the whole board; pieceIndex finds a square's slot in its side's list
+  private readonly pieceSquares = [new Uint8Array(64), new Uint8Array(64)];
+  private readonly pieceCounts = [0, 0];
+  private readonly pieceIndex = new Uint8Array(128);
+  private readonly undoStack: UndoRecord[] = [];
+  // Hashes of the game's positions before this one was set up, oldest first
+  private earlierHashes: { hashLo: number; hashHi: number }[] = [];
+
+  // Castling rights come from the pieces' hasMoved flags, as the engine has always read them
+  public static fromGameState(
+    gameState: GameState,
+    sideToMove: PieceColor = gameState.currentPlayer,
+    enPassantTarget?: Position | null
+  ): ChessPosition {
+    const position = new ChessPosition();
+    const { board } = gameState;
+
+    for (let row = 0; row < 8; row++) {
+      for (let col = 0; col < 8; col++) {
+        const piece = board[row][col];
+        if (piece) position.put(row * 16 + col, pieceCode(TYPE_CODES[piece.type], toColorCode(piece.color)));
+      }
+    }
+
+    const unmoved = (row: number, col: number, type: PieceType, color: PieceColor) => {
+      const piece: Piece | null = board[row][col];
+      return !!piece && piece.type === type && piece.color === color && !piece.hasMoved;
+    };
+    for (const color of ['white', 'black'] as const) {
+      const row = color === 'white' ? 7 : 0;
+      if (!unmoved(row, 4, 'king', color)) continue;
+      if (unmoved(row, 7, 'rook', color)) {
+        position.castling |= color === 'white' ? CASTLE_WHITE_KINGSIDE : CASTLE_BLACK_KINGSIDE;
+      }
+      if (unmoved(row, 0, 'rook', color)) {
+        position.castling |= color === 'white' ? CASTLE_WHITE_QUEENSIDE : CASTLE_BLACK_QUEENSIDE;
+      }
+    }
+
+    position.sideToMove = toColorCode(sideToMove);
+
+    // A side that is not actually to move can never capture en passant
+    const target = enPassantTarget !== undefined
+      ? enPassantTarget
+      : sideToMove === gameState.currentPlayer ? getEnPassantTarget(gameState) : null;
+    const pushedPawn = target ? toSquare(target) + (sideToMove === 'white' ? 16 : -16) : -1;
+    position.enPassant = target && position.hasEnPassantCapturer(pushedPawn, position.sideToMove)
+      ? toSquare(target)
+      : -1;
+
+    position.halfmoveClock = gameState.halfmoveClock ?? 0;
+    position.fullmoveNumber = gameState.fullmoveNumber ?? Math.floor(gameState.moves.length / 2) + 1;
+    position.computeHash();
+
+    return position;
+  }
+
+  public pieceAt(square: number): number {
+    return this.board[square];
+  }
+
+  public kingSquare(color: number): number {
+    return this.kingSquares[color];
+  }
+
+  public get ply(): number {
+    return this.undoStack.length;
+  }
+
+  public isSquareAttacked(square: number, byColor: number): boolean {
+    const board = this.board;
+    const squares = this.pieceSquares[byColor];
+
+    for (let i = this.pieceCounts[byColor] - 1; i >= 0; i--) {
+      const from = squares[i];
+      const index = square - from + ATTACK_INDEX_OFFSET;
+      if ((ATTACK_MASKS[index] & (1 << board[from])) === 0) continue;
+
+      // Sliders also need every square between them and the target to be empty
+      const step = ATTACK_STEPS[index];
+      if (step === 0) return true;
+      let between = from + step;
+      while (between !== square && board[between] === EMPTY) between += step;
+      if (between === square) return true;
+    }
+
+    return false;
+  }
+
+  public inCheck(color: number = this.sideToMove): boolean {
+    const king = this.kingSquares[color];
+    return king !== -1 && this.isSquareAttacked(king, color ^ 1);
+  }
+
+  // Pseudo-legal moves for the side to move; pass capturesOnly for quiet-move-free generation
+  public generatePseudoLegalMoves(moves: number[] = [], capturesOnly = false): number[] {
+    const board = this.board;
+    const us = this.sideToMove;
+    const them = us ^ 1;
+
+    for (let from = 0; from < 128; from++) {
+      if (!isOnBoard(from)) {
+        from += 7;
+        continue;
+      }
+
+      const piece = board[from];
+      if (piece === EMPTY || pieceColor(piece) !== us) continue;
+
+      const type = pieceType(piece);
+      if (type === PAWN) {
+        this.generatePawnMoves(from, moves, capturesOnly);
+        continue;
+      }
+
+      const offsets = type === KNIGHT ? KNIGHT_OFFSETS
+        : type === BISHOP ? BISHOP_OFFSETS
+        : type === ROOK ? ROOK_OFFSETS
+        : KING_OFFSETS;
+      const slides = type === BISHOP || type === ROOK || type === QUEEN;
+
+      for (const offset of offsets) {
+        for (let to = from + offset; isOnBoard(to); to += offset) {
+          const target = board[to];
+          if (target === EMPTY) {
+            if (!capturesOnly) moves.push(encodeMove(from, to));
+          } else {
+            if (pieceColor(target) === them) moves.push(encodeMove(from, to, 0, FLAG_CAPTURE));
+            break;
+          }
+          if (!slides) break;
+        }
+      }
+
+      if (type === KING && !capturesOnly) {
+        this.generateCastlingMoves(from, moves);
+      }
+    }
+
+    return moves;
+  }
+
+  public generateLegalMoves(capturesOnly = false): number[] {
+    const us = this.sideToMove;
+    const legal: number[] = [];
+
+    for (const move of this.generatePseudoLegalMoves([], capturesOnly)) {
+      this.makeMove(move);
+      if (!this.inCheck(us)) legal.push(move);
+      this.unmakeMove();
+    }
+
+    return legal;
+  }
+
+  public hasLegalMoves(): boolean {
+    const us = this.sideToMove;
+
+    for (const move of this.generatePseudoLegalMoves()) {
+      this.makeMove(move);
+      const legal = !this.inCheck(us);
+      this.unmakeMove();
+      if (legal) return true;
+    }
+
+    return false;
+  }
+
+  public isCheckmate(): boolean {
+    return this.inCheck() && !this.hasLegalMoves();
+  }
+
+  public isStalemate(): boolean {
+    return !this.inCheck() && !this.hasLegalMoves();
+  }
+
+  // Lets repetitions count positions the game went through before this one, as returned by
+  // ChessEngine.getEarlierPositions
+  public setEarlierPositions(positions: ChessPosition[]): void {
+    this.earlierHashes = positions.map(({ hashLo, hashHi }) => ({ hashLo, hashHi }));
+  }
+
+  // Whether the current position occurred before since the last irreversible move, in the
+  // moves made on this position or in the game before it
+  public isRepetition(): boolean {
+    const stack = this.undoStack;
+    const earlier = this.earlierHashes;
+    // Positions are indexed with the earlier ones first, then the stack's, then the current one
+    const current = earlier.length + stack.length;
+    const limit = Math.max(0, current - this.halfmoveClock);
+
+    for (let i = current - 2; i >= limit; i -= 2) {
+      const entry = i >= earlier.length ? stack[i - earlier.length] : earlier[i];
+      if (entry.hashLo === this.hashLo && entry.hashHi === this.hashHi) return true;
+    }
+
+    return false;
+  }
+
+  public isInsufficientMaterial(): boolean {
+    let minors = 0;
+    let knights = 0;
+    let bishopSquareColors = 0;
+
+    for (let square = 0; square < 128; square++) {
+      if (!isOnBoard(square)) {
+        square += 7;
+        continue;
+      }
+
+      const type = pieceType(this.board[square]);
+      if (type === PAWN || type === ROOK || type === QUEEN) return false;
+      if (type === KNIGHT) {
+        minors++;
+        knights++;
+      } else if (type === BISHOP) {
+        minors++;
+        bishopSquareColors |= 1 << (((square >> 4) + (square & 7)) % 2);
+      }
+    }
+
+    // K v K, K + minor v K, and bishops that all share one square colour
+    return minors <= 1 || (knights === 0 && bishopSquareColors !== 3);
+  }
+
+  public makeMove(move: number): void {
+    const board = this.board;
+    const from = moveFrom(move);
+    const to = moveTo(move);
+    const flags = moveFlags(move);
+    const piece = board[from];
+    const us = this.sideToMove;
+
+    const captureSquare = flags & FLAG_EN_PASSANT ? to + (us === WHITE ? 16 : -16) : to;
+    const captured = board[captureSquare];
+
+    this.undoStack.push({
+      move,
+      captured,
+      castling: this.castling,
+      enPassant: this.enPassant,
+      halfmoveClock: this.halfmoveClock,
+      hashLo: this.hashLo,
+      hashHi: this.hashHi
+    });
+
+    if (captured !== EMPTY) this.remove(captureSquare);
+    this.remove(from);
+
+    const promotion = movePromotion(move);
+    this.put(to, promotion ? pieceCode(promotion, us) : piece);
+
+    if (flags & FLAG_CASTLE) {
+      const kingside = to > from;
+      const rookFrom = kingside ? from + 3 : from - 4;
+      const rookTo = kingside ? from + 1 : from - 1;
+      const rook = board[rookFrom];
+      this.remove(rookFrom);
+      this.put(rookTo, rook);
+    }
+
+    this.setCastling(this.castling & CASTLING_MASK[from] & CASTLING_MASK[to]);
+    this.setEnPassant(flags & FLAG_DOUBLE_PUSH && this.hasEnPassantCapturer(to, us ^ 1) ? (from + to) >> 1 : -1);
+
+    this.halfmoveClock = pieceType(piece) === PAWN || captured !== EMPTY ? 0 : this.halfmoveClock + 1;
+    if (us === BLACK) this.fullmoveNumber++;
+
+    this.sideToMove = us ^ 1;
+    this.hashLo ^= ZOBRIST_SIDE_LO;
+    this.hashHi ^= ZOBRIST_SIDE_HI;
+  }
+
+  public unmakeMove(): void {
+    const undo = this.undoStack.pop();
+    if (!undo) return;
+
+    const { move, captured } = undo;
+    const from = moveFrom(move);
+    const to = moveTo(move);
+    const flags = moveFlags(move);
+    const us = this.sideToMove ^ 1;
+
+    const moved = this.board[to];
+    this.remove(to);
+    this.put(from, movePromotion(move) ? pieceCode(PAWN, us) : moved);
+
+    if (captured !== EMPTY) {
+      this.put(flags & FLAG_EN_PASSANT ? to + (us === WHITE ? 16 : -16) : to, captured);
+    }
+
+    if (flags & FLAG_CASTLE) {
+      const kingside = to > from;
+      const rookFrom = kingside ? from + 3 : from - 4;
+      const rookTo = kingside ? from + 1 : from - 1;
+      const rook = this.board[rookTo];
+      this.remove(rookTo);
+      this.put(rookFrom, rook);
+    }
+
+    this.sideToMove = us;
+    this.castling = undo.castling;
+    this.enPassant = undo.enPassant;
+    this.halfmoveClock = undo.halfmoveClock;
+    if (us === BLACK) this.fullmoveNumber--;
+
+    // Restoring the saved hash undoes every incremental update at once
+    this.hashLo = undo.hashLo;
+    this.hashHi = undo.hashHi;
+  }
+
+  // Standard algebraic notation for a legal move in this position
+  public toSan(move: number, withSuffix = true): string {
+    const from = moveFrom(move);
+    const to = moveTo(move);
+    const flags = moveFlags(move);
+    const type = pieceType(this.board[from]);
+    let san: string;
+
+    if (flags & FLAG_CASTLE) {
+      san = to > from ? 'O-O' : 'O-O-O';
+    } else {
+      const destination = positionToAlgebraic(toPosition(to));
+      const isCapture = (flags & FLAG_CAPTURE) !== 0;
+
+      if (type === PAWN) {
+        san = isCapture ? positionToAlgebraic(toPosition(from))[0] + 'x' + destination : destination;
+        const promotion = movePromotion(move);
+        if (promotion) san += '=' + SAN_LETTERS[promotion];
+      } else {
+        san = SAN_LETTERS[type] + this.getDisambiguation(move) + (isCapture ? 'x' : '') + destination;
+      }
+    }
+
+    if (withSuffix) {
+      this.makeMove(move);
+      if (this.inCheck()) san += this.hasLegalMoves() ? '+' : '#';
+      this.unmakeMove();
+    }
+
+    return san;
+  }
+
+  // Finds the legal move matching a UI move, if there is one
+  public findMove(from: Position, to: Position, promotion?: PieceType): number | null {
+    const fromSquare = toSquare(from);
+    const toSquareIndex = toSquare(to);
+    const promotionCode = promotion ? TYPE_CODES[promotion] : 0;
+
+    for (const move of this.generateLegalMoves()) {
+      if (moveFrom(move) !== fromSquare || moveTo(move) !== toSquareIndex) continue;
+      // A promotion without an explicit choice is a queen, as in ChessEngine.makeMove
+      const expected = movePromotion(move) ? promotionCode || QUEEN : 0;
+      if (movePromotion(move) === expected) return move;
+    }
+
+    return null;
+  }
+
+  // Counts the leaves of the legal move tree, the standard check on a move generator
+  public perft(depth: number): number {
+    if (depth === 0) return 1;
+
+    const moves = this.generateLegalMoves();
+    if (depth === 1) return moves.length;
+
+    let nodes = 0;
+    for (const move of moves) {
+      this.makeMove(move);
+      nodes += this.perft(depth - 1);
+      this.unmakeMove();
+    }
+
+    return nodes;
+  }
+
+  private generatePawnMoves(from: number, moves: number[], capturesOnly: boolean): void {
+    const board = this.board;
+    const us = this.sideToMove;
+    const forward = us === WHITE ? -16 : 16;
+    const startRow = us === WHITE ? 6 : 1;
+    const promotionRow = us === WHITE ? 0 : 7;
+
+    const push = (to: number, flags: number) => {
+      if (to >> 4 === promotionRow) {
+        for (const promotion of PROMOTION_TYPES) moves.push(encodeMove(from, to, promotion, flags));
+      } else {
+        moves.push(encodeMove(from, to, 0, flags));
+      }
+    };
+
+    const oneStep = from + forward;
+    // Promotions change material, so they count as tactical even without a capture
+    if (isOnBoard(oneStep) && board[oneStep] === EMPTY &&
+        (!capturesOnly || oneStep >> 4 === promotionRow)) {
+      push(oneStep, 0);
+
+      const twoSteps = oneStep + forward;
+      if (!capturesOnly && from >> 4 === startRow && board[twoSteps] === EMPTY) {
+        moves.push(encodeMove(from, twoSteps, 0, FLAG_DOUBLE_PUSH));
+      }
+    }
+
+    for (const side of [-1, 1]) {
+      const to = oneStep + side;
+      if (!isOnBoard(to)) continue;
+
+      const target = board[to];
+      if (target !== EMPTY && pieceColor(target) !== us) {
+        push(to, FLAG_CAPTURE);
+      } else if (to === this.enPassant) {
+        moves.push(encodeMove(from, to, 0, FLAG_CAPTURE | FLAG_EN_PASSANT));
+      }
+    }
+  }
+
+  private generateCastlingMoves(from: number, moves: number[]): void {
+    const us = this.sideToMove;
+    const them = us ^ 1;
+    const home = us === WHITE ? 0x74 : 0x04;
+    if (from !== home) return;
+
+    const kingside = us === WHITE ? CASTLE_WHITE_KINGSIDE : CASTLE_BLACK_KINGSIDE;
+    const queenside = us === WHITE ? CASTLE_WHITE_QUEENSIDE : CASTLE_BLACK_QUEENSIDE;
+    const board = this.board;
+
+    if ((this.castling & (kingside | queenside)) === 0 || this.isSquareAttacked(from, them)) return;
+
+    // The king may not pass through or land on an attacked square; the b-file square only needs to be empty
+    if (this.castling & kingside &&
+        board[from + 1] === EMPTY && board[from + 2] === EMPTY &&
+        !this.isSquareAttacked(from + 1, them) && !this.isSquareAttacked(from + 2, them)) {
+      moves.push(encodeMove(from, from + 2, 0, FLAG_CASTLE));
+    }
+
+    if (this.castling & queenside &&
+        board[from - 1] === EMPTY && board[from - 2] === EMPTY && board[from - 3] === EMPTY &&
+        !this.isSquareAttacked(from - 1, them) && !this.isSquareAttacked(from - 2, them)) {
+      moves.push(encodeMove(from, from - 2, 0, FLAG_CASTLE));
+    }
+  }
+
+  private getDisambiguation(move: number): string {
+    const from = moveFrom(move);
+    const to = moveTo(move);
+    const piece = this.board[from];
+
+    const rivals = this.generateLegalMoves()
+      .filter(other => moveTo(other) === to && moveFrom(other) !== from && this.board[moveFrom(other)] === piece)
+      .map(other => moveFrom(other));
+
+    if (rivals.length === 0) return '';
+
+    const square = positionToAlgebraic(toPosition(from));
+    if (!rivals.some(rival => (rival & 7) === (from & 7))) return square[0];
+    if (!rivals.some(rival => rival >> 4 === from >> 4)) return square[1];
+    return square;
+  }
+
+  // The en passant square is only recorded when an enemy pawn stands beside the pushed pawn,
+  // so positions that differ only by an unusable square share a hash (as in Polyglot books)
+  private hasEnPassantCapturer(pushedPawn: number, byColor: number): boolean {
+    const pawn = pieceCode(PAWN, byColor);
+    return (isOnBoard(pushedPawn - 1) && this.board[pushedPawn - 1] === pawn) ||
+      (isOnBoard(pushedPawn + 1) && this.board[pushedPawn + 1] === pawn);
+  }
+
+  private put(square: number, piece: number): void {
+    this.board[square] = piece;
+    this.hashLo ^= ZOBRIST_PIECES_LO[piece * 128 + square];
+    this.hashHi ^= ZOBRIST_PIECES_HI[piece * 128 + square];
+    if (pieceType(piece) === KING) this.kingSquares[pieceColor(piece)] = square;
+
+    const color = pieceColor(piece);
+    const slot = this.pieceCounts[color]++;
+    this.pieceSquares[color][slot] = square;
+    this.pieceIndex[square] = slot;
+  }
+
+  private remove(square: number): void {
+    const piece = this.board[square];
+    this.board[square] = EMPTY;
+    this.hashLo ^= ZOBRIST_PIECES_LO[piece * 128 + square];
+    this.hashHi ^= ZOBRIST_PIECES_HI[piece * 128 + square];
+
+    // The side's last square fills the slot this one leaves
+    const color = pieceColor(piece);
+    const squares = this.pieceSquares[color];
+    const lastSquare = squares[--this.pieceCounts[color]];
+    const slot = this.pieceIndex[square];
+    squares[slot] = lastSquare;
+    this.pieceIndex[lastSquare] = slot;
+  }
+
+  private setCastling(castling: number): void {
+    this.hashLo ^= ZOBRIST_CASTLING_LO[this.castling] ^ ZOBRIST_CASTLING_LO[castling];
+    this.hashHi ^= ZOBRIST_CASTLING_HI[this.castling] ^ ZOBRIST_CASTLING_HI[castling];
+    this.castling = castling;
+  }
+
+  private setEnPassant(square: number): void {
+    if (this.enPassant !== -1) {
+      this.hashLo ^= ZOBRIST_EN_PASSANT_LO[this.enPassant & 7];
+      this.hashHi ^= ZOBRIST_EN_PASSANT_HI[this.enPassant & 7];
+    }
+    if (square !== -1) {
+      this.hashLo ^= ZOBRIST_EN_PASSANT_LO[square & 7];
+      this.hashHi ^= ZOBRIST_EN_PASSANT_HI[square & 7];
+    }
+    this.enPassant = square;
+  }
+
+  private computeHash(): void {
+    let lo = 0;
+    let hi = 0;
+
+    for (let square = 0; square < 128; square++) {
+      const piece = isOnBoard(square) ? this.board[square] : EMPTY;
+      if (piece === EMPTY) continue;
+      lo ^= ZOBRIST_PIECES_LO[piece * 128 + square];
+      hi ^= ZOBRIST_PIECES_HI[piece * 128 + square];
+    }
+
+    lo ^= ZOBRIST_CASTLING_LO[this.castling];
+    hi ^= ZOBRIST_CASTLING_HI[this.castling];
+    if (this.enPassant !== -1) {
+      lo ^= ZOBRIST_EN_PASSANT_LO[this.enPassant & 7];
+      hi ^= ZOBRIST_EN_PASSANT_HI[this.enPassant & 7];
+    }
+    if (this.sideToMove === BLACK) {
+      lo ^= ZOBRIST_SIDE_LO;
+      hi ^= ZOBRIST_SIDE_HI;
+    }
+
+    this.hashLo = lo;
+    this.hashHi = hi;
+  }
+}
@@ -0,0 +1,104 @@
+import {
+  GameSettings,
+  GameState,
+  INITIAL_BOARD_STATE,
+  Move,
+  Piece,
+  PieceColor,
+  Position,
+  positionToAlgebraic
+} from '@/types/chess';
+import { ChessEngine } from './chess-engine';
+import { createGameStateFromFen } from './chess-fen';
+
+// A recorded game stepped through one position at a time
+
+export interface ReplayFrame {
+  board: (Piece | null)[][];
+  currentPlayer: PieceColor;
+  // The position's fullmove number, already advanced by a black move that reached it
+  fullmoveNumber: number;
+  lastMove?: { from: Position; to: Position };
+}
+
+export class ReplayError extends Error {
+  constructor(message: string, public readonly ply?: number) {
+    super(message);
+    this.name = 'ReplayError';
+  }
+}
+
+const copyBoard = (board: (Piece | null)[][]): (Piece | null)[][] =>
+  board.map(rank => rank.map(piece => (piece ? { ...piece, position: { ...piece.position } } : null)));
+
+function createStartingState(gameSettings: GameSettings, initialFen?: string): GameState {
+  try {
+    return initialFen
+      ? createGameStateFromFen(initialFen, gameSettings, false)
+      : {
+          id: 'replay-' + Date.now(),
+          board: INITIAL_BOARD_STATE(),
+          currentPlayer: 'white',
+          status: 'active',
+          moves: [],
+          capturedPieces: { white: [], black: [] },
+          gameSettings,
+          isAIGame: false,
+          startTime: new Date()
+        };
+  } catch (error) {
+    throw new ReplayError(`Invalid starting position: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// Plays the recorded moves again from the start, calling back with the starting position
+// and then after each move
+function playMoves(
+  moves: Move[],
+  gameSettings: GameSettings,
+  initialFen: string | undefined,
+  onPosition: (gameState: GameState, move?: Move) => void
+): GameState {
+  const gameState = createStartingState(gameSettings, initialFen);
+  const engine = new ChessEngine(gameState);
+  onPosition(gameState);
+
+  moves.forEach((move, index) => {
+    const piece = gameState.board[move.from.row][move.from.col];
+    if (!piece || piece.color !== gameState.currentPlayer) {
+      throw new ReplayError(`No ${gameState.currentPlayer} piece on ${positionToAlgebraic(move.from)}`, index + 1);
+    }
+
+    try {
+      engine.makeMove(piece, move.to, move.promotionPiece);
+    } catch (error) {
+      throw new ReplayError(error instanceof Error ? error.message : String(error), index + 1);
+    }
+    onPosition(gameState, move);
+  });
+
+  return gameState;
+}
+
+// The full game state after every recorded move, with its own move list, so ChessEngine
+// can take moves back from it
+export function replayGame(moves: Move[], gameSettings: GameSettings, initialFen?: string): GameState {
+  return playMoves(moves, gameSettings, initialFen, () => {});
+}
+
+// Frame 0 is the starting position and frame n the position after the nth move,
+// so a move's index in `moves` is one less than the frame that shows it played
+export function buildReplayFrames(moves: Move[], gameSettings: GameSettings, initialFen?: string): ReplayFrame[] {
+  const frames: ReplayFrame[] = [];
+
+  playMoves(moves, gameSettings, initialFen, (gameState, move) => {
+    frames.push({
+      board: copyBoard(gameState.board),
+      currentPlayer: gameState.currentPlayer,
+      fullmoveNumber: gameState.fullmoveNumber ?? Math.floor(gameState.moves.length / 2) + 1,
+      lastMove: move && { from: move.from, to: move.to }
+    });
+  });
+
+  return frames;
+}
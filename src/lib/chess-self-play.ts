@@ -0,0 +1,139 @@
+import { Difficulty, GameSettings } from '@/types/chess';
+import { ChessAI } from './chess-ai';
+import { ChessEngine } from './chess-engine';
+import { STARTING_FEN, createGameStateFromFen } from './chess-fen';
+import { PgnResult, getPgnResult } from './chess-pgn';
+import { DIFFICULTY_LEVELS, STRENGTH_PROFILES } from './chess-strength';
+
+// Plays the AI levels against each other and fits ratings to the results, so the Elo
+// figures in STRENGTH_PROFILES can be checked after any change to the search or evaluation.
+
+export interface SelfPlayGame {
+  white: Difficulty;
+  black: Difficulty;
+  // '*' when the game hit the ply limit; scored as a draw
+  result: PgnResult;
+  plies: number;
+}
+
+export interface SelfPlayOptions {
+  gamesPerPairing?: number;
+  // Caps every search, for quicker runs; node budgets still separate the levels
+  timeLimitMs?: number;
+  maxPlies?: number;
+  onGame?: (game: SelfPlayGame) => void;
+}
+
+export interface CalibrationResult {
+  games: SelfPlayGame[];
+  // Anchored so the beginner level keeps its profile rating
+  ratings: Record<Difficulty, number>;
+}
+
+const SELF_PLAY_SETTINGS: GameSettings = {
+  difficulty: 'medium',
+  playerColor: 'white',
+  aiColor: 'black',
+  allowUndo: false,
+  showHints: false
+};
+
+const DEFAULT_GAMES_PER_PAIRING = 10;
+const DEFAULT_MAX_PLIES = 300;
+const RATING_ITERATIONS = 500;
+
+// Each pairing also counts as one drawn game, so a clean sweep still gives a finite gap
+const PRIOR_DRAWS = 1;
+
+export async function playSelfPlayGame(
+  white: Difficulty,
+  black: Difficulty,
+  options: SelfPlayOptions = {}
+): Promise<SelfPlayGame> {
+  const gameState = createGameStateFromFen(STARTING_FEN, SELF_PLAY_SETTINGS, false);
+  const engine = new ChessEngine(gameState);
+  const players = { white: new ChessAI(white), black: new ChessAI(black) };
+  const maxPlies = options.maxPlies ?? DEFAULT_MAX_PLIES;
+
+  while ((gameState.status === 'active' || gameState.status === 'check') && gameState.moves.length < maxPlies) {
+    const side = gameState.currentPlayer;
+    const { move } = await players[side].getBestMove(gameState, side, { timeLimitMs: options.timeLimitMs });
+    const piece = gameState.board[move.from.row][move.from.col]!;
+    engine.makeMove(piece, move.to, move.promotionPiece);
+  }
+
+  return { white, black, result: getPgnResult(gameState), plies: gameState.moves.length };
+}
+
+// Score for white: 1, 0.5 or 0
+const whiteScore = (result: PgnResult): number => (result === '1-0' ? 1 : result === '0-1' ? 0 : 0.5);
+
+const expectedScore = (rating: number, opponent: number): number => 1 / (1 + 10 ** ((opponent - rating) / 400));
+
+// Maximum-likelihood Elo ratings for the levels that played, centred on zero
+export function estimateRatings(games: SelfPlayGame[]): Partial<Record<Difficulty, number>> {
+  const pairings = new Map<string, { a: Difficulty; b: Difficulty; scoreA: number; count: number }>();
+  for (const game of games) {
+    const [a, b] = [game.white, game.black].sort() as [Difficulty, Difficulty];
+    if (a === b) continue;
+
+    const key = `${a}:${b}`;
+    const pairing = pairings.get(key) ?? { a, b, scoreA: PRIOR_DRAWS / 2, count: PRIOR_DRAWS };
+    const score = whiteScore(game.result);
+    pairing.scoreA += game.white === a ? score : 1 - score;
+    pairing.count++;
+    pairings.set(key, pairing);
+  }
+
+  const levels = DIFFICULTY_LEVELS.filter(level =>
+    [...pairings.values()].some(({ a, b }) => level === a || level === b)
+  );
+  const ratings = Object.fromEntries(DIFFICULTY_LEVELS.map(level => [level, 0])) as Record<Difficulty, number>;
+
+  for (let iteration = 0; iteration < RATING_ITERATIONS; iteration++) {
+    for (const level of levels) {
+      let actual = 0;
+      let expected = 0;
+      let count = 0;
+      for (const { a, b, scoreA, count: games } of pairings.values()) {
+        if (level !== a && level !== b) continue;
+
+        const opponent = ratings[level === a ? b : a];
+        actual += level === a ? scoreA : games - scoreA;
+        expected += games * expectedScore(ratings[level], opponent);
+        count += games;
+      }
+      // A damped Newton step: the expected score moves about 1/700 of a game per point
+      ratings[level] += (400 * (actual - expected)) / count;
+    }
+  }
+
+  const mean = levels.reduce((sum, level) => sum + ratings[level], 0) / levels.length;
+  return Object.fromEntries(levels.map(level => [level, Math.round(ratings[level] - mean)]));
+}
+
+// Matches each level against the next one up, alternating colours, then rates them all
+export async function runStrengthCalibration(options: SelfPlayOptions = {}): Promise<CalibrationResult> {
+  const gamesPerPairing = options.gamesPerPairing ?? DEFAULT_GAMES_PER_PAIRING;
+  const games: SelfPlayGame[] = [];
+
+  for (let i = 0; i + 1 < DIFFICULTY_LEVELS.length; i++) {
+    const [weaker, stronger] = [DIFFICULTY_LEVELS[i], DIFFICULTY_LEVELS[i + 1]];
+    for (let game = 0; game < gamesPerPairing; game++) {
+      const result = game % 2 === 0
+        ? await playSelfPlayGame(weaker, stronger, options)
+        : await playSelfPlayGame(stronger, weaker, options);
+      games.push(result);
+      options.onGame?.(result);
+    }
+  }
+
+  const relative = estimateRatings(games);
+  const anchor = DIFFICULTY_LEVELS[0];
+  const offset = STRENGTH_PROFILES[anchor].elo - (relative[anchor] ?? 0);
+  const ratings = Object.fromEntries(
+    DIFFICULTY_LEVELS.map(level => [level, (relative[level] ?? 0) + offset])
+  ) as Record<Difficulty, number>;
+
+  return { games, ratings };
+}
@@ -0,0 +1,66 @@
+import { Difficulty } from '@/types/chess';
+
+// How each level plays. Weaker levels look less far, choose loosely among the moves
+// that score close to the best, and now and then overlook one of the opponent's pieces.
+export interface StrengthProfile {
+  label: string;
+  // Rating from self-play, as measured by `npm run calibrate` with 20 games per pairing. Only the
+  // gaps are measured: the beginner level is pinned at 800. Player ratings are computed against it.
+  elo: number;
+  maxDepth: number;
+  timeBudgetMs: number;
+  // Makes strength independent of hardware speed
+  nodeBudget: number;
+  // Softmax temperature in pawns over the root move scores; 0 always plays the best move
+  temperature: number;
+  // Chance per move of ignoring every reply by one enemy piece
+  oversightRate: number;
+  // How long the level stays in the book, and how strongly it prefers the main lines:
+  // book moves are picked with probability proportional to weight ** exponent
+  book: { maxPly: number; exponent: number };
+}
+
+export const DIFFICULTY_LEVELS: Difficulty[] = ['easy', 'medium', 'hard', 'expert'];
+
+export const STRENGTH_PROFILES: Record<Difficulty, StrengthProfile> = {
+  easy: {
+    label: 'Beginner',
+    elo: 800,
+    maxDepth: 2,
+    timeBudgetMs: 300,
+    nodeBudget: 20_000,
+    temperature: 0.6,
+    oversightRate: 0.25,
+    book: { maxPly: 6, exponent: 0 }
+  },
+  medium: {
+    label: 'Intermediate',
+    elo: 1246,
+    maxDepth: 3,
+    timeBudgetMs: 1000,
+    nodeBudget: 100_000,
+    temperature: 0.3,
+    oversightRate: 0.1,
+    book: { maxPly: 10, exponent: 1 }
+  },
+  hard: {
+    label: 'Advanced',
+    elo: 1691,
+    maxDepth: 4,
+    timeBudgetMs: 2500,
+    nodeBudget: 400_000,
+    temperature: 0.1,
+    oversightRate: 0.03,
+    book: { maxPly: 14, exponent: 1 }
+  },
+  expert: {
+    label: 'Master',
+    elo: 2083,
+    maxDepth: 5,
+    timeBudgetMs: 5000,
+    nodeBudget: 2_000_000,
+    temperature: 0,
+    oversightRate: 0,
+    book: { maxPly: 20, exponent: 2 }
+  }
+};
@@ -0,0 +1,88 @@
+import { ChessPosition } from './chess-position';
+
+export type BoundType = 'exact' | 'lower' | 'upper';
+
+export interface TranspositionEntry {
+  depth: number;
+  score: number;
+  bound: BoundType;
+  // Encoded core move, or 0 when none was found
+  bestMove: number;
+}
+
+const BOUND_CODES: Record<BoundType, number> = { exact: 1, lower: 2, upper: 3 };
+const BOUND_TYPES: BoundType[] = ['exact', 'exact', 'lower', 'upper'];
+
+// 2^18 slots is about 6 MB across the typed arrays
+const DEFAULT_SIZE_BITS = 18;
+
+// Fixed-size, Zobrist-keyed table of search results. Each slot holds one entry; a new entry
+// replaces the old one unless that came from this search and was searched deeper.
+export class TranspositionTable {
+  private readonly mask: number;
+  private readonly keyLo: Int32Array;
+  private readonly keyHi: Int32Array;
+  private readonly moves: Int32Array;
+  private readonly scores: Float64Array;
+  private readonly depths: Int8Array;
+  private readonly bounds: Uint8Array;
+  private readonly ages: Uint8Array;
+  private age = 0;
+
+  constructor(sizeBits: number = DEFAULT_SIZE_BITS) {
+    const size = 1 << sizeBits;
+    this.mask = size - 1;
+    this.keyLo = new Int32Array(size);
+    this.keyHi = new Int32Array(size);
+    this.moves = new Int32Array(size);
+    this.scores = new Float64Array(size);
+    this.depths = new Int8Array(size);
+    this.bounds = new Uint8Array(size);
+    this.ages = new Uint8Array(size);
+  }
+
+  // Called once per search so entries from earlier moves give way to fresh ones
+  public newSearch(): void {
+    this.age = (this.age + 1) & 0xff;
+  }
+
+  public clear(): void {
+    this.bounds.fill(0);
+    this.age = 0;
+  }
+
+  public probe(position: ChessPosition): TranspositionEntry | null {
+    const index = position.hashLo & this.mask;
+    if (this.bounds[index] === 0 ||
+        this.keyLo[index] !== position.hashLo || this.keyHi[index] !== position.hashHi) {
+      return null;
+    }
+
+    return {
+      depth: this.depths[index],
+      score: this.scores[index],
+      bound: BOUND_TYPES[this.bounds[index]],
+      bestMove: this.moves[index]
+    };
+  }
+
+  public store(position: ChessPosition, entry: TranspositionEntry): void {
+    const index = position.hashLo & this.mask;
+    const sameKey = this.keyLo[index] === position.hashLo && this.keyHi[index] === position.hashHi;
+
+    if (this.bounds[index] !== 0 && this.ages[index] === this.age && entry.depth < this.depths[index]) {
+      // Keep the deeper result, but a known best move is still worth remembering
+      if (sameKey && entry.bestMove && !this.moves[index]) this.moves[index] = entry.bestMove;
+      return;
+    }
+
+    this.keyLo[index] = position.hashLo;
+    this.keyHi[index] = position.hashHi;
+    // A shallower entry for the same position keeps the old best move if it found none
+    this.moves[index] = entry.bestMove || (sameKey ? this.moves[index] : 0);
+    this.scores[index] = entry.score;
+    this.depths[index] = entry.depth;
+    this.bounds[index] = BOUND_CODES[entry.bound];
+    this.ages[index] = this.age;
+  }
+}
@@ -0,0 +1,111 @@
+import { GameState, Move } from '@/types/chess';
+import { stopClock } from './chess-clock';
+import { gameStateToFen, validateFen } from './chess-fen';
+
+// The game in progress, kept in localStorage after every move so a reload or crash can resume it
+
+export const AUTOSAVE_STORAGE_KEY = 'chessPrimeSavedGame';
+// Bumped whenever the stored shape changes; older saves are dropped rather than misread
+const AUTOSAVE_VERSION = 1;
+
+export interface SavedGame {
+  gameState: GameState;
+  // Seconds on the game timer when it was saved
+  elapsedSeconds: number;
+  savedAt: Date;
+}
+
+// JSON turns dates into strings; anything that does not parse back is dropped
+const reviveDate = (value: unknown): Date | undefined => {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Restores the Date fields of a game state read back from JSON, or null if it is not a playable game
+export function reviveGameState(value: unknown): GameState | null {
+  if (!isRecord(value) || !Array.isArray(value.board) || value.board.length !== 8 ||
+      !Array.isArray(value.moves) || !isRecord(value.gameSettings) || !isRecord(value.capturedPieces) ||
+      (value.currentPlayer !== 'white' && value.currentPlayer !== 'black')) {
+    return null;
+  }
+
+  const raw = value as unknown as GameState;
+  const startTime = reviveDate(raw.startTime);
+  if (!startTime) return null;
+
+  const gameState: GameState = {
+    ...raw,
+    startTime,
+    endTime: reviveDate(raw.endTime),
+    moves: raw.moves.map((move): Move => ({ ...move, timestamp: reviveDate(move.timestamp) ?? startTime }))
+  };
+
+  try {
+    return validateFen(gameStateToFen(gameState)).isValid ? gameState : null;
+  } catch {
+    return null;
+  }
+}
+
+// The clock is saved stopped, with the side to move charged up to `now`, so time away from
+// the page is never charged to either side
+export function saveGame(gameState: GameState, elapsedSeconds: number, now: number = Date.now()): void {
+  const { clock, currentPlayer, gameSettings } = gameState;
+  const stored = {
+    version: AUTOSAVE_VERSION,
+    savedAt: now,
+    elapsedSeconds,
+    gameState: clock ? { ...gameState, clock: stopClock(clock, currentPlayer, gameSettings.timeControl, now) } : gameState
+  };
+
+  try {
+    window.localStorage.setItem(AUTOSAVE_STORAGE_KEY, JSON.stringify(stored));
+  } catch {
+    // Storage can be unavailable (private mode, quota); the game simply cannot be resumed
+  }
+}
+
+// Keeps the save in step with the game: saved once a move has been played, and cleared when the
+// game ends, since a finished game lives on in the history instead
+export function autosaveGame(gameState: GameState, elapsedSeconds: number, now: number = Date.now()): void {
+  if (gameState.status !== 'active' && gameState.status !== 'check') {
+    clearSavedGame();
+  } else if (gameState.moves.length > 0) {
+    saveGame(gameState, elapsedSeconds, now);
+  }
+}
+
+export function loadSavedGame(): SavedGame | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const stored = window.localStorage.getItem(AUTOSAVE_STORAGE_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : null;
+    if (!isRecord(parsed) || parsed.version !== AUTOSAVE_VERSION) return null;
+
+    const gameState = reviveGameState(parsed.gameState);
+    const savedAt = reviveDate(parsed.savedAt);
+    if (!gameState || !savedAt) return null;
+
+    return {
+      gameState,
+      elapsedSeconds: typeof parsed.elapsedSeconds === 'number' ? parsed.elapsedSeconds : 0,
+      savedAt
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function clearSavedGame(): void {
+  try {
+    window.localStorage.removeItem(AUTOSAVE_STORAGE_KEY);
+  } catch {
+    // Nothing to clear where storage is unavailable
+  }
+}
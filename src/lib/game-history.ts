@@ -0,0 +1,267 @@
+import { GameHistory, GameState, GameTermination, PieceColor, PlayerStats } from '@/types/chess';
+import { identifyOpening } from './chess-openings';
+import { getPgnResult } from './chess-pgn';
+import { STRENGTH_PROFILES } from './chess-strength';
+import { getPlayerNames } from './game-settings';
+
+// Finished games, stored in IndexedDB on the client
+
+const DB_NAME = 'chess-prime-history';
+const DB_STORE = 'games';
+const DB_DATE_INDEX = 'date';
+const DB_VERSION = 1;
+
+export const INITIAL_RATING = 1200;
+const RATING_K_FACTOR = 32;
+
+export class GameStorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GameStorageError';
+  }
+}
+
+export interface GameHistoryQuery {
+  result?: GameHistory['result'];
+  // Matched against the opponent and the opening, ignoring case
+  search?: string;
+  offset?: number;
+  limit?: number;
+}
+
+export interface GameHistoryPage {
+  // Newest first
+  records: GameHistory[];
+  // Matching records across all pages
+  total: number;
+}
+
+export interface OpeningStats {
+  opening: string;
+  played: number;
+  wins: number;
+  winRate: number;
+}
+
+const opponentColor = (color: PieceColor): PieceColor => (color === 'white' ? 'black' : 'white');
+
+function getTermination(gameState: GameState): GameTermination {
+  switch (gameState.status) {
+    case 'checkmate':
+      return gameState.resignedBy ? 'resignation' : 'checkmate';
+    case 'stalemate':
+      return 'stalemate';
+    case 'timeout':
+      return 'timeout';
+    default:
+      return gameState.drawReason ?? 'agreement';
+  }
+}
+
+// The record for a finished game. AI games are seen from the human player's side,
+// local games from white's.
+export function createGameHistory(gameState: GameState, endedAt: Date = gameState.endTime ?? new Date()): GameHistory {
+  const { gameSettings, isAIGame } = gameState;
+  const playerColor = isAIGame ? gameSettings.playerColor : 'white';
+  const names = getPlayerNames(gameSettings, isAIGame);
+  const pgnResult = getPgnResult(gameState);
+  const opening = gameState.opening ?? identifyOpening(gameState);
+
+  return {
+    id: gameState.id,
+    playerName: names[playerColor],
+    opponent: isAIGame
+      ? `Chess Prime AI (${STRENGTH_PROFILES[gameSettings.difficulty].label})`
+      : names[opponentColor(playerColor)],
+    playerColor,
+    result: pgnResult === '1-0' || pgnResult === '0-1'
+      ? (pgnResult === '1-0') === (playerColor === 'white') ? 'win' : 'loss'
+      : 'draw',
+    termination: getTermination(gameState),
+    moves: gameState.moves,
+    duration: Math.max(0, Math.round((endedAt.getTime() - new Date(gameState.startTime).getTime()) / 1000)),
+    date: endedAt,
+    opening: opening?.name,
+    eco: opening?.eco,
+    hintsUsed: gameState.hintsUsed,
+    isAIGame,
+    settings: gameSettings,
+    initialFen: gameState.initialFen
+  };
+}
+
+// A game saved again after a takeback keeps its analysis only when it ended with the same moves;
+// otherwise the analysis grades moves that were taken back, so it is dropped
+export function withPreviousAnalysis(record: GameHistory, previous: GameHistory | null): GameHistory {
+  if (!previous?.analysis || previous.moves.length !== record.moves.length) return record;
+
+  const sameMoves = previous.moves.every((move, index) => move.notation === record.moves[index].notation);
+  return sameMoves ? { ...record, analysis: previous.analysis } : record;
+}
+
+const scoreOf = (record: GameHistory): number => (record.result === 'win' ? 1 : record.result === 'draw' ? 0.5 : 0);
+
+// Totals, streaks and an Elo rating moved by each AI game against the level's self-play rating
+export function computePlayerStats(records: GameHistory[]): PlayerStats {
+  const chronological = [...records].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const wins = records.filter(record => record.result === 'win').length;
+  const losses = records.filter(record => record.result === 'loss').length;
+
+  let rating = INITIAL_RATING;
+  let streak = 0;
+  let bestStreak = 0;
+  for (const record of chronological) {
+    streak = record.result === 'win' ? streak + 1 : 0;
+    bestStreak = Math.max(bestStreak, streak);
+
+    if (record.isAIGame) {
+      const opponent = STRENGTH_PROFILES[record.settings.difficulty].elo;
+      const expected = 1 / (1 + 10 ** ((opponent - rating) / 400));
+      rating += RATING_K_FACTOR * (scoreOf(record) - expected);
+    }
+  }
+
+  const openingStats = computeOpeningStats(records);
+
+  return {
+    gamesPlayed: records.length,
+    wins,
+    losses,
+    draws: records.length - wins - losses,
+    winRate: records.length > 0 ? wins / records.length : 0,
+    averageGameLength: records.length > 0
+      ? Math.round(records.reduce((sum, record) => sum + record.duration, 0) / records.length)
+      : 0,
+    favoriteOpening: openingStats[0]?.opening,
+    currentStreak: streak,
+    bestStreak,
+    rating: Math.round(rating)
+  };
+}
+
+// Results per opening, most played first
+export function computeOpeningStats(records: GameHistory[]): OpeningStats[] {
+  const byOpening = new Map<string, OpeningStats>();
+
+  for (const record of records) {
+    if (!record.opening) continue;
+
+    const stats = byOpening.get(record.opening) ?? { opening: record.opening, played: 0, wins: 0, winRate: 0 };
+    stats.played++;
+    if (record.result === 'win') stats.wins++;
+    stats.winRate = stats.wins / stats.played;
+    byOpening.set(record.opening, stats);
+  }
+
+  return [...byOpening.values()].sort((a, b) => b.played - a.played || b.winRate - a.winRate);
+}
+
+const matchesQuery = (record: GameHistory, query: GameHistoryQuery): boolean => {
+  if (query.result && record.result !== query.result) return false;
+
+  const search = query.search?.trim().toLowerCase();
+  return !search ||
+    record.opponent.toLowerCase().includes(search) ||
+    !!record.opening?.toLowerCase().includes(search);
+};
+
+// Typed access to the stored games. Every method rejects with GameStorageError when
+// IndexedDB is unavailable or a request fails.
+export class GameHistoryRepository {
+  private database: Promise<IDBDatabase> | null = null;
+
+  // Saving a game again, say after a takeback and a new ending, replaces its record
+  public async save(record: GameHistory): Promise<void> {
+    await this.request('readwrite', store => store.put(record));
+  }
+
+  public async get(id: string): Promise<GameHistory | null> {
+    const record = await this.request<GameHistory | undefined>('readonly', store => store.get(id));
+    return record ?? null;
+  }
+
+  public async delete(id: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(id));
+  }
+
+  public async getAll(): Promise<GameHistory[]> {
+    return (await this.query()).records;
+  }
+
+  // Walks the games newest first, counting every match but keeping only the requested page
+  public async query(query: GameHistoryQuery = {}): Promise<GameHistoryPage> {
+    const db = await this.open();
+    const offset = query.offset ?? 0;
+    const limit = query.limit ?? Infinity;
+
+    return new Promise((resolve, reject) => {
+      const records: GameHistory[] = [];
+      let total = 0;
+
+      try {
+        const request = db.transaction(DB_STORE).objectStore(DB_STORE).index(DB_DATE_INDEX).openCursor(null, 'prev');
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) {
+            resolve({ records, total });
+            return;
+          }
+
+          const record: GameHistory = cursor.value;
+          if (matchesQuery(record, query)) {
+            if (total >= offset && records.length < limit) records.push(record);
+            total++;
+          }
+          cursor.continue();
+        };
+        request.onerror = () => reject(new GameStorageError(request.error?.message ?? 'Could not read game history'));
+      } catch (error) {
+        reject(new GameStorageError(error instanceof Error ? error.message : String(error)));
+      }
+    });
+  }
+
+  private async request<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.open();
+
+    return new Promise((resolve, reject) => {
+      try {
+        const request = run(db.transaction(DB_STORE, mode).objectStore(DB_STORE));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(new GameStorageError(request.error?.message ?? 'Game history request failed'));
+      } catch (error) {
+        reject(new GameStorageError(error instanceof Error ? error.message : String(error)));
+      }
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (this.database) return this.database;
+
+    this.database = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new GameStorageError('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(DB_STORE, { keyPath: 'id' });
+        store.createIndex(DB_DATE_INDEX, 'date');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(new GameStorageError(request.error?.message ?? 'Could not open game history'));
+    });
+
+    // A failed open is retried on the next call
+    this.database.catch(() => {
+      this.database = null;
+    });
+    return this.database;
+  }
+}
+
+export const gameHistoryRepository = new GameHistoryRepository();
@@ -0,0 +1,216 @@
+import { ClockDelayMode, Difficulty, GameSettings, PieceColor } from '@/types/chess';
+import { DIFFICULTY_LEVELS } from './chess-strength';
+
+export type GameMode = 'ai' | 'local';
+
+export interface GameLaunchSettings extends GameSettings {
+  gameMode: GameMode;
+  soundEnabled: boolean;
+}
+
+export const GAME_SETTINGS_STORAGE_KEY = 'chessGameSettings';
+
+export const DEFAULT_PLAYER_NAMES: Record<PieceColor, string> = {
+  white: 'White',
+  black: 'Black'
+};
+
+export const MAX_PLAYER_NAME_LENGTH = 24;
+
+export const DEFAULT_LAUNCH_SETTINGS: GameLaunchSettings = {
+  difficulty: 'medium',
+  playerColor: 'white',
+  aiColor: 'black',
+  allowUndo: true,
+  showHints: false,
+  timeControl: undefined,
+  playerNames: DEFAULT_PLAYER_NAMES,
+  autoFlipBoard: false,
+  gameMode: 'ai',
+  soundEnabled: true
+};
+
+const MAX_CLOCK_MINUTES = 180;
+const MAX_INCREMENT_SECONDS = 180;
+const MAX_DELAY_SECONDS = 60;
+
+const isDifficulty = (value: unknown): value is Difficulty =>
+  typeof value === 'string' && DIFFICULTY_LEVELS.includes(value as Difficulty);
+
+const isColor = (value: unknown): value is PieceColor =>
+  value === 'white' || value === 'black';
+
+const isGameMode = (value: unknown): value is GameMode =>
+  value === 'ai' || value === 'local';
+
+const isDelayMode = (value: unknown): value is ClockDelayMode =>
+  value === 'simple' || value === 'bronstein';
+
+const opposite = (color: PieceColor): PieceColor => (color === 'white' ? 'black' : 'white');
+
+function sanitizeTimeControl(value: unknown): GameSettings['timeControl'] {
+  if (!value || typeof value !== 'object') return undefined;
+
+  const { minutes, increment, delay, delayMode } = value as Record<string, unknown>;
+  if (typeof minutes !== 'number' || !Number.isFinite(minutes) ||
+      minutes <= 0 || minutes > MAX_CLOCK_MINUTES) {
+    return undefined;
+  }
+
+  const safeIncrement = typeof increment === 'number' && Number.isFinite(increment)
+    ? Math.min(Math.max(0, Math.round(increment)), MAX_INCREMENT_SECONDS)
+    : 0;
+
+  const safeDelay = typeof delay === 'number' && Number.isFinite(delay)
+    ? Math.min(Math.max(0, Math.round(delay)), MAX_DELAY_SECONDS)
+    : 0;
+
+  // A delay is only kept when both its mode and a positive length are given
+  return isDelayMode(delayMode) && safeDelay > 0
+    ? { minutes, increment: safeIncrement, delay: safeDelay, delayMode }
+    : { minutes, increment: safeIncrement };
+}
+
+function sanitizePlayerName(value: unknown, fallback: string): string {
+  if (typeof value !== 'string') return fallback;
+
+  const name = value.replace(/\s+/g, ' ').trim().slice(0, MAX_PLAYER_NAME_LENGTH);
+  return name || fallback;
+}
+
+function sanitizePlayerNames(value: unknown): Record<PieceColor, string> {
+  const raw = value && typeof value === 'object' ? value as Record<string, unknown> : {};
+
+  return {
+    white: sanitizePlayerName(raw.white, DEFAULT_PLAYER_NAMES.white),
+    black: sanitizePlayerName(raw.black, DEFAULT_PLAYER_NAMES.black)
+  };
+}
+
+// Validates settings field by field so one bad value never discards the rest
+export function sanitizeLaunchSettings(
+  value: unknown,
+  fallback: GameLaunchSettings = DEFAULT_LAUNCH_SETTINGS
+): GameLaunchSettings {
+  if (!value || typeof value !== 'object') return { ...fallback };
+
+  const raw = value as Record<string, unknown>;
+  const playerColor = isColor(raw.playerColor) ? raw.playerColor : fallback.playerColor;
+
+  return {
+    difficulty: isDifficulty(raw.difficulty) ? raw.difficulty : fallback.difficulty,
+    playerColor,
+    // The AI always takes the other side, whatever was stored
+    aiColor: opposite(playerColor),
+    allowUndo: typeof raw.allowUndo === 'boolean' ? raw.allowUndo : fallback.allowUndo,
+    showHints: typeof raw.showHints === 'boolean' ? raw.showHints : fallback.showHints,
+    timeControl: 'timeControl' in raw ? sanitizeTimeControl(raw.timeControl) : fallback.timeControl,
+    playerNames: sanitizePlayerNames(raw.playerNames ?? fallback.playerNames),
+    autoFlipBoard: typeof raw.autoFlipBoard === 'boolean' ? raw.autoFlipBoard : !!fallback.autoFlipBoard,
+    gameMode: isGameMode(raw.gameMode) ? raw.gameMode : fallback.gameMode,
+    soundEnabled: typeof raw.soundEnabled === 'boolean' ? raw.soundEnabled : fallback.soundEnabled
+  };
+}
+
+export function loadStoredLaunchSettings(): GameLaunchSettings {
+  if (typeof window === 'undefined') return { ...DEFAULT_LAUNCH_SETTINGS };
+
+  try {
+    const stored = window.sessionStorage.getItem(GAME_SETTINGS_STORAGE_KEY);
+    return stored ? sanitizeLaunchSettings(JSON.parse(stored)) : { ...DEFAULT_LAUNCH_SETTINGS };
+  } catch {
+    return { ...DEFAULT_LAUNCH_SETTINGS };
+  }
+}
+
+export function storeLaunchSettings(settings: GameLaunchSettings): void {
+  try {
+    window.sessionStorage.setItem(GAME_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage can be unavailable (private mode, quota); the URL still carries the settings
+  }
+}
+
+const parseFlag = (value: string | null): boolean | undefined => {
+  if (value === '1' || value === 'true') return true;
+  if (value === '0' || value === 'false') return false;
+  return undefined;
+};
+
+// Accepts "5+3", "5|3" and "5 3" (a literal "+" decodes to a space in query strings),
+// with an optional delay such as "5+0d3" (simple) or "5+0b3" (Bronstein)
+const parseTimeParam = (value: string | null): GameSettings['timeControl'] | null | undefined => {
+  if (value === null) return undefined;
+  if (value === 'none' || value === '0') return null;
+
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)(?:\s*[+| ]\s*(\d+))?(?:([db])(\d+))?$/);
+  if (!match) return undefined;
+
+  return sanitizeTimeControl({
+    minutes: parseFloat(match[1]),
+    increment: match[2] ? parseInt(match[2], 10) : 0,
+    delayMode: match[3] === 'b' ? 'bronstein' : match[3] === 'd' ? 'simple' : undefined,
+    delay: match[4] ? parseInt(match[4], 10) : 0
+  }) ?? undefined;
+};
+
+export function applyLaunchSearchParams(
+  params: URLSearchParams,
+  base: GameLaunchSettings
+): GameLaunchSettings {
+  const timeControl = parseTimeParam(params.get('time'));
+
+  return sanitizeLaunchSettings({
+    ...base,
+    gameMode: params.get('mode') ?? base.gameMode,
+    difficulty: params.get('difficulty') ?? base.difficulty,
+    playerColor: params.get('color') ?? base.playerColor,
+    timeControl: timeControl === undefined ? base.timeControl : timeControl ?? undefined,
+    playerNames: {
+      white: params.get('white') ?? base.playerNames?.white,
+      black: params.get('black') ?? base.playerNames?.black
+    },
+    autoFlipBoard: parseFlag(params.get('flip')) ?? base.autoFlipBoard,
+    allowUndo: parseFlag(params.get('undo')) ?? base.allowUndo,
+    showHints: parseFlag(params.get('hints')) ?? base.showHints,
+    soundEnabled: parseFlag(params.get('sound')) ?? base.soundEnabled
+  }, base);
+}
+
+export function launchSettingsToSearchParams(settings: GameLaunchSettings): URLSearchParams {
+  const params = new URLSearchParams({
+    mode: settings.gameMode,
+    color: settings.playerColor
+  });
+
+  if (settings.gameMode === 'ai') {
+    params.set('difficulty', settings.difficulty);
+  } else {
+    const names = settings.playerNames ?? DEFAULT_PLAYER_NAMES;
+    if (names.white !== DEFAULT_PLAYER_NAMES.white) params.set('white', names.white);
+    if (names.black !== DEFAULT_PLAYER_NAMES.black) params.set('black', names.black);
+    if (settings.autoFlipBoard) params.set('flip', '1');
+  }
+  if (settings.timeControl) {
+    const { minutes, increment, delay, delayMode } = settings.timeControl;
+    const delaySuffix = delayMode && delay ? `${delayMode === 'bronstein' ? 'b' : 'd'}${delay}` : '';
+    params.set('time', `${minutes}+${increment}${delaySuffix}`);
+  }
+  if (!settings.allowUndo) params.set('undo', '0');
+  if (settings.showHints) params.set('hints', '1');
+  if (!settings.soundEnabled) params.set('sound', '0');
+
+  return params;
+}
+
+// Display names for each side: the chosen names in local games, "You" and the AI otherwise
+export function getPlayerNames(settings: GameSettings, isAIGame: boolean): Record<PieceColor, string> {
+  if (!isAIGame) {
+    return settings.playerNames ?? DEFAULT_PLAYER_NAMES;
+  }
+
+  return {
+    [settings.playerColor]: 'You',
+    [settings.aiColor]: 'AI'
+  } as Record<PieceColor, string>;
+}
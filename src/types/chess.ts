@@ -1,6 +1,13 @@
 export type PieceType = 'pawn' | 'rook' | 'knight' | 'bishop' | 'queen' | 'king';
 export type PieceColor = 'white' | 'black';
-export type GameStatus = 'active' | 'check' | 'checkmate' | 'stalemate' | 'draw';
+export type GameStatus = 'active' | 'check' | 'checkmate' | 'stalemate' | 'draw' | 'timeout';
+export type DrawReason =
+  | 'fifty-move-rule'
+  | 'threefold-repetition'
+  | 'insufficient-material'
+  | 'agreement'
+  | 'timeout-vs-insufficient-material';
+export type ClockDelayMode = 'simple' | 'bronstein';
 export type Difficulty = 'easy' | 'medium' | 'hard' | 'expert';
 
 export interface Position {
@@ -29,6 +36,17 @@ export interface Move {
   isEnPassant?: boolean;
   isCastling?: boolean;
   promotionPiece?: PieceType;
+  undoState?: MoveUndoState;
+  // Milliseconds left on the mover's clock once the move was made
+  clockRemaining?: number;
+}
+
+export interface MoveUndoState {
+  status: GameStatus;
+  drawReason?: DrawReason;
+  enPassantTarget?: Position | null;
+  halfmoveClock?: number;
+  fullmoveNumber?: number;
 }
 
 export interface GameState {
@@ -45,30 +63,82 @@ export interface GameState {
   isAIGame: boolean;
   startTime: Date;
   endTime?: Date;
+  enPassantTarget?: Position | null;
+  halfmoveClock?: number;
+  fullmoveNumber?: number;
+  initialFen?: string;
+  positionHistory?: string[];
+  drawReason?: DrawReason;
+  // The side that resigned; a resignation ends the game with status 'checkmate' but no mate on the board
+  resignedBy?: PieceColor;
+  // A decided result an imported PGN recorded that the final position does not show,
+  // such as a resignation or an agreed draw
+  recordedResult?: '1-0' | '0-1' | '1/2-1/2';
+  clock?: ClockState;
+  opening?: Opening;
+  // Hints the player asked for this game
+  hintsUsed?: number;
+}
+
+export interface ClockState {
+  // Milliseconds left per side, not counting the turn in progress
+  remaining: Record<PieceColor, number>;
+  // Epoch milliseconds when the side to move's clock started, null while stopped
+  runningSince: number | null;
+}
+
+export interface TimeControl {
+  minutes: number;
+  increment: number;
+  delay?: number;
+  delayMode?: ClockDelayMode;
+}
+
+export interface CastlingRights {
+  white: { kingside: boolean; queenside: boolean };
+  black: { kingside: boolean; queenside: boolean };
 }
 
 export interface GameSettings {
   difficulty: Difficulty;
   playerColor: PieceColor;
   aiColor: PieceColor;
-  timeControl?: {
-    minutes: number;
-    increment: number;
-  };
+  timeControl?: TimeControl;
   allowUndo: boolean;
   showHints: boolean;
+  // Local (hot-seat) games only
+  playerNames?: Record<PieceColor, string>;
+  autoFlipBoard?: boolean;
+}
+
+export interface Opening {
+  eco: string;
+  name: string;
 }
 
+// How a finished game ended
+export type GameTermination = 'checkmate' | 'resignation' | 'stalemate' | 'timeout' | DrawReason;
+
+// A finished game, with the result from the point of view of playerColor
 export interface GameHistory {
   id: string;
   playerName: string;
   opponent: string;
+  playerColor: PieceColor;
   result: 'win' | 'loss' | 'draw';
+  termination: GameTermination;
   moves: Move[];
+  // Seconds
   duration: number;
   rating?: number;
   date: Date;
   opening?: string;
+  eco?: string;
+  hintsUsed?: number;
+  isAIGame: boolean;
+  settings: GameSettings;
+  initialFen?: string;
+  analysis?: GameAnalysis;
 }
 
 export interface PlayerStats {
@@ -105,6 +175,53 @@ export interface AIMove {
   principalVariation: Move[];
 }
 
+export interface AISearchProgress {
+  depth: number;
+  evaluation: number;
+  // SAN of the expected line, starting with the AI's move
+  principalVariation: string[];
+  nodes: number;
+  elapsedMs: number;
+}
+
+// Exact result of a small endgame with best play, from the side to move's point of view
+export interface EndgameProbe {
+  outcome: 'win' | 'draw' | 'loss';
+  // Plies until mate, for wins and losses
+  distanceToMate?: number;
+}
+
+// Something the opponent could do if it were their move again
+export interface Threat {
+  from: Position;
+  to: Position;
+  san: string;
+  kind: 'mate' | 'material';
+  // Pawns won, for material threats
+  material?: number;
+}
+
+export type MoveClassification = 'best' | 'good' | 'inaccuracy' | 'mistake' | 'blunder' | 'missed-mate';
+
+// The engine's verdict on one move. Evaluations are in pawns from white's point of view.
+export interface MoveAnalysis {
+  // Best play from the position before the move
+  evaluationBefore: number;
+  evaluationAfter: number;
+  // SAN of the engine's choice, the better alternative when the move fell short
+  bestMove: string;
+  classification: MoveClassification;
+  // 0-100, from the mover's drop in winning chances
+  accuracy: number;
+}
+
+export interface GameAnalysis {
+  // One entry per move, in the order of GameHistory.moves
+  moves: MoveAnalysis[];
+  accuracy: Record<PieceColor, number>;
+  analyzedAt: Date;
+}
+
 export const INITIAL_BOARD_STATE = (): (Piece | null)[][] => {
   const board: (Piece | null)[][] = Array(8).fill(null).map(() => Array(8).fill(null));
 
@@ -0,0 +1,73 @@
+import { ChessAI } from '@/lib/chess-ai';
+import { AIWorkerRequest, AIWorkerResponse } from '@/lib/chess-ai-protocol';
+import { loadEndgameTables, probeEndgame } from '@/lib/chess-endgame';
+import { ChessPosition } from '@/lib/chess-position';
+import { EndgameProbe } from '@/types/chess';
+
+interface AIWorkerScope {
+  onmessage: ((event: MessageEvent<AIWorkerRequest>) => void) | null;
+  postMessage: (message: AIWorkerResponse) => void;
+}
+
+const scope = self as unknown as AIWorkerScope;
+// Searches queued or running; a stop for any other id has nothing left to stop
+const searches = new Set<number>();
+const stopped = new Set<number>();
+// One AI for the worker's lifetime so its transposition table carries over between moves
+const ai = new ChessAI();
+// Searches share that AI, so each waits for the one before; a cancelled search has been
+// told to stop, so it holds the next one up only until its current iteration ends
+let searchQueue: Promise<void> = Promise.resolve();
+
+async function runSearch(request: Extract<AIWorkerRequest, { type: 'search' }>): Promise<void> {
+  const { id, gameState, aiColor, difficulty, timeLimitMs, useBook } = request;
+  // Stopped while it waited its turn
+  if (stopped.has(id)) return;
+
+  ai.setDifficulty(difficulty);
+
+  try {
+    const result = await ai.getBestMove(gameState, aiColor, {
+      timeLimitMs,
+      useBook,
+      onProgress: progress => scope.postMessage({ type: 'progress', id, progress }),
+      shouldStop: () => stopped.has(id)
+    });
+    scope.postMessage({ type: 'result', id, result });
+  } catch (error) {
+    scope.postMessage({
+      type: 'error',
+      id,
+      message: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+scope.onmessage = async (event) => {
+  const request = event.data;
+
+  if (request.type === 'stop') {
+    if (searches.has(request.id)) stopped.add(request.id);
+    return;
+  }
+
+  // Answered alongside searches; building a table yields often enough for both to progress
+  if (request.type === 'endgame') {
+    let probe: EndgameProbe | null = null;
+    try {
+      const position = ChessPosition.fromGameState(request.gameState);
+      probe = await loadEndgameTables(position) ? probeEndgame(position) : null;
+    } catch {
+      // A table that fails to build leaves the position unprobed; the caller still hears back
+    }
+    scope.postMessage({ type: 'endgame', id: request.id, probe });
+    return;
+  }
+
+  searches.add(request.id);
+  searchQueue = searchQueue.then(async () => {
+    await runSearch(request);
+    searches.delete(request.id);
+    stopped.delete(request.id);
+  });
+};
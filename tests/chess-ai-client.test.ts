@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { AISearchProgress } from '@/types/chess';
+import { AISearchCancelledError, AISearchRequest, ChessAIClient } from '@/lib/chess-ai-client';
+import { STARTING_FEN, createGameStateFromFen } from '@/lib/chess-fen';
+import { TEST_SETTINGS } from './helpers';
+
+// Without Worker, as here, the client searches on the main thread
+const searchRequest = (overrides: Partial<AISearchRequest> = {}): AISearchRequest => ({
+  gameState: createGameStateFromFen(STARTING_FEN, TEST_SETTINGS, true),
+  aiColor: 'white',
+  difficulty: 'easy',
+  timeLimitMs: 200,
+  useBook: false,
+  ...overrides
+});
+
+describe('ChessAIClient', () => {
+  it('searches on the main thread when workers are unavailable', async () => {
+    const client = new ChessAIClient();
+
+    const result = await client.search(searchRequest());
+
+    expect(result.move.piece.color).toBe('white');
+    expect(client.isSearching).toBe(false);
+  });
+
+  it('rejects a cancelled search', async () => {
+    const client = new ChessAIClient();
+    const search = client.search(searchRequest());
+
+    client.cancel();
+
+    await expect(search).rejects.toBeInstanceOf(AISearchCancelledError);
+    expect(client.isSearching).toBe(false);
+  });
+
+  it('rejects a search that a newer one replaces', async () => {
+    const client = new ChessAIClient();
+    const replaced = client.search(searchRequest());
+    const current = client.search(searchRequest());
+
+    await expect(replaced).rejects.toBeInstanceOf(AISearchCancelledError);
+    await expect(current).resolves.toBeDefined();
+  });
+
+  it('passes on the progress of each completed iteration', async () => {
+    const client = new ChessAIClient();
+    const progress: AISearchProgress[] = [];
+
+    const result = await client.search(searchRequest({ onProgress: update => progress.push(update) }));
+
+    expect(progress.length).toBeGreaterThan(0);
+    expect(progress[progress.length - 1].depth).toBe(result.depth);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { ChessAI } from '@/lib/chess-ai';
+import { ChessEngine } from '@/lib/chess-engine';
+import { STARTING_FEN } from '@/lib/chess-fen';
+import { gameStateFromFen, playMoves } from './helpers';
+
+// Positions the AI used to get wrong. Each is searched to a fixed depth where the losing
+// recapture lies just past the horizon, so only quiescence search can see it.
+
+interface AIRegressionCase {
+  name: string;
+  fen: string;
+  depth: number;
+  // SAN moves the AI must not play, or the ones it must choose between
+  avoid?: string[];
+  expect?: string[];
+}
+
+const AI_REGRESSION_CASES: AIRegressionCase[] = [
+  {
+    name: 'Queen does not take a knight defended by a pawn',
+    fen: '6k1/5ppp/4p3/3n4/8/8/5PPP/3Q2K1 w - - 0 1',
+    depth: 1,
+    avoid: ['Qxd5']
+  },
+  {
+    name: 'Black queen does not take a knight defended by a pawn',
+    fen: '3q2k1/5ppp/8/8/3N4/2P5/5PPP/6K1 b - - 0 1',
+    depth: 1,
+    avoid: ['Qxd4']
+  },
+  {
+    name: 'Rook does not take a bishop defended by a rook',
+    fen: '3r2k1/5ppp/8/3b4/8/8/5PPP/3R2K1 w - - 0 1',
+    depth: 1,
+    avoid: ['Rxd5']
+  },
+  {
+    name: 'Queen does not take a pawn the king defends',
+    fen: '3qk3/5ppp/8/8/8/8/3P1PPP/4K3 b - - 0 1',
+    depth: 1,
+    avoid: ['Qxd2+']
+  },
+  {
+    name: 'Undefended queen is taken',
+    fen: '6k1/5ppp/8/3q4/8/8/5PPP/3R2K1 w - - 0 1',
+    depth: 1,
+    expect: ['Rxd5']
+  }
+];
+
+describe('AI regressions', () => {
+  it.each(AI_REGRESSION_CASES)('$name', async ({ fen, depth, avoid, expect: expected }) => {
+    const gameState = gameStateFromFen(fen);
+    // Expert plays without the random picks the easier levels make
+    const ai = new ChessAI('expert');
+    const result = await ai.getBestMove(gameState, gameState.currentPlayer, { maxDepth: depth, timeLimitMs: 10_000 });
+
+    const played = result.move.notation;
+    if (avoid) expect(avoid).not.toContain(played);
+    if (expected) expect(expected).toContain(played);
+  });
+});
+
+describe('stopping', () => {
+  it('abandons an iteration part way through when asked to stop', async () => {
+    const gameState = gameStateFromFen(STARTING_FEN);
+    let polls = 0;
+
+    // The first poll comes between iterations; the second lands inside depth 2
+    const result = await new ChessAI('expert').getBestMove(gameState, 'white', {
+      maxDepth: 4,
+      timeLimitMs: 60_000,
+      useBook: false,
+      shouldStop: () => ++polls >= 2
+    });
+
+    expect(result.depth).toBe(1);
+    expect(result.move).toBeDefined();
+  });
+});
+
+describe('repetitions', () => {
+  it('sees positions repeated from earlier in the game', async () => {
+    const engine = new ChessEngine(gameStateFromFen('k7/8/2n5/8/8/8/8/3QK2R w - - 0 1'));
+    playMoves(engine, ['e1e2', 'c6b8', 'e2e1', 'b8c6', 'e1e2']);
+    const gameState = engine.getGameState();
+
+    // Far behind, Black takes the draw that returning to b8 brings
+    const result = await new ChessAI('expert').getBestMove(gameState, 'black', { maxDepth: 2, timeLimitMs: 10_000 });
+
+    expect(result.move.notation).toBe('Nb8');
+    expect(result.evaluation).toBe(0);
+  });
+});
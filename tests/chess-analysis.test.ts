@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { AIMove, GameState, Move } from '@/types/chess';
+import { MATE_SCORE } from '@/lib/chess-ai';
+import { analyzeGame, classifyMove, moveAccuracy, winningChances } from '@/lib/chess-analysis';
+import { ChessEngine } from '@/lib/chess-engine';
+import { STARTING_FEN } from '@/lib/chess-fen';
+import { TEST_SETTINGS, gameStateFromFen, playMoves } from './helpers';
+
+describe('winningChances', () => {
+  it.each([-MATE_SCORE, -12, -3, -0.5, 0, 0.5, 3, 12, MATE_SCORE])('stays between 0 and 100 at %d', evaluation => {
+    const chances = winningChances(evaluation);
+
+    expect(chances).toBeGreaterThanOrEqual(0);
+    expect(chances).toBeLessThanOrEqual(100);
+  });
+
+  it('is even at 0 and symmetric around it', () => {
+    expect(winningChances(0)).toBe(50);
+    for (const evaluation of [0.5, 2, 7]) {
+      expect(winningChances(evaluation) + winningChances(-evaluation)).toBeCloseTo(100);
+    }
+  });
+
+  it('treats evaluations past the cap, mates included, alike', () => {
+    expect(winningChances(MATE_SCORE)).toBe(winningChances(10));
+    expect(winningChances(-MATE_SCORE)).toBe(winningChances(-10));
+  });
+});
+
+describe('moveAccuracy', () => {
+  it('is 100 for a move that gives nothing away', () => {
+    expect(moveAccuracy(0)).toBeCloseTo(100, 2);
+  });
+
+  it('falls as the drop grows and stays between 0 and 100', () => {
+    const drops = [-20, 0, 5, 10, 30, 60, 100];
+    const accuracies = drops.map(moveAccuracy);
+
+    for (const accuracy of accuracies) {
+      expect(accuracy).toBeGreaterThanOrEqual(0);
+      expect(accuracy).toBeLessThanOrEqual(100);
+    }
+    for (let i = 1; i < accuracies.length; i++) {
+      expect(accuracies[i]).toBeLessThanOrEqual(accuracies[i - 1]);
+    }
+  });
+});
+
+describe('classifyMove', () => {
+  it.each([
+    ['best', 5, -3, true],
+    ['good', 0.3, 0.2, false],
+    ['inaccuracy', 1, -1, false],
+    ['mistake', 1.5, -1, false],
+    ['blunder', 5, -3, false],
+    ['missed-mate', MATE_SCORE - 3, 2, false]
+  ] as const)('calls it %s from %d to %d', (classification, best, after, isBest) => {
+    expect(classifyMove(best, after, isBest)).toBe(classification);
+  });
+
+  it('does not call a slower mate a missed mate', () => {
+    expect(classifyMove(MATE_SCORE - 3, MATE_SCORE - 5, false)).not.toBe('missed-mate');
+  });
+});
+
+describe('analyzeGame', () => {
+  // 1.e4 e5 2.Qh5 Nc6 3.Bc4 Nf6?? 4.Qxf7#
+  const engine = new ChessEngine(gameStateFromFen(STARTING_FEN));
+  const moves = playMoves(engine, ['e2e4', 'e7e5', 'd1h5', 'b8c6', 'f1c4', 'g8f6', 'h5f7']);
+  const defence = playMoves(new ChessEngine(engine.getGameStateAtPly(5)), ['g7g6'])[0];
+
+  // What a search would say before each ply, from the side to move's point of view
+  const script: [number, Move][] = [
+    [0.3, moves[0]],
+    [-0.3, moves[1]],
+    [0.3, moves[2]],
+    [-0.3, moves[3]],
+    [0.3, moves[4]],
+    [-0.3, defence],
+    [MATE_SCORE - 1, moves[6]]
+  ];
+  const search = async (gameState: GameState): Promise<AIMove> => {
+    const [evaluation, move] = script[gameState.moves.length];
+    return { move, evaluation, depth: 1, principalVariation: [move] };
+  };
+
+  it('classifies the move that allows mate as a blunder and the mate as best', async () => {
+    const analysis = await analyzeGame(moves, TEST_SETTINGS, undefined, search);
+
+    expect(analysis.moves.map(move => move.classification)).toEqual([
+      'best', 'best', 'best', 'best', 'best', 'blunder', 'best'
+    ]);
+    expect(analysis.moves[5]).toMatchObject({ bestMove: 'g6', evaluationBefore: 0.3 });
+    expect(analysis.moves[5].accuracy).toBeCloseTo(moveAccuracy(winningChances(-0.3) - winningChances(-MATE_SCORE)));
+  });
+
+  it('keeps both accuracies within bounds and below 100 for the side that blundered', async () => {
+    const { accuracy } = await analyzeGame(moves, TEST_SETTINGS, undefined, search);
+
+    expect(accuracy.white).toBe(100);
+    expect(accuracy.black).toBeGreaterThanOrEqual(0);
+    expect(accuracy.black).toBeLessThan(100);
+  });
+
+  it('reports progress for every position, the final one included', async () => {
+    const progress: number[] = [];
+    await analyzeGame(moves, TEST_SETTINGS, undefined, search, analyzed => progress.push(analyzed));
+
+    expect(progress).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+  });
+});
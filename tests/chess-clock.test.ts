@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { TimeControl } from '@/types/chess';
+import {
+  createClock,
+  formatClock,
+  getFlagFallResult,
+  getRemainingTime,
+  isFlagged,
+  punchClock,
+  recordMoveOnClock,
+  settleClockForTakeback,
+  stopClock
+} from '@/lib/chess-clock';
+import { ChessEngine } from '@/lib/chess-engine';
+import { createGameStateFromFen } from '@/lib/chess-fen';
+import { TEST_SETTINGS, playMoves } from './helpers';
+
+const START = 1_000_000;
+
+// White's time after a turn of `thinkingMs` under the time control
+const afterTurn = (timeControl: TimeControl, thinkingMs: number) =>
+  punchClock(createClock(timeControl, START)!, 'white', timeControl, START + thinkingMs).remaining.white;
+
+describe('clock', () => {
+  it('gives both sides the base time and runs from the start', () => {
+    expect(createClock({ minutes: 3, increment: 2 }, START)).toEqual({
+      remaining: { white: 180_000, black: 180_000 },
+      runningSince: START
+    });
+    expect(createClock(undefined, START)).toBeUndefined();
+  });
+
+  it('adds the Fischer increment after charging the turn', () => {
+    expect(afterTurn({ minutes: 3, increment: 2 }, 5_000)).toBe(177_000);
+  });
+
+  it('holds the clock still for a simple delay', () => {
+    const timeControl: TimeControl = { minutes: 3, increment: 0, delay: 3, delayMode: 'simple' };
+
+    expect(afterTurn(timeControl, 2_000)).toBe(180_000);
+    expect(afterTurn(timeControl, 5_000)).toBe(178_000);
+  });
+
+  it('runs the clock and refunds up to the Bronstein delay', () => {
+    const timeControl: TimeControl = { minutes: 3, increment: 0, delay: 3, delayMode: 'bronstein' };
+    const clock = createClock(timeControl, START)!;
+
+    expect(getRemainingTime(clock, 'white', 'white', timeControl, START + 2_000)).toBe(178_000);
+    expect(afterTurn(timeControl, 2_000)).toBe(180_000);
+    expect(afterTurn(timeControl, 5_000)).toBe(178_000);
+  });
+
+  it('only runs for the side to move', () => {
+    const timeControl: TimeControl = { minutes: 1, increment: 0 };
+    const clock = createClock(timeControl, START)!;
+
+    expect(getRemainingTime(clock, 'black', 'white', timeControl, START + 10_000)).toBe(60_000);
+    expect(getRemainingTime(clock, 'white', 'white', timeControl, START + 10_000)).toBe(50_000);
+  });
+
+  it('charges the turn when stopped', () => {
+    const timeControl: TimeControl = { minutes: 1, increment: 5 };
+    const stopped = stopClock(createClock(timeControl, START)!, 'white', timeControl, START + 4_000);
+
+    expect(stopped).toEqual({ remaining: { white: 56_000, black: 60_000 }, runningSince: null });
+  });
+});
+
+describe('takebacks', () => {
+  it('punches the clock again when an undone move is redone', () => {
+    const timeControl: TimeControl = { minutes: 3, increment: 2 };
+    const gameState = {
+      ...createGameStateFromFen('4k3/8/8/8/8/8/4P3/4K3 w - - 0 1', { ...TEST_SETTINGS, timeControl }, false),
+      clock: createClock(timeControl, START)
+    };
+    const engine = new ChessEngine(gameState);
+
+    const [played] = playMoves(engine, ['e2e4']);
+    gameState.clock = recordMoveOnClock(gameState, played, START + 5_000).clock;
+
+    settleClockForTakeback(gameState, START + 7_000);
+    engine.unmakeMove();
+    expect(gameState.clock!.remaining).toEqual({ white: 177_000, black: 178_000 });
+
+    settleClockForTakeback(gameState, START + 8_000);
+    const [redone] = playMoves(engine, ['e2e4']);
+    gameState.clock = recordMoveOnClock(gameState, redone, START + 8_000).clock;
+
+    expect(redone.clockRemaining).toBe(178_000);
+    expect(gameState.clock).toEqual({ remaining: { white: 178_000, black: 178_000 }, runningSince: START + 8_000 });
+    expect(getRemainingTime(gameState.clock!, 'black', 'black', timeControl, START + 9_000)).toBe(177_000);
+  });
+});
+
+describe('flag fall', () => {
+  const settings = { ...TEST_SETTINGS, timeControl: { minutes: 1, increment: 0 } };
+  const flaggedGame = (fen: string) => ({
+    ...createGameStateFromFen(fen, settings, false),
+    clock: createClock(settings.timeControl, START)
+  });
+
+  it('flags the side to move once its time is gone', () => {
+    const gameState = flaggedGame('4k3/8/8/8/8/8/8/R3K3 w - - 0 1');
+
+    expect(isFlagged(gameState, START + 59_999)).toBe(false);
+    expect(isFlagged(gameState, START + 60_000)).toBe(true);
+  });
+
+  it('loses on time when the opponent could still mate', () => {
+    expect(getFlagFallResult(flaggedGame('r3k3/8/8/8/8/8/8/4K3 w - - 0 1'))).toEqual({ status: 'timeout' });
+  });
+
+  it('draws when the opponent has only a king', () => {
+    expect(getFlagFallResult(flaggedGame('4k3/8/8/8/8/8/8/R3K3 w - - 0 1'))).toEqual({
+      status: 'draw',
+      drawReason: 'timeout-vs-insufficient-material'
+    });
+  });
+});
+
+describe('formatClock', () => {
+  it.each([
+    [185_000, '3:05'],
+    [9_540, '0:09.5'],
+    [3_661_000, '1:01:01'],
+    [-500, '0:00.0']
+  ])('shows %i ms as %s', (ms, shown) => {
+    expect(formatClock(ms)).toBe(shown);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { loadEndgameTables, probeEndgame } from '@/lib/chess-endgame';
+import { positionFromFen } from './helpers';
+
+
+async function probe(fen: string) {
+  const position = positionFromFen(fen);
+  expect(await loadEndgameTables(position)).toBe(true);
+  return probeEndgame(position);
+}
+
+describe('endgame tables', () => {
+  it.each([
+    ['KvK', '8/8/3k4/8/8/4K3/8/8 w - - 0 1'],
+    ['KBvK', '8/8/3k4/8/8/4K3/8/5B2 w - - 0 1'],
+    ['KNvK', '8/8/3k4/8/8/4K3/8/n7 b - - 0 1']
+  ])('draws %s', async (_, fen) => {
+    expect(await probe(fen)).toEqual({ outcome: 'draw' });
+  });
+
+  it.each([
+    ['KQvK', 'k7/8/1K6/8/8/8/7Q/8 w - - 0 1'],
+    ['KRvK', 'k7/8/1K6/8/8/8/8/7R w - - 0 1']
+  ])('finds the mate in one in %s', async (_, fen) => {
+    expect(await probe(fen)).toEqual({ outcome: 'win', distanceToMate: 1 });
+  });
+
+  it('scores the mated side as lost at distance zero', async () => {
+    expect(await probe('k6R/8/1K6/8/8/8/8/8 b - - 0 1')).toEqual({ outcome: 'loss', distanceToMate: 0 });
+  });
+
+  it('scores stalemate as a draw', async () => {
+    expect(await probe('k7/2Q5/1K6/8/8/8/8/8 b - - 0 1')).toEqual({ outcome: 'draw' });
+  });
+
+  it.each([
+    ['the defending king is in front of the pawn', '8/4k3/4P3/4K3/8/8/8/8 w - - 0 1', 'draw'],
+    ['the attacking king leads its pawn on the sixth rank', '4k3/8/4K3/4P3/8/8/8/8 b - - 0 1', 'loss']
+  ])('knows KPvK when %s', async (_, fen, outcome) => {
+    expect(await probe(fen)).toMatchObject({ outcome });
+  });
+
+  // The best move wins one ply sooner, and no move lets the defender last longer
+  it.each([
+    ['KQvK', '8/8/8/4k3/8/8/3QK3/8 w - - 0 1'],
+    ['KRvK', '8/8/3k4/8/8/8/8/R3K3 w - - 0 1']
+  ])('agrees with itself one move on in %s', async (_, fen) => {
+    const position = positionFromFen(fen);
+    const result = await probe(fen);
+    expect(result?.outcome).toBe('win');
+
+    const replies = position.generateLegalMoves().map(move => {
+      position.makeMove(move);
+      const reply = probeEndgame(position);
+      position.unmakeMove();
+      return reply;
+    });
+    const fastest = Math.min(
+      ...replies.filter(reply => reply?.outcome === 'loss').map(reply => reply!.distanceToMate!)
+    );
+
+    expect(fastest).toBe(result!.distanceToMate! - 1);
+  });
+
+  it('does not probe positions with more pieces than the tables hold', async () => {
+    const position = positionFromFen('4k3/8/8/8/8/8/2PPP3/4K3 w - - 0 1');
+
+    expect(await loadEndgameTables(position)).toBe(false);
+    expect(probeEndgame(position)).toBeNull();
+  });
+});
@@ -0,0 +1,250 @@
+import { describe, expect, it } from 'vitest';
+import { algebraicToPosition } from '@/types/chess';
+import { ChessEngine } from '@/lib/chess-engine';
+import { STARTING_FEN, gameStateToFen } from '@/lib/chess-fen';
+import { moveFrom, toSquare } from '@/lib/chess-position';
+import { gameStateFromFen, playMoves, positionFromFen } from './helpers';
+
+// Reference positions for checking the move generator. Perft figures are the published
+// ones (chessprogramming.org "Perft Results"); nodes[i] is the count at depth i + 1.
+
+interface PerftCase {
+  name: string;
+  fen: string;
+  nodes: number[];
+}
+
+// Every legal move, in SAN, for the piece on `from`
+interface LegalityCase {
+  name: string;
+  fen: string;
+  from: string;
+  moves: string[];
+}
+
+const PERFT_CASES: PerftCase[] = [
+  {
+    name: 'Start position',
+    fen: STARTING_FEN,
+    nodes: [20, 400, 8902, 197281]
+  },
+  {
+    name: 'Kiwipete',
+    fen: 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1',
+    nodes: [48, 2039, 97862, 4085603]
+  },
+  {
+    name: 'Position 3 (rook and pawn endgame, en passant pins)',
+    fen: '8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1',
+    nodes: [14, 191, 2812, 43238]
+  },
+  {
+    name: 'Position 4 (promotions and castling under attack)',
+    fen: 'r3k2r/Pppp1ppp/1b3nbN/nP6/BBP1P3/q4N2/Pp1P2PP/R2Q1RK1 w kq - 0 1',
+    nodes: [6, 264, 9467, 422333]
+  },
+  {
+    name: 'Position 5',
+    fen: 'rnbq1k1r/pp1Pbppp/2p5/8/2B5/8/PPP1NnPP/RNBQK2R w KQ - 1 8',
+    nodes: [44, 1486, 62379, 2103487]
+  },
+  {
+    name: 'Position 6',
+    fen: 'r4rk1/1pp1qppp/p1np1n2/2b1p1B1/2B1P1b1/P1NP1N2/1PP1QPPP/R4RK1 w - - 0 10',
+    nodes: [46, 2079, 89890, 3894594]
+  }
+];
+
+const LEGALITY_CASES: LegalityCase[] = [
+  {
+    name: 'Knight pinned to its king cannot move',
+    fen: '4k3/4r3/8/8/8/8/4N3/4K3 w - - 0 1',
+    from: 'e2',
+    moves: []
+  },
+  {
+    name: 'Pinned bishop may only move along the pin',
+    fen: '4k3/8/8/b7/8/8/3B4/4K3 w - - 0 1',
+    from: 'd2',
+    moves: ['Bc3', 'Bb4', 'Bxa5']
+  },
+  {
+    name: 'Every move of the blocking bishop gives discovered check',
+    fen: '4k3/8/8/8/4B3/8/8/K3R3 w - - 0 1',
+    from: 'e4',
+    moves: ['Bd5+', 'Bc6+', 'Bb7+', 'Ba8+', 'Bf5+', 'Bg6+', 'Bh7+', 'Bd3+', 'Bc2+', 'Bb1+', 'Bf3+', 'Bg2+', 'Bh1+']
+  },
+  {
+    name: 'King may not castle through an attacked square',
+    fen: '4k3/8/b7/8/8/8/8/R3K2R w KQ - 0 1',
+    from: 'e1',
+    moves: ['Kd1', 'Kd2', 'Kf2', 'O-O-O']
+  },
+  {
+    name: 'Queenside castling is allowed while b1 is attacked',
+    fen: '1r2k3/8/8/8/8/8/8/R3K2R w KQ - 0 1',
+    from: 'e1',
+    moves: ['Kd1', 'Kd2', 'Ke2', 'Kf1', 'Kf2', 'O-O', 'O-O-O']
+  },
+  {
+    name: 'King may not castle out of check',
+    fen: '4k3/8/8/8/8/8/4r3/R3K2R w KQ - 0 1',
+    from: 'e1',
+    moves: ['Kd1', 'Kf1', 'Kxe2']
+  },
+  {
+    name: 'En passant may not expose the king along the rank',
+    fen: '8/8/8/KPp4r/8/8/8/7k w - c6 0 1',
+    from: 'b5',
+    moves: ['b6']
+  },
+  {
+    name: 'En passant may capture the pawn that gives check',
+    fen: '7k/8/8/2Pp4/2K5/8/8/8 w - d6 0 1',
+    from: 'c5',
+    moves: ['cxd6']
+  }
+];
+
+
+describe('perft', () => {
+  it.each(PERFT_CASES)('$name', ({ fen, nodes }) => {
+    const engine = new ChessEngine(gameStateFromFen(fen));
+
+    expect(nodes.map((_, index) => engine.perft(index + 1))).toEqual(nodes);
+  });
+});
+
+describe('legal moves', () => {
+  it.each(LEGALITY_CASES)('$name', ({ fen, from, moves }) => {
+    const position = positionFromFen(fen);
+    const square = toSquare(algebraicToPosition(from));
+
+    const found = position.generateLegalMoves()
+      .filter(move => moveFrom(move) === square)
+      .map(move => position.toSan(move));
+
+    expect(found.sort()).toEqual([...moves].sort());
+  });
+});
+
+describe('SAN', () => {
+  it.each([
+    ['a knight named by its file', '4k3/8/8/8/8/8/8/1N2KN2 w - - 0 1', 'b1d2', 'Nbd2'],
+    ['a rook named by its rank', '4k3/8/8/R7/8/8/8/R3K3 w - - 0 1', 'a1a3', 'R1a3'],
+    ['a queen named by its square', '4k3/8/8/8/8/Q7/8/Q1Q1K3 w - - 0 1', 'a1b2', 'Qa1b2'],
+    ['a pawn capture', 'rnbqkbnr/ppp1pppp/8/3p4/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2', 'e4d5', 'exd5'],
+    ['a promotion with check', 'k7/4P3/8/8/8/8/8/4K3 w - - 0 1', 'e7e8q', 'e8=Q+'],
+    ['kingside castling', '4k3/8/8/8/8/8/8/4K2R w K - 0 1', 'e1g1', 'O-O'],
+    ['queenside castling', 'r3k3/8/8/8/8/8/8/4K3 b q - 0 1', 'e8c8', 'O-O-O'],
+    ['a mate', 'rnbqkbnr/pppp1ppp/8/4p3/6P1/5P2/PPPPP2P/RNBQKBNR b KQkq - 0 2', 'd8h4', 'Qh4#']
+  ])('writes %s', (_, fen, move, san) => {
+    const [played] = playMoves(new ChessEngine(gameStateFromFen(fen)), [move]);
+
+    expect(played.notation).toBe(san);
+  });
+});
+
+describe('draws', () => {
+  it('ends the game on the hundredth quiet half-move', () => {
+    const engine = new ChessEngine(gameStateFromFen('4k3/8/8/8/8/8/8/R3K3 w - - 99 60'));
+    playMoves(engine, ['a1a2']);
+
+    expect(engine.getGameState()).toMatchObject({ status: 'draw', drawReason: 'fifty-move-rule' });
+  });
+
+  it('ends the game when a position occurs for the third time', () => {
+    const engine = new ChessEngine(gameStateFromFen(STARTING_FEN));
+    const shuffle = ['g1f3', 'g8f6', 'f3g1', 'f6g8'];
+
+    playMoves(engine, [...shuffle, ...shuffle.slice(0, 3)]);
+    expect(engine.getGameState().status).toBe('active');
+
+    playMoves(engine, shuffle.slice(3));
+    expect(engine.getGameState()).toMatchObject({ status: 'draw', drawReason: 'threefold-repetition' });
+  });
+
+  it('counts a position with an en passant capture apart from its repeats', () => {
+    const engine = new ChessEngine(gameStateFromFen(STARTING_FEN));
+    const shuffle = ['g1f3', 'c6b8', 'f3g1', 'b8c6'];
+
+    // exd6 is possible only the first time the position after ...d5 occurs
+    playMoves(engine, ['e2e4', 'b8c6', 'e4e5', 'd7d5', ...shuffle, ...shuffle]);
+    expect(engine.getGameState().status).toBe('active');
+
+    playMoves(engine, shuffle);
+    expect(engine.getGameState()).toMatchObject({ status: 'draw', drawReason: 'threefold-repetition' });
+  });
+
+  it('ends the game when neither side can mate', () => {
+    const engine = new ChessEngine(gameStateFromFen('4k3/8/8/8/8/8/3r4/2B1K3 w - - 0 1'));
+    playMoves(engine, ['e1d2']);
+
+    expect(engine.getGameState()).toMatchObject({ status: 'draw', drawReason: 'insufficient-material' });
+  });
+
+  it('plays on while mate is still possible', () => {
+    const engine = new ChessEngine(gameStateFromFen('4k3/8/8/8/8/8/3r4/1NB1K3 w - - 0 1'));
+    playMoves(engine, ['e1d2']);
+
+    expect(engine.getGameState().status).toBe('active');
+  });
+});
+
+describe('unmakeMove', () => {
+  it.each([
+    ['castling', 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1', ['e1g1', 'e8c8']],
+    ['captures and en passant', 'rnbqkbnr/ppp1p1pp/8/3pPp2/8/8/PPPP1PPP/RNBQKBNR w KQkq f6 0 3', ['e5f6', 'g7f6', 'd1h5']],
+    ['a promotion', '3r3k/4P3/8/8/8/8/8/4K3 w - - 5 40', ['e7d8n', 'h8g7']]
+  ])('takes back %s exactly', (_, fen, moves) => {
+    const engine = new ChessEngine(gameStateFromFen(fen));
+    playMoves(engine, moves);
+
+    moves.forEach(() => engine.unmakeMove());
+    const gameState = engine.getGameState();
+
+    expect(gameStateToFen(gameState)).toBe(fen);
+    expect(gameState.moves).toHaveLength(0);
+    expect(gameState.capturedPieces).toEqual({ white: [], black: [] });
+    expect(gameState.status).toBe('active');
+  });
+
+  it('reopens a finished game', () => {
+    const engine = new ChessEngine(gameStateFromFen(STARTING_FEN));
+    playMoves(engine, ['f2f3', 'e7e5', 'g2g4', 'd8h4']);
+    expect(engine.getGameState().status).toBe('checkmate');
+
+    engine.unmakeMove();
+    expect(engine.getGameState()).toMatchObject({ status: 'active', currentPlayer: 'black' });
+  });
+
+  it('does nothing without moves to take back', () => {
+    expect(new ChessEngine(gameStateFromFen(STARTING_FEN)).unmakeMove()).toBeNull();
+  });
+});
+
+describe('getGameStateAtPly', () => {
+  // Black to move on move 12, so the first ply is black's
+  const fen = 'r1bqk2r/pppp1ppp/2n2n2/2b1p3/2B1P3/2N2N2/PPPP1PPP/R1BQK2R b KQkq - 5 12';
+  const engine = new ChessEngine(gameStateFromFen(fen));
+  playMoves(engine, ['e8g8', 'e1g1', 'd7d6']);
+
+  it.each([
+    [0, fen],
+    [1, 'r1bq1rk1/pppp1ppp/2n2n2/2b1p3/2B1P3/2N2N2/PPPP1PPP/R1BQK2R w KQ - 6 13'],
+    [2, 'r1bq1rk1/pppp1ppp/2n2n2/2b1p3/2B1P3/2N2N2/PPPP1PPP/R1BQ1RK1 b - - 7 13'],
+    [3, 'r1bq1rk1/ppp2ppp/2np1n2/2b1p3/2B1P3/2N2N2/PPPP1PPP/R1BQ1RK1 w - - 0 14']
+  ])('rewinds to ply %d with the move counters of that position', (ply, expected) => {
+    const gameState = engine.getGameStateAtPly(ply);
+
+    expect(gameStateToFen(gameState)).toBe(expected);
+    expect(gameState.moves).toHaveLength(ply);
+  });
+
+  it('clamps plies outside the game and leaves the game itself alone', () => {
+    expect(engine.getGameStateAtPly(-1).moves).toHaveLength(0);
+    expect(engine.getGameStateAtPly(10).moves).toHaveLength(3);
+    expect(engine.getGameState().moves).toHaveLength(3);
+    expect(engine.getGameState().fullmoveNumber).toBe(14);
+  });
+});
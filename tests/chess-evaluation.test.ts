@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { EvaluationTerms, getEvaluationTerms } from '@/lib/chess-evaluation';
+import { STARTING_FEN } from '@/lib/chess-fen';
+import { positionFromFen } from './helpers';
+
+// Evaluated as-is and colour-mirrored; every term must come out exactly negated
+const EVALUATION_SYMMETRY_FENS = [
+  STARTING_FEN,
+  'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1',
+  '8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1',
+  'r4rk1/1pp1qppp/p1np1n2/2b1p1B1/2B1P1b1/P1NP1N2/1PP1QPPP/R4RK1 w - - 0 10',
+  '8/5k2/3p4/1p1Pp2p/pP2Pp1P/P4P1K/8/8 b - - 99 50'
+];
+
+// Flips the board top to bottom and swaps the colours of every piece and right
+function mirrorFen(fen: string): string {
+  const [placement, side, castling, enPassant, ...counters] = fen.trim().split(/\s+/);
+  const swapCase = (text: string) =>
+    text.replace(/[a-z]/gi, letter => (letter === letter.toLowerCase() ? letter.toUpperCase() : letter.toLowerCase()));
+
+  return [
+    swapCase(placement.split('/').reverse().join('/')),
+    side === 'w' ? 'b' : 'w',
+    castling === '-' ? '-' : swapCase(castling).split('').sort().join(''),
+    enPassant === '-' ? '-' : enPassant[0] + (9 - Number(enPassant[1])),
+    ...counters
+  ].join(' ');
+}
+
+const evaluationTermsOf = (fen: string): EvaluationTerms => getEvaluationTerms(positionFromFen(fen));
+
+describe('evaluation symmetry', () => {
+  it.each(EVALUATION_SYMMETRY_FENS)('%s', fen => {
+    const terms = evaluationTermsOf(fen);
+    const mirrored = evaluationTermsOf(mirrorFen(fen));
+
+    const broken = (Object.keys(terms) as (keyof EvaluationTerms)[])
+      .filter(term => term !== 'phase' && terms[term] !== -mirrored[term])
+      .map(term => `${term} ${terms[term]} vs ${mirrored[term]}`);
+
+    expect(broken).toEqual([]);
+    expect(mirrored.phase).toBe(terms.phase);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { ChessEngine } from '@/lib/chess-engine';
+import { FenError, STARTING_FEN, createGameStateFromFen, gameStateToFen, parseFen } from '@/lib/chess-fen';
+import { TEST_SETTINGS, playMoves } from './helpers';
+
+describe('FEN round trip', () => {
+  it.each([
+    STARTING_FEN,
+    'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1',
+    'rnbqkbnr/ppp1p1pp/8/3pPp2/8/8/PPPP1PPP/RNBQKBNR w KQkq f6 0 3',
+    'r3k3/8/8/8/8/8/8/4K2R b Kq - 12 40',
+    '8/5k2/3p4/1p1Pp2p/pP2Pp1P/P4P1K/8/8 b - - 99 50'
+  ])('%s', fen => {
+    expect(gameStateToFen(createGameStateFromFen(fen, TEST_SETTINGS))).toBe(fen);
+  });
+
+  it('fills in the clocks a four-field FEN leaves out', () => {
+    const fen = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq -';
+
+    expect(gameStateToFen(createGameStateFromFen(fen, TEST_SETTINGS))).toBe(`${fen} 0 1`);
+  });
+
+  it('tracks the en passant square, castling rights and clocks as moves are played', () => {
+    const engine = new ChessEngine(createGameStateFromFen(STARTING_FEN, TEST_SETTINGS));
+    playMoves(engine, ['e2e4']);
+    expect(gameStateToFen(engine.getGameState())).toBe('rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1');
+
+    playMoves(engine, ['g8f6', 'e1e2']);
+    expect(gameStateToFen(engine.getGameState())).toBe('rnbqkb1r/pppppppp/5n2/8/4P3/8/PPPPKPPP/RNBQ1BNR b kq - 2 2');
+  });
+});
+
+describe('FEN errors', () => {
+  it.each([
+    ['the wrong number of fields', 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0', 'expected 4 or 6 space-separated fields, found 5'],
+    ['a missing king', 'rnbq1bnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQ - 0 1', 'expected exactly one black king, found 0'],
+    ['a pawn on the back rank', 'rnbqkbnP/pppppppp/8/8/8/8/PPPPPPP1/RNBQKBNR w KQq - 0 1', 'cannot stand on the back rank'],
+    ['a castling right without its rook', 'rnbqkbn1/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1', 'requires a black rook on h8'],
+    ['an en passant square with no pawn behind it', STARTING_FEN.replace('KQkq -', 'KQkq e6'), 'has no black pawn'],
+    ['the side not to move in check', '4k3/8/8/8/8/8/4R3/4K3 w - - 0 1', 'black is in check but it is white to move']
+  ])('rejects %s', (_, fen, message) => {
+    expect(() => parseFen(fen)).toThrow(FenError);
+    expect(() => parseFen(fen)).toThrow(message);
+  });
+});
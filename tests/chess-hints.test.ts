@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { findThreats } from '@/lib/chess-hints';
+import { gameStateFromFen } from './helpers';
+
+const threatsIn = (fen: string) => findThreats(gameStateFromFen(fen));
+
+describe('findThreats', () => {
+  it('puts a threatened mate first', () => {
+    const threats = threatsIn('r1bqkbnr/pppp1ppp/2n5/4p2Q/2B1P3/8/PPPP1PPP/RNB1K1NR b KQkq - 3 3');
+
+    expect(threats[0]).toMatchObject({ san: 'Qxf7#', kind: 'mate' });
+  });
+
+  it('finds an undefended piece', () => {
+    expect(threatsIn('1r2k3/8/8/8/1B6/8/8/4K3 w - - 0 1')).toEqual([
+      { from: { row: 0, col: 1 }, to: { row: 4, col: 1 }, san: 'Rxb4', kind: 'material', material: 3 }
+    ]);
+  });
+
+  it('ignores a capture that loses the attacker to a recapture', () => {
+    expect(threatsIn('1r2k3/8/8/8/1B6/P7/8/4K3 w - - 0 1')).toEqual([]);
+  });
+
+  it('counts a capture by a cheaper piece even when it is recaptured', () => {
+    expect(threatsIn('4k3/8/8/2p5/1R6/P7/8/4K3 w - - 0 1')).toMatchObject([
+      { san: 'cxb4', kind: 'material', material: 4 }
+    ]);
+  });
+
+  it('orders material threats by what they win, one per target', () => {
+    // Two pieces can take the queen, guarded only by the king; the knight can also take the
+    // rook, which the queen guards
+    const threats = threatsIn('k7/8/8/1b6/3n4/8/2R1Q3/4K3 w - - 0 1');
+
+    expect(threats.map(threat => [threat.to, threat.material])).toEqual([
+      [{ row: 6, col: 4 }, 6],
+      [{ row: 6, col: 2 }, 2]
+    ]);
+  });
+
+  it('has nothing to report while in check', () => {
+    expect(threatsIn('4k3/8/8/8/1B6/8/4r3/4K3 w - - 0 1')).toEqual([]);
+  });
+});
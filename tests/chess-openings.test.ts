@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { ChessAI } from '@/lib/chess-ai';
+import { STARTING_FEN } from '@/lib/chess-fen';
+import { getBookMoves, identifyOpening } from '@/lib/chess-openings';
+import { importPgn } from '@/lib/chess-pgn';
+import { TEST_SETTINGS, gameStateFromFen, positionFromFen } from './helpers';
+
+const openingAfter = (movetext: string) => identifyOpening(importPgn(movetext, TEST_SETTINGS).gameState);
+
+describe('opening names', () => {
+  it.each([
+    ['1. e4 c5', 'B20', 'Sicilian Defense'],
+    ['1. e4 e5 2. Nf3 Nc6 3. Bb5', 'C60', 'Ruy Lopez'],
+    ['1. e4 c5 2. Nf3 Nc6 3. Bb5', 'B30', 'Sicilian Defense: Rossolimo Variation']
+  ])('names %s', (movetext, eco, name) => {
+    expect(openingAfter(movetext)).toEqual({ eco, name });
+  });
+
+  it('keeps the last opening once the game leaves the book', () => {
+    expect(openingAfter('1. e4 e5 2. Nf3 Nc6 3. Bb5 h6 4. h3')).toEqual({ eco: 'C60', name: 'Ruy Lopez' });
+  });
+
+  it('has no name before the first move', () => {
+    expect(openingAfter('*')).toBeNull();
+  });
+});
+
+describe('book moves', () => {
+  it('offers only legal moves, weighted by how many lines play them', () => {
+    const position = positionFromFen(STARTING_FEN);
+    const legal = position.generateLegalMoves();
+    const bookMoves = getBookMoves(position);
+
+    expect(bookMoves.length).toBeGreaterThan(0);
+    for (const { move, weight } of bookMoves) {
+      expect(legal).toContain(move);
+      expect(weight).toBeGreaterThanOrEqual(1);
+    }
+  });
+
+  it('has nothing for a position outside the book', () => {
+    const position = positionFromFen(STARTING_FEN);
+    position.makeMove(position.generateLegalMoves().find(move => position.toSan(move) === 'h4')!);
+    position.makeMove(position.generateLegalMoves().find(move => position.toSan(move) === 'a5')!);
+
+    expect(getBookMoves(position)).toEqual([]);
+  });
+
+  it('is where the AI plays from in the opening', async () => {
+    const position = positionFromFen(STARTING_FEN);
+    const bookSans = getBookMoves(position).map(({ move }) => position.toSan(move));
+    const gameState = gameStateFromFen(STARTING_FEN);
+
+    const result = await new ChessAI('expert').getBestMove(gameState, 'white');
+
+    expect(bookSans).toContain(result.move.notation);
+  });
+});
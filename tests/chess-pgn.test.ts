@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import { Move, PieceType, positionToAlgebraic } from '@/types/chess';
+import { PgnParseError, exportPgn, importPgn } from '@/lib/chess-pgn';
+import { TEST_SETTINGS } from './helpers';
+
+const resultTagOf = (pgn: string) => pgn.match(/\[Result "([^"]*)"\]/)?.[1];
+
+const PROMOTION_LETTERS: Partial<Record<PieceType, string>> = { queen: 'q', rook: 'r', bishop: 'b', knight: 'n' };
+
+// The move as coordinates, such as "e2e4" or "e7e8q"
+const coordinatesOf = (move: Move) =>
+  positionToAlgebraic(move.from) + positionToAlgebraic(move.to) +
+  (move.promotionPiece ? PROMOTION_LETTERS[move.promotionPiece] : '');
+
+const tagNamesOf = (pgn: string) => [...pgn.matchAll(/^\[(\w+) /gm)].map(match => match[1]);
+
+const movetextOf = (pgn: string) => pgn.split('\n\n')[1].trim();
+
+const notationsOf = (pgn: string) => importPgn(pgn, TEST_SETTINGS).gameState.moves.map(move => move.notation);
+
+describe('PGN results', () => {
+  it.each([
+    ['a resignation', '1. e4 e5 2. Nf3 Nc6 3. Bb5 0-1', '0-1'],
+    ['an agreed draw', '1. d4 d5 2. c4 e6 1/2-1/2', '1/2-1/2'],
+    ['a result given only in the tag', '[Result "1-0"]\n\n1. e4 e5 *', '1-0']
+  ])('keeps %s when the game is exported again', (_, pgn, result) => {
+    const exported = exportPgn(importPgn(pgn, TEST_SETTINGS).gameState);
+
+    expect(resultTagOf(exported)).toBe(result);
+    expect(exported.trim().endsWith(result)).toBe(true);
+  });
+
+  it('takes a mate on the board over the recorded result', () => {
+    const { gameState } = importPgn('1. f3 e5 2. g4 Qh4# 0-1', TEST_SETTINGS);
+
+    expect(gameState.recordedResult).toBeUndefined();
+    expect(resultTagOf(exportPgn(gameState))).toBe('0-1');
+  });
+
+  it('leaves an unfinished game unresolved', () => {
+    expect(resultTagOf(exportPgn(importPgn('1. e4 e5 *', TEST_SETTINGS).gameState))).toBe('*');
+  });
+});
+
+describe('PGN export', () => {
+  it('writes the Seven Tag Roster first and in order', () => {
+    const pgn = exportPgn(importPgn('1. e4 e5 2. Nf3 Nc6 *', TEST_SETTINGS).gameState, { white: 'Ann', black: 'Bo' });
+
+    expect(tagNamesOf(pgn).slice(0, 7)).toEqual(['Event', 'Site', 'Date', 'Round', 'White', 'Black', 'Result']);
+    expect(tagNamesOf(pgn)).not.toContain('FEN');
+  });
+
+  it('writes SetUp and FEN tags for a game started from a position', () => {
+    const fen = 'r3k3/8/8/8/8/8/8/4K2R w Kq - 0 1';
+    const pgn = exportPgn(importPgn(`[FEN "${fen}"]\n\n1. O-O *`, TEST_SETTINGS).gameState);
+
+    expect(tagNamesOf(pgn).slice(7, 9)).toEqual(['SetUp', 'FEN']);
+    expect(pgn).toContain('[SetUp "1"]');
+    expect(pgn).toContain(`[FEN "${fen}"]`);
+  });
+
+  it.each([
+    ['black to move', '4k3/8/8/8/8/8/8/R3K3 b - - 3 30', '30... Kd7 31. Kd2 Kc6 *'],
+    ['a later fullmove number', '4k3/8/8/8/8/8/8/R3K3 w - - 0 12', '12. Kd2 Kd7 13. Kc3 *']
+  ])('numbers moves from a FEN with %s', (_, fen, movetext) => {
+    const pgn = exportPgn(importPgn(`[FEN "${fen}"]\n\n${movetext}`, TEST_SETTINGS).gameState);
+
+    expect(movetextOf(pgn)).toBe(movetext);
+  });
+
+  it('numbers black moves again after a clock comment', () => {
+    const { gameState } = importPgn('1. e4 e5 2. Nf3 Nc6 *', TEST_SETTINGS);
+    gameState.moves.forEach((move, index) => {
+      move.clockRemaining = 300_000 - index * 1000;
+    });
+
+    expect(movetextOf(exportPgn(gameState))).toBe(
+      '1. e4 {[%clk 0:05:00]} 1... e5 {[%clk 0:04:59]} 2. Nf3 {[%clk 0:04:58]} 2... Nc6\n{[%clk 0:04:57]} *'
+    );
+  });
+
+  it('wraps movetext at 80 columns', () => {
+    const movetext = '1. e4 e5 2. Nf3 d6 3. d4 Bg4 4. dxe5 Bxf3 5. Qxf3 dxe5 6. Bc4 Nf6 7. Qb3 Qe7 ' +
+      '8. Nc3 c6 9. Bg5 b5 10. Nxb5 cxb5 11. Bxb5+ Nbd7 12. O-O-O Rd8 13. Rxd7 Rxd7 ' +
+      '14. Rd1 Qe6 15. Bxd7+ Nxd7 16. Qb8+ Nxb8 17. Rd8# 1-0';
+    const lines = movetextOf(exportPgn(importPgn(movetext, TEST_SETTINGS).gameState)).split('\n');
+
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.join(' ')).toBe(movetext);
+    lines.forEach((line, index) => {
+      expect(line.length).toBeLessThanOrEqual(80);
+      // Each line is filled as far as the next token allows
+      const next = lines[index + 1]?.split(' ')[0];
+      if (next) expect(line.length + 1 + next.length).toBeGreaterThan(80);
+    });
+  });
+});
+
+describe('PGN import', () => {
+  it.each([
+    ['a knight named by its file', '4k3/8/8/8/8/8/8/1N2KN2 w - - 0 1', 'Nbd2', 'b1d2'],
+    ['a rook named by its rank', '4k3/8/8/R7/8/8/8/R3K3 w - - 0 1', 'R1a3', 'a1a3'],
+    ['a queen named by its square', '1k6/8/8/8/4Q2Q/8/8/K6Q w - - 0 1', 'Qh4e1', 'h4e1'],
+    ['kingside castling', '4k3/8/8/8/8/8/8/4K2R w K - 0 1', 'O-O', 'e1g1'],
+    ['queenside castling written with zeros', 'r3k3/8/8/8/8/8/8/4K3 b q - 0 1', '0-0-0', 'e8c8'],
+    ['an underpromotion', 'k7/4P3/8/8/8/8/8/4K3 w - - 0 1', 'e8=N', 'e7e8n'],
+    ['a promotion without the equals sign', 'k7/4P3/8/8/8/8/8/4K3 w - - 0 1', 'e8Q+', 'e7e8q'],
+    ['a mate', 'rnbqkbnr/pppp1ppp/8/4p3/6P1/5P2/PPPPP2P/RNBQKBNR b KQkq - 0 2', 'Qh4#', 'd8h4'],
+    ['a mate without its marker', 'rnbqkbnr/pppp1ppp/8/4p3/6P1/5P2/PPPPP2P/RNBQKBNR b KQkq - 0 2', 'Qh4', 'd8h4']
+  ])('resolves %s', (_, fen, san, coordinates) => {
+    const { gameState } = importPgn(`[FEN "${fen}"]\n\n${san} *`, TEST_SETTINGS);
+
+    expect(gameState.moves.map(coordinatesOf)).toEqual([coordinates]);
+  });
+
+  it('ends the game on an imported mate', () => {
+    expect(importPgn('1. f3 e5 2. g4 Qh4# 0-1', TEST_SETTINGS).gameState.status).toBe('checkmate');
+  });
+
+  it('skips comments, NAGs and move suffixes', () => {
+    const pgn = '{Opening} 1. e4 {best by test} e5 $1 2. Nf3!? ; a line comment\nNc6?! 3. Bb5 $14 a6!! *';
+
+    expect(notationsOf(pgn)).toEqual(['e4', 'e5', 'Nf3', 'Nc6', 'Bb5', 'a6']);
+  });
+
+  it('ignores nested variations', () => {
+    const pgn = '1. e4 e5 (1... c5 2. Nf3 (2. Qxf7 Kxf7) d6) 2. Nf3 (2. Bc4 Nc6 (2... Nf6)) Nc6 *';
+
+    expect(notationsOf(pgn)).toEqual(['e4', 'e5', 'Nf3', 'Nc6']);
+  });
+
+  it.each([
+    ['an illegal move', '1. e4 e5 2. Ke3 *', 'Illegal move at move 2. Ke3 (ply 3)', 3, 'Ke3'],
+    ['an ambiguous move', '[FEN "4k3/8/8/8/8/8/8/1N2KN2 w - - 0 1"]\n\n1. Nd2 *', 'Ambiguous move at move 1. Nd2 (ply 1)', 1, 'Nd2'],
+    ['an unparseable move', '1. e4 Zz9 2. Nf3 *', 'Unparseable move at move 1... Zz9 (ply 2)', 2, 'Zz9'],
+    ['a move after black to move in the FEN', '[FEN "4k3/8/8/8/8/8/8/4K3 b - - 0 30"]\n\n30... Kd7 31. Kd2 Kc5 *', 'Illegal move at move 31... Kc5 (ply 4)', 4, 'Kc5']
+  ])('reports %s with its text and ply', (_, pgn, message, ply, san) => {
+    const error = (() => {
+      try {
+        importPgn(pgn, TEST_SETTINGS);
+      } catch (caught) {
+        return caught;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(PgnParseError);
+    expect(error).toMatchObject({ message, ply, san });
+  });
+});
+
+describe('malformed movetext', () => {
+  it.each([
+    ['a stray closing brace', '1. e4 } e5 *', 'Unexpected character "}" on line 1'],
+    ['a stray closing bracket', '[Event "Casual"]\n\n1. e4 e5\n2. Nf3 ] *', 'Unexpected character "]" on line 4']
+  ])('reports %s as a parse error', (_, pgn, message) => {
+    expect(() => importPgn(pgn, TEST_SETTINGS)).toThrow(PgnParseError);
+    expect(() => importPgn(pgn, TEST_SETTINGS)).toThrow(message);
+  });
+});
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { importPgn } from '@/lib/chess-pgn';
+import { buildReplayFrames } from '@/lib/chess-replay';
+import { TEST_SETTINGS } from './helpers';
+
+const fullmoveNumbersOf = (pgn: string) => {
+  const { gameState, headers } = importPgn(pgn, TEST_SETTINGS);
+  return buildReplayFrames(gameState.moves, TEST_SETTINGS, headers.FEN).map(frame => frame.fullmoveNumber);
+};
+
+describe('replay frames', () => {
+  it('number the positions of a game from the start', () => {
+    expect(fullmoveNumbersOf('1. e4 e5 2. Nf3 *')).toEqual([1, 1, 2, 2]);
+  });
+
+  it('number the positions of a game set up with black to move', () => {
+    expect(fullmoveNumbersOf('[FEN "4k3/8/8/8/8/8/8/R3K3 b - - 3 30"]\n\n30... Kd7 31. Kd2 Kc6 *'))
+      .toEqual([30, 31, 31, 32]);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { Difficulty } from '@/types/chess';
+import { PgnResult } from '@/lib/chess-pgn';
+import { SelfPlayGame, estimateRatings, playSelfPlayGame, runStrengthCalibration } from '@/lib/chess-self-play';
+import { DIFFICULTY_LEVELS, STRENGTH_PROFILES } from '@/lib/chess-strength';
+
+// Furthest a level's measured rating may stray from its profile before the profile needs updating
+const CALIBRATION_TOLERANCE = 150;
+
+// Rows of [white, black, result, how many times]
+const gamesOf = (table: [Difficulty, Difficulty, PgnResult, number][]): SelfPlayGame[] =>
+  table.flatMap(([white, black, result, count]) =>
+    Array.from({ length: count }, () => ({ white, black, result, plies: 80 }))
+  );
+
+describe('estimateRatings', () => {
+  it('rates an even match level', () => {
+    expect(estimateRatings(gamesOf([
+      ['easy', 'medium', '1-0', 2],
+      ['medium', 'easy', '1-0', 2]
+    ]))).toEqual({ easy: 0, medium: 0 });
+  });
+
+  it('spreads two levels by the gap their score implies', () => {
+    // Medium scores 3.5 of 4 with either colour, 4 of 5 with the prior draw: 400 * log10(4) apart
+    expect(estimateRatings(gamesOf([
+      ['easy', 'medium', '0-1', 2],
+      ['medium', 'easy', '1-0', 1],
+      ['medium', 'easy', '1/2-1/2', 1]
+    ]))).toEqual({ easy: -120, medium: 120 });
+  });
+
+  it('keeps a clean sweep finite', () => {
+    const { hard = 0, expert = 0 } = estimateRatings(gamesOf([['hard', 'expert', '0-1', 10]]));
+
+    // 10.5 of 11 with the prior draw
+    expect(expert - hard).toBeCloseTo(400 * Math.log10(21), -1);
+  });
+
+  it('chains levels that only met their neighbours and ignores games within a level', () => {
+    const ratings = estimateRatings(gamesOf([
+      ['easy', 'medium', '0-1', 4],
+      ['medium', 'hard', '0-1', 4],
+      ['hard', 'hard', '1-0', 5]
+    ]));
+
+    const { easy = 0, medium = 0, hard = 0 } = ratings;
+
+    expect(Object.keys(ratings).sort()).toEqual(['easy', 'hard', 'medium']);
+    expect(easy + medium + hard).toBeCloseTo(0, -1);
+    expect(medium - easy).toBeCloseTo(hard - medium, -1);
+    expect(medium).toBeGreaterThan(easy);
+  });
+
+  it('scores games cut off at the ply limit as draws', () => {
+    expect(estimateRatings(gamesOf([['easy', 'medium', '*', 3]]))).toEqual({ easy: 0, medium: 0 });
+  });
+});
+
+describe('playSelfPlayGame', () => {
+  it('stops at the ply limit with an unfinished result', async () => {
+    expect(await playSelfPlayGame('easy', 'easy', { maxPlies: 4, timeLimitMs: 50 })).toEqual({
+      white: 'easy',
+      black: 'easy',
+      result: '*',
+      plies: 4
+    });
+  });
+});
+
+// A full calibration plays every level against the next one up and takes minutes, so it runs
+// only through `npm run calibrate`
+describe.runIf(process.env.CALIBRATE)('strength calibration', () => {
+  it(`keeps every level within ${CALIBRATION_TOLERANCE} points of its profile rating`, async () => {
+    const { ratings } = await runStrengthCalibration({
+      gamesPerPairing: Number(process.env.CALIBRATE_GAMES) || undefined,
+      onGame: game => console.log(`${game.white} - ${game.black}: ${game.result} in ${game.plies} plies`)
+    });
+    console.table(DIFFICULTY_LEVELS.map(level => ({
+      level,
+      profile: STRENGTH_PROFILES[level].elo,
+      measured: ratings[level]
+    })));
+
+    for (const level of DIFFICULTY_LEVELS) {
+      expect(Math.abs(ratings[level] - STRENGTH_PROFILES[level].elo)).toBeLessThanOrEqual(CALIBRATION_TOLERANCE);
+    }
+  }, 60 * 60_000);
+});
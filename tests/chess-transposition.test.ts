@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { ChessAI } from '@/lib/chess-ai';
+import { STARTING_FEN } from '@/lib/chess-fen';
+import { ChessPosition, encodeMove, toCoordinateNotation } from '@/lib/chess-position';
+import { TranspositionTable } from '@/lib/chess-transposition';
+import { gameStateFromFen, positionFromFen } from './helpers';
+
+
+// Plays moves in coordinate notation on the core position
+function play(position: ChessPosition, moves: string[]): void {
+  for (const coordinates of moves) {
+    const move = position.generateLegalMoves().find(legal => toCoordinateNotation(legal) === coordinates);
+    if (move === undefined) throw new Error(`Illegal move ${coordinates}`);
+    position.makeMove(move);
+  }
+}
+
+const hashOf = (position: ChessPosition) => [position.hashLo, position.hashHi];
+
+describe('Zobrist hashing', () => {
+  it('updates the hash incrementally to what a fresh position computes', () => {
+    const position = positionFromFen(STARTING_FEN);
+    play(position, ['e2e4', 'd7d5', 'e4d5', 'g8f6', 'f1b5', 'c7c6', 'g1f3', 'c6b5', 'e1g1']);
+
+    expect(hashOf(position)).toEqual(hashOf(positionFromFen('rnbqkb1r/pp2pppp/5n2/1p1P4/8/5N2/PPPP1PPP/RNBQ1RK1 b kq - 1 5')));
+  });
+
+  it('reaches the same hash by different move orders', () => {
+    const first = positionFromFen(STARTING_FEN);
+    const second = positionFromFen(STARTING_FEN);
+    play(first, ['g1f3', 'g8f6', 'b1c3']);
+    play(second, ['b1c3', 'g8f6', 'g1f3']);
+
+    expect(hashOf(first)).toEqual(hashOf(second));
+  });
+
+  it('tells apart positions that differ only in castling rights, en passant or side to move', () => {
+    const hashes = [
+      'r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1',
+      'r3k2r/8/8/8/8/8/8/R3K2R w Kkq - 0 1',
+      'r3k2r/8/8/8/8/8/8/R3K2R b KQkq - 0 1',
+      'rnbqkbnr/ppp1p1pp/8/3pPp2/8/8/PPPP1PPP/RNBQKBNR w KQkq f6 0 3',
+      'rnbqkbnr/ppp1p1pp/8/3pPp2/8/8/PPPP1PPP/RNBQKBNR w KQkq - 0 3'
+    ].map(fen => hashOf(positionFromFen(fen)).join(':'));
+
+    expect(new Set(hashes).size).toBe(hashes.length);
+  });
+
+  it('restores the hash when moves are taken back', () => {
+    const position = positionFromFen(STARTING_FEN);
+    const before = hashOf(position);
+    play(position, ['e2e4', 'e7e5', 'g1f3']);
+    for (let i = 0; i < 3; i++) position.unmakeMove();
+
+    expect(hashOf(position)).toEqual(before);
+  });
+});
+
+describe('TranspositionTable', () => {
+  const bestMove = encodeMove(0x64, 0x44);
+
+  it('returns what was stored for the same position only', () => {
+    const table = new TranspositionTable(10);
+    const position = positionFromFen(STARTING_FEN);
+    table.store(position, { depth: 4, score: 0.3, bound: 'exact', bestMove });
+
+    expect(table.probe(position)).toEqual({ depth: 4, score: 0.3, bound: 'exact', bestMove });
+    play(position, ['e2e4']);
+    expect(table.probe(position)).toBeNull();
+  });
+
+  it('keeps a deeper result from the same search, with any best move the shallower one found', () => {
+    const table = new TranspositionTable(10);
+    const position = positionFromFen(STARTING_FEN);
+    table.store(position, { depth: 5, score: 0.2, bound: 'lower', bestMove: 0 });
+    table.store(position, { depth: 2, score: 0.9, bound: 'exact', bestMove });
+
+    expect(table.probe(position)).toEqual({ depth: 5, score: 0.2, bound: 'lower', bestMove });
+  });
+
+  it('lets a new search replace older entries', () => {
+    const table = new TranspositionTable(10);
+    const position = positionFromFen(STARTING_FEN);
+    table.store(position, { depth: 5, score: 0.2, bound: 'lower', bestMove });
+    table.newSearch();
+    table.store(position, { depth: 2, score: 0.9, bound: 'upper', bestMove: 0 });
+
+    expect(table.probe(position)).toEqual({ depth: 2, score: 0.9, bound: 'upper', bestMove });
+  });
+
+  it('forgets everything when cleared', () => {
+    const table = new TranspositionTable(10);
+    const position = positionFromFen(STARTING_FEN);
+    table.store(position, { depth: 1, score: 0, bound: 'exact', bestMove });
+    table.clear();
+
+    expect(table.probe(position)).toBeNull();
+  });
+});
+
+describe('node budget', () => {
+  it('stops deepening once the budget is spent', async () => {
+    const gameState = gameStateFromFen('r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R w KQkq - 2 3');
+    const result = await new ChessAI('expert').getBestMove(gameState, 'white', {
+      maxDepth: 8,
+      nodeLimit: 2_000,
+      timeLimitMs: 30_000,
+      useBook: false
+    });
+
+    expect(result.depth).toBeGreaterThanOrEqual(1);
+    expect(result.depth).toBeLessThan(8);
+  });
+});
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createClock } from '@/lib/chess-clock';
+import { ChessEngine } from '@/lib/chess-engine';
+import { STARTING_FEN, createGameStateFromFen } from '@/lib/chess-fen';
+import { AUTOSAVE_STORAGE_KEY, autosaveGame, loadSavedGame, saveGame } from '@/lib/game-autosave';
+import { TEST_SETTINGS, playMoves } from './helpers';
+
+const TIME_CONTROL = { minutes: 5, increment: 0 };
+
+const createStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key)
+  };
+};
+
+// A game a few moves in, started at a known time
+const createPlayedGame = (moves: string[] = ['e2e4', 'e7e5']) => {
+  const engine = new ChessEngine({
+    ...createGameStateFromFen(STARTING_FEN, TEST_SETTINGS, true),
+    startTime: new Date('2026-03-01T10:00:00Z')
+  });
+  playMoves(engine, moves);
+  return engine.getGameState();
+};
+
+describe('autosave', () => {
+  let storage: ReturnType<typeof createStorage>;
+
+  beforeEach(() => {
+    storage = createStorage();
+    vi.stubGlobal('window', { localStorage: storage });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('charges the side to move for its thinking time before stopping the clock', () => {
+    const turnStartedAt = 1_000_000;
+    const gameState = {
+      ...createGameStateFromFen(STARTING_FEN, { ...TEST_SETTINGS, timeControl: TIME_CONTROL }, true),
+      clock: createClock(TIME_CONTROL, turnStartedAt)
+    };
+
+    saveGame(gameState, 12, turnStartedAt + 7_000);
+    const saved = loadSavedGame();
+
+    expect(saved?.gameState.clock).toEqual({
+      remaining: { white: 5 * 60_000 - 7_000, black: 5 * 60_000 },
+      runningSince: null
+    });
+  });
+
+  it('restores the dates of the game, its moves and the save', () => {
+    const gameState = createPlayedGame();
+    const savedAt = new Date('2026-03-01T10:05:00Z').getTime();
+
+    saveGame(gameState, 300, savedAt);
+    const saved = loadSavedGame();
+
+    expect(saved?.savedAt).toEqual(new Date(savedAt));
+    expect(saved?.elapsedSeconds).toBe(300);
+    expect(saved?.gameState.startTime).toEqual(gameState.startTime);
+    saved?.gameState.moves.forEach((move, index) => {
+      expect(move.timestamp).toBeInstanceOf(Date);
+      expect(move.timestamp).toEqual(gameState.moves[index].timestamp);
+    });
+  });
+
+  it.each([
+    ['text that is not JSON', () => '{"version": 1, "gameState":'],
+    ['a save from another version', () => JSON.stringify({ version: 0, savedAt: 0, gameState: createPlayedGame() })],
+    ['a board with a missing rank', () => {
+      const gameState = createPlayedGame();
+      return JSON.stringify({ version: 1, savedAt: 0, gameState: { ...gameState, board: gameState.board.slice(1) } });
+    }],
+    ['a board without a white king', () => {
+      const gameState = createPlayedGame();
+      const board = gameState.board.map(rank => rank.map(piece => (piece?.type === 'king' && piece.color === 'white' ? null : piece)));
+      return JSON.stringify({ version: 1, savedAt: 0, gameState: { ...gameState, board } });
+    }],
+    ['an unreadable start time', () =>
+      JSON.stringify({ version: 1, savedAt: 0, gameState: { ...createPlayedGame(), startTime: 'soon' } })]
+  ])('rejects %s', (_, stored) => {
+    storage.setItem(AUTOSAVE_STORAGE_KEY, stored());
+
+    expect(loadSavedGame()).toBeNull();
+  });
+
+  it('saves a game once a move is played and clears the save when it ends', () => {
+    autosaveGame(createPlayedGame([]), 0);
+    expect(loadSavedGame()).toBeNull();
+
+    autosaveGame(createPlayedGame(['f2f3', 'e7e5']), 10);
+    expect(loadSavedGame()?.gameState.moves).toHaveLength(2);
+
+    const mated = createPlayedGame(['f2f3', 'e7e5', 'g2g4', 'd8h4']);
+    expect(mated.status).toBe('checkmate');
+    autosaveGame(mated, 20);
+    expect(loadSavedGame()).toBeNull();
+  });
+
+  it('keeps the offered game when the game held behind the resume prompt is started', () => {
+    saveGame(createPlayedGame(), 60);
+
+    // The held game has no moves, since the AI waits for the prompt to be answered
+    autosaveGame(createPlayedGame([]), 0);
+
+    expect(loadSavedGame()?.gameState.moves).toHaveLength(2);
+  });
+});
@@ -0,0 +1,173 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { GameAnalysis, GameHistory } from '@/types/chess';
+import { ChessEngine } from '@/lib/chess-engine';
+import { STARTING_FEN } from '@/lib/chess-fen';
+import { STRENGTH_PROFILES } from '@/lib/chess-strength';
+import {
+  GameHistoryRepository,
+  GameStorageError,
+  INITIAL_RATING,
+  computePlayerStats,
+  withPreviousAnalysis
+} from '@/lib/game-history';
+import { TEST_SETTINGS, gameStateFromFen, playMoves } from './helpers';
+
+let nextId = 0;
+
+// A record finished the given number of days into 2026
+const recordOf = (day: number, overrides: Partial<GameHistory> = {}): GameHistory => ({
+  id: `game-${nextId++}`,
+  playerName: 'You',
+  opponent: 'Friend',
+  playerColor: 'white',
+  result: 'win',
+  termination: 'checkmate',
+  moves: [],
+  duration: 300,
+  date: new Date(Date.UTC(2026, 0, 1 + day)),
+  isAIGame: false,
+  settings: TEST_SETTINGS,
+  ...overrides
+});
+
+describe('computePlayerStats', () => {
+  it('starts from nothing', () => {
+    expect(computePlayerStats([])).toEqual({
+      gamesPlayed: 0,
+      wins: 0,
+      losses: 0,
+      draws: 0,
+      winRate: 0,
+      averageGameLength: 0,
+      favoriteOpening: undefined,
+      currentStreak: 0,
+      bestStreak: 0,
+      rating: INITIAL_RATING
+    });
+  });
+
+  it('counts results and streaks in the order the games were played', () => {
+    // Given newest first, as the history query returns them
+    const records = [
+      recordOf(6, { result: 'win', duration: 100 }),
+      recordOf(5, { result: 'draw', duration: 200 }),
+      recordOf(4, { result: 'win', opening: 'Italian Game' }),
+      recordOf(3, { result: 'win', opening: 'Italian Game' }),
+      recordOf(2, { result: 'win', opening: 'Sicilian Defense' }),
+      recordOf(1, { result: 'loss', duration: 600 })
+    ];
+
+    expect(computePlayerStats(records)).toMatchObject({
+      gamesPlayed: 6,
+      wins: 4,
+      losses: 1,
+      draws: 1,
+      winRate: 4 / 6,
+      averageGameLength: 300,
+      favoriteOpening: 'Italian Game',
+      currentStreak: 1,
+      bestStreak: 3
+    });
+  });
+
+  it('moves the rating only for AI games, against the level played', () => {
+    const opponent = STRENGTH_PROFILES.expert.elo;
+    const expected = 1 / (1 + 10 ** ((opponent - INITIAL_RATING) / 400));
+    const records = [
+      recordOf(1, { isAIGame: true, result: 'win' }),
+      recordOf(2, { isAIGame: false, result: 'loss' })
+    ];
+
+    expect(computePlayerStats(records).rating).toBe(Math.round(INITIAL_RATING + 32 * (1 - expected)));
+  });
+});
+
+describe('withPreviousAnalysis', () => {
+  const movesOf = (moves: string[]) =>
+    playMoves(new ChessEngine(gameStateFromFen(STARTING_FEN)), moves);
+  const analysis: GameAnalysis = {
+    moves: [],
+    accuracy: { white: 90, black: 80 },
+    analyzedAt: new Date(Date.UTC(2026, 0, 1))
+  };
+
+  it('keeps the analysis of a game that ended again with the same moves', () => {
+    const previous = recordOf(1, { moves: movesOf(['f2f3', 'e7e5', 'g2g4', 'd8h4']), analysis });
+    const record = { ...previous, analysis: undefined, date: new Date() };
+
+    expect(withPreviousAnalysis(record, previous).analysis).toBe(analysis);
+  });
+
+  it('drops the analysis once the moves differ', () => {
+    const previous = recordOf(1, { moves: movesOf(['f2f3', 'e7e5', 'g2g4', 'd8h4']), analysis });
+    const record = { ...previous, moves: movesOf(['f2f3', 'e7e6', 'g2g4', 'd8h4']), analysis: undefined };
+
+    expect(withPreviousAnalysis(record, previous).analysis).toBeUndefined();
+    expect(withPreviousAnalysis(record, null)).toBe(record);
+  });
+});
+
+describe('GameHistoryRepository', () => {
+  let repository: GameHistoryRepository;
+
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+    repository = new GameHistoryRepository();
+  });
+
+  const saveAll = (records: GameHistory[]) => Promise.all(records.map(record => repository.save(record)));
+
+  it('pages through the games newest first and counts every match', async () => {
+    const records = Array.from({ length: 7 }, (_, day) => recordOf(day));
+    await saveAll(records);
+    const newestFirst = [...records].reverse();
+
+    const first = await repository.query({ offset: 0, limit: 3 });
+    const last = await repository.query({ offset: 6, limit: 3 });
+
+    expect(first.records.map(record => record.id)).toEqual(newestFirst.slice(0, 3).map(record => record.id));
+    expect(first.total).toBe(7);
+    expect(last.records.map(record => record.id)).toEqual([newestFirst[6].id]);
+    expect(await repository.query({ offset: 10, limit: 3 })).toEqual({ records: [], total: 7 });
+  });
+
+  it('pages within the filtered games', async () => {
+    await saveAll([
+      recordOf(1, { result: 'loss', opponent: 'Chess Prime AI (Beginner)' }),
+      recordOf(2, { result: 'win', opening: 'Italian Game' }),
+      recordOf(3, { result: 'loss', opening: 'Italian Game' }),
+      recordOf(4, { result: 'loss' })
+    ]);
+
+    const losses = await repository.query({ result: 'loss', offset: 1, limit: 1 });
+    const italian = await repository.query({ search: '  italian ' });
+    const beginner = await repository.query({ search: 'BEGINNER' });
+
+    expect(losses.total).toBe(3);
+    expect(losses.records.map(record => record.date.getUTCDate())).toEqual([4]);
+    expect(italian.records.map(record => record.result)).toEqual(['loss', 'win']);
+    expect(beginner.total).toBe(1);
+  });
+
+  it('replaces a game saved again under the same id', async () => {
+    const record = recordOf(1, { result: 'loss' });
+    await repository.save(record);
+    await repository.save({ ...record, result: 'draw' });
+
+    expect((await repository.getAll()).map(saved => saved.result)).toEqual(['draw']);
+    expect(await repository.get(record.id)).toMatchObject({ result: 'draw' });
+  });
+
+  it('rejects with GameStorageError without IndexedDB', async () => {
+    const { indexedDB } = globalThis;
+    // @ts-expect-error simulating a browser without IndexedDB
+    delete globalThis.indexedDB;
+    try {
+      await expect(new GameHistoryRepository().getAll()).rejects.toBeInstanceOf(GameStorageError);
+    } finally {
+      globalThis.indexedDB = indexedDB;
+    }
+  });
+});
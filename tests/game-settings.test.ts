@@ -0,0 +1,151 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_LAUNCH_SETTINGS,
+  GAME_SETTINGS_STORAGE_KEY,
+  GameLaunchSettings,
+  applyLaunchSearchParams,
+  launchSettingsToSearchParams,
+  loadStoredLaunchSettings,
+  sanitizeLaunchSettings
+} from '@/lib/game-settings';
+
+const stubSessionStorage = (stored: string | null) => {
+  vi.stubGlobal('window', {
+    sessionStorage: {
+      getItem: (key: string) => (key === GAME_SETTINGS_STORAGE_KEY ? stored : null)
+    }
+  });
+};
+
+const timeControlFor = (time: string) =>
+  applyLaunchSearchParams(new URLSearchParams({ time }), DEFAULT_LAUNCH_SETTINGS).timeControl;
+
+describe('stored launch settings', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it.each([
+    ['nothing stored', null],
+    ['text that is not JSON', '{"difficulty": "hard",'],
+    ['JSON that is not an object', '"expert"']
+  ])('falls back to the defaults with %s', (_, stored) => {
+    stubSessionStorage(stored);
+
+    expect(loadStoredLaunchSettings()).toEqual(DEFAULT_LAUNCH_SETTINGS);
+  });
+
+  it('keeps the valid fields of partial or corrupt settings', () => {
+    stubSessionStorage(JSON.stringify({
+      difficulty: 'grandmaster',
+      playerColor: 'black',
+      showHints: 'yes',
+      gameMode: 'local',
+      timeControl: { minutes: 5, increment: -2 },
+      playerNames: { white: '  Ann   Lee ', black: 42 }
+    }));
+
+    expect(loadStoredLaunchSettings()).toEqual({
+      ...DEFAULT_LAUNCH_SETTINGS,
+      playerColor: 'black',
+      aiColor: 'white',
+      gameMode: 'local',
+      timeControl: { minutes: 5, increment: 0 },
+      playerNames: { white: 'Ann Lee', black: 'Black' }
+    });
+  });
+});
+
+describe('sanitizeLaunchSettings', () => {
+  it.each([
+    ['white', 'black'],
+    ['black', 'white']
+  ] as const)('gives the AI the other side when the player is %s', (playerColor, aiColor) => {
+    expect(sanitizeLaunchSettings({ playerColor, aiColor: playerColor })).toMatchObject({ playerColor, aiColor });
+  });
+
+  it('drops a delay that has no mode', () => {
+    expect(sanitizeLaunchSettings({ timeControl: { minutes: 3, increment: 2, delay: 5 } }).timeControl)
+      .toEqual({ minutes: 3, increment: 2 });
+  });
+
+  it('clamps the increment and delay to their limits', () => {
+    expect(sanitizeLaunchSettings({
+      timeControl: { minutes: 10, increment: 999, delay: 999, delayMode: 'simple' }
+    }).timeControl).toEqual({ minutes: 10, increment: 180, delay: 60, delayMode: 'simple' });
+  });
+});
+
+describe('deep links', () => {
+  it('reads black against expert at 5+3', () => {
+    const settings = applyLaunchSearchParams(
+      new URLSearchParams('color=black&difficulty=expert&time=5%2B3'),
+      DEFAULT_LAUNCH_SETTINGS
+    );
+
+    expect(settings).toMatchObject({
+      playerColor: 'black',
+      aiColor: 'white',
+      difficulty: 'expert',
+      timeControl: { minutes: 5, increment: 3 }
+    });
+  });
+
+  it.each([
+    ['5+3', { minutes: 5, increment: 3 }],
+    ['5 3', { minutes: 5, increment: 3 }],
+    ['5|3', { minutes: 5, increment: 3 }],
+    ['1.5', { minutes: 1.5, increment: 0 }],
+    ['5+0d3', { minutes: 5, increment: 0, delay: 3, delayMode: 'simple' }],
+    ['5+2b4', { minutes: 5, increment: 2, delay: 4, delayMode: 'bronstein' }],
+    ['5+0d0', { minutes: 5, increment: 0 }]
+  ])('reads the time "%s"', (time, timeControl) => {
+    expect(timeControlFor(time)).toEqual(timeControl);
+  });
+
+  it.each(['none', '0'])('turns the clock off with the time "%s"', time => {
+    const base: GameLaunchSettings = { ...DEFAULT_LAUNCH_SETTINGS, timeControl: { minutes: 5, increment: 0 } };
+
+    expect(applyLaunchSearchParams(new URLSearchParams({ time }), base).timeControl).toBeUndefined();
+  });
+
+  it.each(['fast', '5+', '-5+3', '5+3x2', '181+0', '0.0'])('keeps the stored clock for the time "%s"', time => {
+    const base: GameLaunchSettings = { ...DEFAULT_LAUNCH_SETTINGS, timeControl: { minutes: 10, increment: 5 } };
+
+    expect(applyLaunchSearchParams(new URLSearchParams({ time }), base).timeControl)
+      .toEqual({ minutes: 10, increment: 5 });
+  });
+
+  it('ignores unknown values and keeps the rest', () => {
+    const settings = applyLaunchSearchParams(
+      new URLSearchParams('mode=online&difficulty=impossible&color=green&hints=1&sound=maybe'),
+      DEFAULT_LAUNCH_SETTINGS
+    );
+
+    expect(settings).toEqual({ ...DEFAULT_LAUNCH_SETTINGS, showHints: true });
+  });
+
+  it.each<[string, GameLaunchSettings]>([
+    ['an AI game with a delayed clock', {
+      ...DEFAULT_LAUNCH_SETTINGS,
+      difficulty: 'hard',
+      playerColor: 'black',
+      aiColor: 'white',
+      timeControl: { minutes: 15, increment: 10, delay: 5, delayMode: 'bronstein' },
+      allowUndo: false,
+      showHints: true,
+      soundEnabled: false
+    }],
+    ['a local game with names and a flipping board', {
+      ...DEFAULT_LAUNCH_SETTINGS,
+      gameMode: 'local',
+      playerNames: { white: 'Ann', black: 'Bo' },
+      autoFlipBoard: true,
+      timeControl: { minutes: 3, increment: 2 }
+    }]
+  ])('survives a round trip through search params for %s', (_, settings) => {
+    const params = new URLSearchParams(launchSettingsToSearchParams(settings).toString());
+
+    expect(applyLaunchSearchParams(params, DEFAULT_LAUNCH_SETTINGS)).toEqual(settings);
+  });
+});
@@ -0,0 +1,35 @@
+import { GameSettings, GameState, Move, PieceType, algebraicToPosition } from '@/types/chess';
+import { ChessEngine } from '@/lib/chess-engine';
+import { createGameStateFromFen } from '@/lib/chess-fen';
+import { ChessPosition } from '@/lib/chess-position';
+
+// Settings for the games tests build; expert so any search plays without random picks
+export const TEST_SETTINGS: GameSettings = {
+  difficulty: 'expert',
+  playerColor: 'white',
+  aiColor: 'black',
+  allowUndo: true,
+  showHints: false
+};
+
+// A local game set up from the FEN with the test settings
+export function gameStateFromFen(fen: string): GameState {
+  return createGameStateFromFen(fen, TEST_SETTINGS, false);
+}
+
+// The 0x88 position of that game, for the search, evaluation and hashing tests
+export function positionFromFen(fen: string): ChessPosition {
+  return ChessPosition.fromGameState(gameStateFromFen(fen));
+}
+
+const PROMOTION_LETTERS: Record<string, PieceType> = { q: 'queen', r: 'rook', b: 'bishop', n: 'knight' };
+
+// Plays moves written as coordinates, such as "e2e4" or "e7e8q", on the engine's game
+export function playMoves(engine: ChessEngine, moves: string[]): Move[] {
+  return moves.map(move => {
+    const from = algebraicToPosition(move.slice(0, 2));
+    const piece = engine.getGameState().board[from.row][from.col];
+    if (!piece) throw new Error(`No piece on ${move.slice(0, 2)}`);
+    return engine.makeMove(piece, algebraicToPosition(move.slice(2, 4)), PROMOTION_LETTERS[move[4]]);
+  });
+}